@@ -1,11 +1,12 @@
 import React, { useState } from 'react';
-import { Users, Mail, Settings, BarChart } from 'lucide-react';
+import { Users, Mail, Settings, BarChart, BookOpen } from 'lucide-react';
 import ClientManager from './components/ClientManager';
 import EmailDashboard from './components/EmailDashboard';
 import TemplateManager from './components/TemplateManager';
+import KnowledgeBase from './components/KnowledgeBase';
 import UsageReporting from './components/UsageReporting';
 
-type Tab = 'clients' | 'emails' | 'templates' | 'reports';
+type Tab = 'clients' | 'emails' | 'templates' | 'knowledge' | 'reports';
 
 function App() {
   const [activeTab, setActiveTab] = useState<Tab>('clients');
@@ -15,6 +16,7 @@ function App() {
     { id: 'clients' as Tab, name: 'Clients', icon: Users },
     { id: 'emails' as Tab, name: 'Emails', icon: Mail },
     { id: 'templates' as Tab, name: 'Templates', icon: Settings },
+    { id: 'knowledge' as Tab, name: 'Knowledge', icon: BookOpen },
     { id: 'reports' as Tab, name: 'Reports', icon: BarChart },
   ];
 
@@ -79,6 +81,11 @@ function App() {
             selectedClientId={selectedClientId}
           />
         )}
+        {activeTab === 'knowledge' && (
+          <KnowledgeBase 
+            selectedClientId={selectedClientId}
+          />
+        )}
         {activeTab === 'reports' && (
           <UsageReporting 
             selectedClientId={selectedClientId}
@@ -0,0 +1,82 @@
+import React, { useState, useEffect } from 'react';
+import { Send } from 'lucide-react';
+import { responseAPI, AutoSendEvent } from '../services/api';
+
+interface AutoSendLogProps {
+  clientId: string;
+}
+
+const EVENT_STYLES: Record<AutoSendEvent['event'], string> = {
+  sent: 'bg-purple-100 text-purple-800',
+  scheduled: 'bg-teal-100 text-teal-800',
+  held: 'bg-yellow-100 text-yellow-800',
+  cancelled: 'bg-gray-200 text-gray-600',
+};
+
+export default function AutoSendLog({ clientId }: AutoSendLogProps) {
+  const [events, setEvents] = useState<AutoSendEvent[]>([]);
+  const [expandedId, setExpandedId] = useState<string>('');
+
+  useEffect(() => {
+    loadEvents();
+  }, [clientId]);
+
+  const loadEvents = async () => {
+    try {
+      const response = await responseAPI.getAutoSendLog(clientId);
+      setEvents(response.events);
+    } catch (error) {
+      console.error('Failed to load auto-send log:', error);
+      setEvents([]);
+    }
+  };
+
+  if (events.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-lg font-semibold">Automatic Sends</h3>
+        <Send className="h-5 w-5 text-gray-500" />
+      </div>
+
+      <div className="space-y-2">
+        {events.map(event => (
+          <div key={event.id} className="border-b pb-2 text-sm">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2 min-w-0">
+                <span className={`px-2 py-1 rounded-full text-xs font-medium ${EVENT_STYLES[event.event]}`}>
+                  {event.event}
+                </span>
+                <span className="truncate">{event.email.subject}</span>
+                <span className="text-gray-500 truncate">{event.email.senderEmail}</span>
+              </div>
+              <span className="text-xs text-gray-500 whitespace-nowrap">{new Date(event.createdAt).toLocaleString()}</span>
+            </div>
+            <div className="text-gray-600 mt-1">
+              {event.reason}
+              {event.confidence !== null && ` · ${Math.round(event.confidence * 100)}% confidence`}
+              {event.scheduledFor && ` · sends at ${new Date(event.scheduledFor).toLocaleString()}`}
+            </div>
+            {event.content && (
+              <button
+                onClick={() => setExpandedId(expandedId === event.id ? '' : event.id)}
+                className="text-xs text-primary-600 hover:text-primary-700"
+              >
+                {expandedId === event.id ? 'Hide reply' : 'Show reply'}
+              </button>
+            )}
+            {expandedId === event.id && event.content && (
+              <div
+                className="bg-white p-3 mt-1 rounded border prose max-w-none"
+                dangerouslySetInnerHTML={{ __html: event.content }}
+              />
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
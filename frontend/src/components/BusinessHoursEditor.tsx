@@ -0,0 +1,133 @@
+import React from 'react';
+
+export interface OpeningWindow {
+  start: string;
+  end: string;
+}
+
+export interface BusinessHours {
+  enabled: boolean;
+  timezone: string;
+  start?: string;
+  end?: string;
+  schedule?: { [day: string]: OpeningWindow[] };
+  holidays?: string[];
+  closures?: Array<{ start: string; end: string; reason?: string }>;
+}
+
+interface BusinessHoursEditorProps {
+  value: BusinessHours;
+  onChange: (value: BusinessHours) => void;
+}
+
+const DAYS = [
+  { id: 'monday', label: 'Monday' },
+  { id: 'tuesday', label: 'Tuesday' },
+  { id: 'wednesday', label: 'Wednesday' },
+  { id: 'thursday', label: 'Thursday' },
+  { id: 'friday', label: 'Friday' },
+  { id: 'saturday', label: 'Saturday' },
+  { id: 'sunday', label: 'Sunday' },
+];
+
+const WORKING_DAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'];
+
+// Settings saved before weekly schedules had one start and end for Monday to Friday
+function weeklySchedule(value: BusinessHours): { [day: string]: OpeningWindow[] } {
+  if (value.schedule) {
+    return value.schedule;
+  }
+
+  const window = { start: value.start || '09:00', end: value.end || '17:00' };
+  return Object.fromEntries(DAYS.map(day => [day.id, WORKING_DAYS.includes(day.id) ? [window] : []]));
+}
+
+export default function BusinessHoursEditor({ value, onChange }: BusinessHoursEditorProps) {
+  const schedule = weeklySchedule(value);
+
+  // The editor shows one window per day; extra windows set through the API are kept
+  const updateDay = (day: string, window: OpeningWindow | null) => {
+    const rest = (schedule[day] || []).slice(1);
+    onChange({
+      ...value,
+      schedule: { ...schedule, [day]: window ? [window, ...rest] : [] },
+    });
+  };
+
+  return (
+    <div>
+      <label className="label">Business Hours</label>
+      <label className="flex items-center mb-2">
+        <input
+          type="checkbox"
+          checked={value.enabled}
+          onChange={(e) => onChange({ ...value, enabled: e.target.checked })}
+          className="mr-2"
+        />
+        Only draft replies while open
+      </label>
+
+      <div className="space-y-2">
+        <input
+          type="text"
+          value={value.timezone}
+          onChange={(e) => onChange({ ...value, timezone: e.target.value })}
+          className="input-field w-64"
+          placeholder="Timezone, e.g. America/New_York"
+          disabled={!value.enabled}
+        />
+
+        {DAYS.map(day => {
+          const window = schedule[day.id]?.[0];
+          return (
+            <div key={day.id} className="flex items-center space-x-2">
+              <label className="flex items-center w-32 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={!!window}
+                  onChange={(e) => updateDay(day.id, e.target.checked ? { start: '09:00', end: '17:00' } : null)}
+                  className="mr-2"
+                  disabled={!value.enabled}
+                />
+                {day.label}
+              </label>
+              {window ? (
+                <>
+                  <input
+                    type="time"
+                    value={window.start}
+                    onChange={(e) => updateDay(day.id, { ...window, start: e.target.value })}
+                    className="input-field w-32"
+                    disabled={!value.enabled}
+                  />
+                  <span className="text-sm text-gray-500">to</span>
+                  <input
+                    type="time"
+                    value={window.end}
+                    onChange={(e) => updateDay(day.id, { ...window, end: e.target.value })}
+                    className="input-field w-32"
+                    disabled={!value.enabled}
+                  />
+                </>
+              ) : (
+                <span className="text-sm text-gray-500">Closed</span>
+              )}
+            </div>
+          );
+        })}
+
+        <input
+          type="text"
+          defaultValue={(value.holidays || []).join(', ')}
+          onBlur={(e) => onChange({
+            ...value,
+            holidays: e.target.value.split(',').map(holiday => holiday.trim()).filter(Boolean),
+          })}
+          className="input-field"
+          placeholder="Holidays: 12-25, 01-01 every year, or 2025-11-28 once"
+          disabled={!value.enabled}
+        />
+      </div>
+    </div>
+  );
+}
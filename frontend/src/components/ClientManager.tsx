@@ -1,6 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, ExternalLink, CheckCircle, XCircle, RefreshCw, Trash2, Settings, ToggleLeft, ToggleRight } from 'lucide-react';
+import { Plus, ExternalLink, CheckCircle, XCircle, RefreshCw, Trash2, Settings, ToggleLeft, ToggleRight, AlertTriangle } from 'lucide-react';
 import { clientAPI, authAPI, Client } from '../services/api';
+import SenderRules from './SenderRules';
+import ProcessingRules from './ProcessingRules';
+import BusinessHoursEditor, { BusinessHours } from './BusinessHoursEditor';
+import OutOfOfficeEditor, { OutOfOffice } from './OutOfOfficeEditor';
 
 interface ClientManagerProps {
   selectedClientId: string;
@@ -13,14 +17,42 @@ interface AISettings {
   tone: 'formal' | 'friendly' | 'neutral';
   autoRespond: boolean;
   requireApproval: boolean;
-  businessHours: {
+  replyMode: 'reply' | 'replyAll' | 'auto';
+  pastReplyExamples: {
     enabled: boolean;
-    start: string;
-    end: string;
-    timezone: string;
+    maxExamples: number;
+  };
+  llm?: {
+    provider: 'anthropic' | 'openai';
+    model?: string;
+    vipModel?: string;
+    failover?: boolean;
+  };
+  triage?: {
+    enabled: boolean;
+    actions?: { [category: string]: TriageAction };
+  };
+  businessHours: BusinessHours;
+  outOfOffice?: OutOfOffice;
+  autoSend?: {
+    minConfidence: number;
+    delayMinutes: number;
   };
 }
 
+type TriageAction = 'draft' | 'categorize' | 'skip';
+
+// Mirrors the server's defaults for clients that haven't set a rule
+const TRIAGE_CATEGORIES: Array<{ id: string; label: string; defaultAction: TriageAction }> = [
+  { id: 'inquiry', label: 'Inquiries', defaultAction: 'draft' },
+  { id: 'complaint', label: 'Complaints', defaultAction: 'draft' },
+  { id: 'scheduling', label: 'Scheduling', defaultAction: 'draft' },
+  { id: 'invoice', label: 'Invoices & receipts', defaultAction: 'categorize' },
+  { id: 'newsletter', label: 'Newsletters', defaultAction: 'categorize' },
+  { id: 'spam', label: 'Spam', defaultAction: 'skip' },
+  { id: 'auto-reply', label: 'Auto-replies', defaultAction: 'skip' },
+];
+
 export default function ClientManager({ selectedClientId, onClientSelect }: ClientManagerProps) {
   const [clients, setClients] = useState<Client[]>([]);
   const [loading, setLoading] = useState(false);
@@ -41,6 +73,8 @@ export default function ClientManager({ selectedClientId, onClientSelect }: Clie
     tone: 'friendly',
     autoRespond: false,
     requireApproval: true,
+    replyMode: 'auto',
+    pastReplyExamples: { enabled: true, maxExamples: 3 },
     businessHours: {
       enabled: false,
       start: '09:00',
@@ -99,20 +133,18 @@ export default function ClientManager({ selectedClientId, onClientSelect }: Clie
 
   const updateAISettings = async (clientId: string, settings: AISettings) => {
     try {
-      await clientAPI.updateProfile(clientId, {
-        businessContext: { aiSettings: settings }
-      });
+      await clientAPI.updateProfile(clientId, { aiSettings: settings });
       
       setClients(clients.map(client => 
         client.id === clientId 
-          ? { ...client, businessContext: { ...client.businessContext, aiSettings: settings } }
+          ? { ...client, aiSettings: settings }
           : client
       ));
       
       setShowSettingsFor('');
     } catch (error: any) {
       console.error('Failed to update AI settings:', error);
-      alert('Failed to update AI settings');
+      alert(error.response?.data?.error || 'Failed to update AI settings');
     }
   };
 
@@ -123,22 +155,8 @@ export default function ClientManager({ selectedClientId, onClientSelect }: Clie
     try {
       const response = await clientAPI.register({
         ...formData,
-        businessContext: { 
-          aiEnabled: true,
-          aiSettings: {
-            responseStyle: 'professional',
-            responseLength: 'short',
-            tone: 'friendly',
-            autoRespond: false,
-            requireApproval: true,
-            businessHours: {
-              enabled: false,
-              start: '09:00',
-              end: '17:00',
-              timezone: 'America/New_York'
-            }
-          }
-        }
+        // New clients start on the server's default AI settings
+        businessContext: { aiEnabled: true }
       });
       
       const newClient = response.client;
@@ -215,6 +233,17 @@ export default function ClientManager({ selectedClientId, onClientSelect }: Clie
     }
   };
 
+  const rebuildStyleProfile = async (clientId: string) => {
+    try {
+      const response = await clientAPI.rebuildStyleProfile(clientId);
+      alert(`Writing style learned from ${response.styleProfile.sampleSize} sent emails.`);
+      await loadClients();
+    } catch (error: any) {
+      console.error('Failed to learn writing style:', error);
+      alert(error.response?.data?.error || 'Failed to learn writing style');
+    }
+  };
+
   useEffect(() => {
     clients.forEach(client => {
       if (client.hasActiveTokens) {
@@ -347,6 +376,152 @@ export default function ClientManager({ selectedClientId, onClientSelect }: Clie
                 </select>
               </div>
 
+              <div>
+                <label className="label">Reply Recipients</label>
+                <select
+                  value={aiSettings.replyMode || 'auto'}
+                  onChange={(e) => setAiSettings({...aiSettings, replyMode: e.target.value as any})}
+                  className="input-field"
+                >
+                  <option value="auto">Automatic (reply all when others were included)</option>
+                  <option value="reply">Reply to sender only</option>
+                  <option value="replyAll">Always reply all</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="label">AI Model</label>
+                <div className="flex items-center space-x-4">
+                  <select
+                    value={aiSettings.llm?.provider || 'anthropic'}
+                    onChange={(e) => setAiSettings({
+                      ...aiSettings,
+                      llm: { ...aiSettings.llm, provider: e.target.value as 'anthropic' | 'openai', model: '', vipModel: '' }
+                    })}
+                    className="input-field w-40"
+                  >
+                    <option value="anthropic">Anthropic</option>
+                    <option value="openai">OpenAI</option>
+                  </select>
+                  <input
+                    type="text"
+                    value={aiSettings.llm?.model || ''}
+                    onChange={(e) => setAiSettings({
+                      ...aiSettings,
+                      llm: { ...aiSettings.llm, provider: aiSettings.llm?.provider || 'anthropic', model: e.target.value }
+                    })}
+                    className="input-field"
+                    placeholder="Default model"
+                  />
+                  <input
+                    type="text"
+                    value={aiSettings.llm?.vipModel || ''}
+                    onChange={(e) => setAiSettings({
+                      ...aiSettings,
+                      llm: { ...aiSettings.llm, provider: aiSettings.llm?.provider || 'anthropic', vipModel: e.target.value }
+                    })}
+                    className="input-field"
+                    placeholder="VIP model"
+                  />
+                  <label className="flex items-center whitespace-nowrap">
+                    <input
+                      type="checkbox"
+                      checked={aiSettings.llm?.failover ?? true}
+                      onChange={(e) => setAiSettings({
+                        ...aiSettings,
+                        llm: { ...aiSettings.llm, provider: aiSettings.llm?.provider || 'anthropic', failover: e.target.checked }
+                      })}
+                      className="mr-2"
+                    />
+                    Fail over to the other provider
+                  </label>
+                </div>
+              </div>
+
+              <div>
+                <label className="label">Examples From Past Replies</label>
+                <div className="flex items-center space-x-4">
+                  <label className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={aiSettings.pastReplyExamples?.enabled ?? true}
+                      onChange={(e) => setAiSettings({
+                        ...aiSettings,
+                        pastReplyExamples: { maxExamples: aiSettings.pastReplyExamples?.maxExamples ?? 3, enabled: e.target.checked }
+                      })}
+                      className="mr-2"
+                    />
+                    Show the AI replies sent to similar emails
+                  </label>
+                  <select
+                    value={aiSettings.pastReplyExamples?.maxExamples ?? 3}
+                    onChange={(e) => setAiSettings({
+                      ...aiSettings,
+                      pastReplyExamples: { enabled: aiSettings.pastReplyExamples?.enabled ?? true, maxExamples: parseInt(e.target.value) }
+                    })}
+                    className="input-field w-24"
+                    disabled={aiSettings.pastReplyExamples?.enabled === false}
+                  >
+                    {[1, 2, 3, 4, 5].map(count => (
+                      <option key={count} value={count}>{count}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="label">Inbox Triage</label>
+                <label className="flex items-center mb-2">
+                  <input
+                    type="checkbox"
+                    checked={aiSettings.triage?.enabled ?? true}
+                    onChange={(e) => setAiSettings({
+                      ...aiSettings,
+                      triage: { ...aiSettings.triage, enabled: e.target.checked }
+                    })}
+                    className="mr-2"
+                  />
+                  Classify emails first and only draft replies where needed
+                </label>
+                <div className="grid grid-cols-2 gap-2">
+                  {TRIAGE_CATEGORIES.map(category => (
+                    <div key={category.id} className="flex items-center justify-between">
+                      <span className="text-sm text-gray-700">{category.label}</span>
+                      <select
+                        value={aiSettings.triage?.actions?.[category.id] || category.defaultAction}
+                        onChange={(e) => setAiSettings({
+                          ...aiSettings,
+                          triage: {
+                            enabled: aiSettings.triage?.enabled ?? true,
+                            actions: { ...aiSettings.triage?.actions, [category.id]: e.target.value as TriageAction }
+                          }
+                        })}
+                        className="input-field w-36"
+                        disabled={aiSettings.triage?.enabled === false}
+                      >
+                        <option value="draft">Draft reply</option>
+                        <option value="categorize">Tag only</option>
+                        <option value="skip">Skip</option>
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <BusinessHoursEditor
+                value={aiSettings.businessHours || { enabled: false, timezone: 'America/New_York' }}
+                onChange={(businessHours) => setAiSettings({ ...aiSettings, businessHours })}
+              />
+
+              <OutOfOfficeEditor
+                value={aiSettings.outOfOffice || { enabled: false, start: '', end: '', timezone: aiSettings.businessHours?.timezone || 'America/New_York' }}
+                onChange={(outOfOffice) => setAiSettings({ ...aiSettings, outOfOffice })}
+              />
+
+              <SenderRules clientId={showSettingsFor} />
+
+              <ProcessingRules clientId={showSettingsFor} />
+
               <div className="flex items-center space-x-4">
                 <label className="flex items-center">
                   <input
@@ -357,7 +532,52 @@ export default function ClientManager({ selectedClientId, onClientSelect }: Clie
                   />
                   Always require approval before sending
                 </label>
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={aiSettings.autoRespond}
+                    onChange={(e) => setAiSettings({...aiSettings, autoRespond: e.target.checked})}
+                    className="mr-2"
+                    disabled={aiSettings.requireApproval}
+                  />
+                  Send replies automatically
+                </label>
               </div>
+
+              {aiSettings.autoRespond && !aiSettings.requireApproval && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="label">Minimum confidence to send (%)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      value={Math.round((aiSettings.autoSend?.minConfidence ?? 0.8) * 100)}
+                      onChange={(e) => setAiSettings({
+                        ...aiSettings,
+                        autoSend: { delayMinutes: aiSettings.autoSend?.delayMinutes ?? 5, minConfidence: parseInt(e.target.value) / 100 }
+                      })}
+                      className="input-field"
+                    />
+                  </div>
+                  <div>
+                    <label className="label">Undo window (minutes)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={aiSettings.autoSend?.delayMinutes ?? 5}
+                      onChange={(e) => setAiSettings({
+                        ...aiSettings,
+                        autoSend: { minConfidence: aiSettings.autoSend?.minConfidence ?? 0.8, delayMinutes: parseInt(e.target.value) }
+                      })}
+                      className="input-field"
+                    />
+                  </div>
+                  <p className="col-span-2 text-sm text-gray-500">
+                    VIP mail, complaints, negative mail and drafts with open questions are always left for review.
+                  </p>
+                </div>
+              )}
             </div>
             
             <div className="flex space-x-4 mt-6">
@@ -437,19 +657,33 @@ export default function ClientManager({ selectedClientId, onClientSelect }: Clie
                     <div className="mt-2 flex items-center space-x-4 text-sm text-gray-500">
                       <span>Created: {new Date(client.createdAt).toLocaleDateString()}</span>
                       <span>Status: {status?.isConnected ? 'Connected' : 'Disconnected'}</span>
+                      {client.styleProfiledAt && (
+                        <span>Style learned: {new Date(client.styleProfiledAt).toLocaleDateString()}</span>
+                      )}
                     </div>
+                    {status?.isConnected && status.subscription && !status.subscription.healthy && (
+                      <div className="mt-2 flex items-center text-sm text-red-600">
+                        <AlertTriangle className="h-4 w-4 mr-1" />
+                        <span>
+                          Mailbox not receiving notifications
+                          {status.subscription.lastError ? `: ${status.subscription.lastError}` : ''}
+                        </span>
+                      </div>
+                    )}
                   </div>
                   
                   <div className="flex space-x-2">
                     <button
                       onClick={(e) => {
                         e.stopPropagation();
-                        const settings = client.businessContext?.aiSettings || {
+                        const settings = client.aiSettings || {
                           responseStyle: 'professional',
                           responseLength: 'short',
                           tone: 'friendly',
                           autoRespond: false,
                           requireApproval: true,
+                          replyMode: 'auto',
+                          pastReplyExamples: { enabled: true, maxExamples: 3 },
                           businessHours: {
                             enabled: false,
                             start: '09:00',
@@ -478,6 +712,16 @@ export default function ClientManager({ selectedClientId, onClientSelect }: Clie
                         >
                           Test
                         </button>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            rebuildStyleProfile(client.id);
+                          }}
+                          className="text-sm bg-blue-100 text-blue-700 px-3 py-1 rounded-md hover:bg-blue-200"
+                          title="Learn writing style from sent mail"
+                        >
+                          Learn Style
+                        </button>
                         <button
                           onClick={(e) => {
                             e.stopPropagation();
@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
-import { Mail, Clock, CheckCircle, AlertCircle, RefreshCw } from 'lucide-react';
-import { clientAPI, Email, AIResponse } from '../services/api';
+import { Mail, Clock, CheckCircle, AlertCircle, RefreshCw, Send, XCircle, Edit, Tag, MinusCircle, HelpCircle } from 'lucide-react';
+import { clientAPI, responseAPI, rulesAPI, Email, AIResponse, RuleEvaluation } from '../services/api';
 
 interface EmailDashboardProps {
   selectedClientId: string;
@@ -11,6 +11,11 @@ export default function EmailDashboard({ selectedClientId }: EmailDashboardProps
   const [loading, setLoading] = useState(false);
   const [selectedEmail, setSelectedEmail] = useState<Email | null>(null);
   const [statusFilter, setStatusFilter] = useState<string>('');
+  const [syncing, setSyncing] = useState(false);
+  const [editingResponseId, setEditingResponseId] = useState<string>('');
+  const [editedContent, setEditedContent] = useState<string>('');
+  const [actionInProgress, setActionInProgress] = useState<string>('');
+  const [explanation, setExplanation] = useState<RuleEvaluation | null>(null);
 
   useEffect(() => {
     if (selectedClientId) {
@@ -36,6 +41,71 @@ export default function EmailDashboard({ selectedClientId }: EmailDashboardProps
     }
   };
 
+  useEffect(() => {
+    setExplanation(null);
+  }, [selectedEmail?.id]);
+
+  // Ask the rules engine which rule fires for the selected email
+  const explainEmail = async (emailId: string) => {
+    try {
+      setExplanation(await rulesAPI.dryRun(selectedClientId, { emailId }));
+    } catch (error: any) {
+      console.error('Failed to explain email:', error);
+      alert(error.response?.data?.error || 'Failed to explain email');
+    }
+  };
+
+  const syncMailbox = async () => {
+    setSyncing(true);
+    try {
+      const response = await clientAPI.syncMailbox(selectedClientId);
+      alert(`Sync complete. Found ${response.enqueued} missed email${response.enqueued === 1 ? '' : 's'}.`);
+      loadEmails();
+    } catch (error: any) {
+      console.error('Failed to sync mailbox:', error);
+      alert(error.response?.data?.error || 'Failed to sync mailbox');
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const runResponseAction = async (responseId: string, action: () => Promise<any>) => {
+    setActionInProgress(responseId);
+    try {
+      await action();
+      setEditingResponseId('');
+      await loadEmails();
+    } catch (error: any) {
+      console.error('AI response action failed:', error);
+      alert(error.response?.data?.error || 'Action failed');
+    } finally {
+      setActionInProgress('');
+    }
+  };
+
+  const approveResponse = (response: AIResponse) => runResponseAction(response.id, () =>
+    responseAPI.approveResponse(
+      selectedClientId,
+      response.id,
+      editingResponseId === response.id ? editedContent : undefined
+    )
+  );
+
+  const cancelSend = (response: AIResponse) => runResponseAction(response.id, () =>
+    responseAPI.cancelSend(selectedClientId, response.id)
+  );
+
+  const saveResponseEdit = (response: AIResponse) => runResponseAction(response.id, () =>
+    responseAPI.editResponse(selectedClientId, response.id, editedContent)
+  );
+
+  const rejectResponse = (response: AIResponse) => {
+    if (!confirm('Reject this response and delete its Outlook draft?')) {
+      return;
+    }
+    runResponseAction(response.id, () => responseAPI.rejectResponse(selectedClientId, response.id));
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'RECEIVED':
@@ -44,7 +114,20 @@ export default function EmailDashboard({ selectedClientId }: EmailDashboardProps
         return <RefreshCw className="h-5 w-5 text-blue-500 animate-spin" />;
       case 'DRAFT_CREATED':
         return <CheckCircle className="h-5 w-5 text-green-500" />;
+      case 'SENT':
+        return <Send className="h-5 w-5 text-purple-500" />;
+      case 'CATEGORIZED':
+        return <Tag className="h-5 w-5 text-indigo-500" />;
+      case 'SKIPPED':
+      case 'REJECTED':
+        return <MinusCircle className="h-5 w-5 text-gray-400" />;
+      case 'DEFERRED':
+        return <Clock className="h-5 w-5 text-sky-500" />;
+      case 'SEND_SCHEDULED':
+      case 'SCHEDULED':
+        return <Send className="h-5 w-5 text-teal-500" />;
       case 'ERROR':
+      case 'AI_OUTPUT_INVALID':
         return <AlertCircle className="h-5 w-5 text-red-500" />;
       default:
         return <Mail className="h-5 w-5 text-gray-500" />;
@@ -59,8 +142,22 @@ export default function EmailDashboard({ selectedClientId }: EmailDashboardProps
         return 'bg-blue-100 text-blue-800';
       case 'DRAFT_CREATED':
         return 'bg-green-100 text-green-800';
+      case 'SENT':
+        return 'bg-purple-100 text-purple-800';
+      case 'CATEGORIZED':
+        return 'bg-indigo-100 text-indigo-800';
+      case 'DEFERRED':
+        return 'bg-sky-100 text-sky-800';
+      case 'SEND_SCHEDULED':
+      case 'SCHEDULED':
+        return 'bg-teal-100 text-teal-800';
+      case 'REJECTED':
+      case 'SKIPPED':
+        return 'bg-gray-200 text-gray-600';
       case 'ERROR':
         return 'bg-red-100 text-red-800';
+      case 'AI_OUTPUT_INVALID':
+        return 'bg-orange-100 text-orange-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -93,8 +190,18 @@ export default function EmailDashboard({ selectedClientId }: EmailDashboardProps
             <option value="RECEIVED">Received</option>
             <option value="PROCESSING">Processing</option>
             <option value="DRAFT_CREATED">Draft Created</option>
+            <option value="SENT">Sent</option>
             <option value="ERROR">Error</option>
+            <option value="AI_OUTPUT_INVALID">Invalid AI Output</option>
+            <option value="CATEGORIZED">Categorized</option>
+            <option value="SKIPPED">Skipped</option>
+            <option value="DEFERRED">Deferred</option>
+            <option value="SEND_SCHEDULED">Send Scheduled</option>
+            <option value="REJECTED">Rejected</option>
           </select>
+          <button onClick={syncMailbox} className="btn-secondary" disabled={syncing}>
+            {syncing ? 'Syncing...' : 'Sync Mailbox'}
+          </button>
           <button onClick={loadEmails} className="btn-primary">
             <RefreshCw className="h-4 w-4 mr-2" />
             Refresh
@@ -134,11 +241,29 @@ export default function EmailDashboard({ selectedClientId }: EmailDashboardProps
                         <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(email.status)}`}>
                           {email.status.replace('_', ' ')}
                         </span>
+                        {email.category && (
+                          <span className="px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                            {email.category}
+                          </span>
+                        )}
+                        {email.urgency === 'high' && (
+                          <span className="px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                            urgent
+                          </span>
+                        )}
+                        {email.isVip && (
+                          <span className="px-2 py-1 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+                            VIP
+                          </span>
+                        )}
                       </div>
                       <h4 className="font-medium text-gray-900 truncate">{email.subject}</h4>
                       <p className="text-sm text-gray-600 mb-2">From: {email.sender}</p>
                       <p className="text-xs text-gray-500">
                         {new Date(email.receivedAt).toLocaleString()}
+                        {email.status === 'DEFERRED' && email.deferredUntil && (
+                          <> · Drafting at {new Date(email.deferredUntil).toLocaleString()}</>
+                        )}
                       </p>
                     </div>
                     {email.aiResponses.length > 0 && (
@@ -174,7 +299,49 @@ export default function EmailDashboard({ selectedClientId }: EmailDashboardProps
                 <div className="space-y-2 text-sm">
                   <div><strong>From:</strong> {selectedEmail.sender} ({selectedEmail.senderEmail})</div>
                   <div><strong>Received:</strong> {new Date(selectedEmail.receivedAt).toLocaleString()}</div>
+                  {selectedEmail.category && (
+                    <div>
+                      <strong>Classification:</strong> {selectedEmail.category} · {selectedEmail.urgency} urgency · {selectedEmail.sentiment}
+                    </div>
+                  )}
+                  {selectedEmail.skipReason && (
+                    <div><strong>Skipped:</strong> {selectedEmail.skipReason}</div>
+                  )}
+                  {selectedEmail.outOfOfficeReply?.sentAt && (
+                    <div>
+                      <strong>Out-of-office reply:</strong> sent {new Date(selectedEmail.outOfOfficeReply.sentAt).toLocaleString()}
+                    </div>
+                  )}
+                  {selectedEmail.status === 'DEFERRED' && selectedEmail.deferredUntil && (
+                    <div>
+                      <strong>Deferred until:</strong> {new Date(selectedEmail.deferredUntil).toLocaleString()} (next business opening)
+                    </div>
+                  )}
                 </div>
+
+                <button
+                  onClick={() => explainEmail(selectedEmail.id)}
+                  className="mt-3 text-sm text-primary-600 hover:text-primary-700 flex items-center"
+                >
+                  <HelpCircle className="h-4 w-4 mr-1" />
+                  Which rule applies?
+                </button>
+
+                {explanation && (
+                  <div className="mt-2 text-sm space-y-1">
+                    <div>
+                      <strong>{explanation.decision.action}</strong>: {explanation.decision.reason}
+                    </div>
+                    {explanation.trace.map((entry, index) => (
+                      <div key={index} className={entry.matched ? 'text-gray-900' : 'text-gray-500'}>
+                        {entry.matched ? '✓' : '·'} {entry.detail}
+                      </div>
+                    ))}
+                    {!explanation.usedLiveMessage && (
+                      <div className="text-xs text-gray-500">Message no longer in the mailbox; header checks used stored details only.</div>
+                    )}
+                  </div>
+                )}
               </div>
 
               {/* AI Responses */}
@@ -205,18 +372,81 @@ export default function EmailDashboard({ selectedClientId }: EmailDashboardProps
                         </div>
                       )}
                       
-                      <div className="bg-white p-3 rounded border">
-                        <div 
-                          className="text-sm prose max-w-none"
-                          dangerouslySetInnerHTML={{ __html: response.responseContent }}
+                      {editingResponseId === response.id ? (
+                        <textarea
+                          value={editedContent}
+                          onChange={(e) => setEditedContent(e.target.value)}
+                          className="input-field font-mono text-xs"
+                          rows={8}
                         />
-                      </div>
+                      ) : (
+                        <div className="bg-white p-3 rounded border">
+                          <div 
+                            className="text-sm prose max-w-none"
+                            dangerouslySetInnerHTML={{ __html: response.editedContent ?? response.responseContent }}
+                          />
+                        </div>
+                      )}
                       
                       {response.draftId && (
                         <div className="mt-2 text-xs text-green-600">
                           Draft created in Outlook: {response.draftId}
                         </div>
                       )}
+
+                      {response.status === 'SCHEDULED' && response.scheduledSendAt && (
+                        <div className="mt-2 flex items-center space-x-2 text-sm text-teal-700">
+                          <span>Sending automatically at {new Date(response.scheduledSendAt).toLocaleString()}</span>
+                          <button
+                            onClick={() => cancelSend(response)}
+                            className="text-sm bg-teal-100 px-3 py-1 rounded-md hover:bg-teal-200"
+                            disabled={actionInProgress === response.id}
+                          >
+                            Cancel Send
+                          </button>
+                        </div>
+                      )}
+
+                      {response.draftId && !['SENT', 'SENDING', 'REJECTED'].includes(response.status) && (
+                        <div className="mt-3 flex space-x-2">
+                          <button
+                            onClick={() => approveResponse(response)}
+                            className="btn-primary flex items-center text-sm"
+                            disabled={actionInProgress === response.id}
+                          >
+                            <Send className="h-4 w-4 mr-1" />
+                            Approve & Send
+                          </button>
+                          {editingResponseId === response.id ? (
+                            <button
+                              onClick={() => saveResponseEdit(response)}
+                              className="btn-secondary flex items-center text-sm"
+                              disabled={actionInProgress === response.id}
+                            >
+                              Save Draft
+                            </button>
+                          ) : (
+                            <button
+                              onClick={() => {
+                                setEditingResponseId(response.id);
+                                setEditedContent(response.editedContent ?? response.responseContent);
+                              }}
+                              className="btn-secondary flex items-center text-sm"
+                            >
+                              <Edit className="h-4 w-4 mr-1" />
+                              Edit
+                            </button>
+                          )}
+                          <button
+                            onClick={() => rejectResponse(response)}
+                            className="text-sm bg-red-100 text-red-700 px-3 py-1 rounded-md hover:bg-red-200 flex items-center"
+                            disabled={actionInProgress === response.id}
+                          >
+                            <XCircle className="h-4 w-4 mr-1" />
+                            Reject
+                          </button>
+                        </div>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -0,0 +1,230 @@
+import React, { useState, useEffect } from 'react';
+import { Upload, Trash2, BookOpen, FileText } from 'lucide-react';
+import { knowledgeAPI, KnowledgeDocument } from '../services/api';
+
+interface KnowledgeBaseProps {
+  selectedClientId: string;
+}
+
+const ACCEPTED_FILES = '.md,.markdown,.txt,.pdf';
+
+export default function KnowledgeBase({ selectedClientId }: KnowledgeBaseProps) {
+  const [documents, setDocuments] = useState<KnowledgeDocument[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [showPasteForm, setShowPasteForm] = useState(false);
+
+  const [formData, setFormData] = useState({
+    title: '',
+    content: '',
+  });
+
+  useEffect(() => {
+    if (selectedClientId) {
+      loadDocuments();
+    }
+  }, [selectedClientId]);
+
+  const loadDocuments = async () => {
+    if (!selectedClientId) return;
+
+    setLoading(true);
+    try {
+      const response = await knowledgeAPI.getDocuments(selectedClientId);
+      setDocuments(response.documents);
+    } catch (error) {
+      console.error('Failed to load knowledge documents:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const uploadFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !selectedClientId) return;
+
+    const isPdf = file.name.toLowerCase().endsWith('.pdf');
+    const isMarkdown = /\.(md|markdown)$/i.test(file.name);
+
+    setUploading(true);
+    try {
+      const content = isPdf ? await readAsBase64(file) : await file.text();
+      await knowledgeAPI.addDocument(selectedClientId, {
+        title: file.name.replace(/\.[^.]+$/, ''),
+        filename: file.name,
+        contentType: isPdf ? 'application/pdf' : isMarkdown ? 'text/markdown' : 'text/plain',
+        content,
+      });
+      loadDocuments();
+    } catch (error: any) {
+      console.error('Failed to upload document:', error);
+      alert(error.response?.data?.error || 'Failed to upload document');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const addPastedDocument = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedClientId) return;
+
+    try {
+      await knowledgeAPI.addDocument(selectedClientId, {
+        title: formData.title,
+        contentType: 'text/markdown',
+        content: formData.content,
+      });
+      setFormData({ title: '', content: '' });
+      setShowPasteForm(false);
+      loadDocuments();
+    } catch (error: any) {
+      console.error('Failed to add document:', error);
+      alert(error.response?.data?.error || 'Failed to add document');
+    }
+  };
+
+  const deleteDocument = async (documentId: string) => {
+    if (!selectedClientId) return;
+    if (!confirm('Are you sure you want to delete this document?')) return;
+
+    try {
+      await knowledgeAPI.deleteDocument(selectedClientId, documentId);
+      loadDocuments();
+    } catch (error: any) {
+      console.error('Failed to delete document:', error);
+      alert(error.response?.data?.error || 'Failed to delete document');
+    }
+  };
+
+  if (!selectedClientId) {
+    return (
+      <div className="card text-center py-12">
+        <BookOpen className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+        <p className="text-gray-500">Select a client to manage their knowledge base</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Knowledge Base</h2>
+          <p className="text-gray-600">FAQs, price lists and policies the AI can quote when drafting replies</p>
+        </div>
+        <div className="flex space-x-2">
+          <button
+            onClick={() => setShowPasteForm(!showPasteForm)}
+            className="btn-secondary flex items-center"
+          >
+            <FileText className="h-4 w-4 mr-2" />
+            Paste Text
+          </button>
+          <label className={`btn-primary flex items-center cursor-pointer ${uploading ? 'opacity-50' : ''}`}>
+            <Upload className="h-4 w-4 mr-2" />
+            {uploading ? 'Uploading...' : 'Upload File'}
+            <input
+              type="file"
+              accept={ACCEPTED_FILES}
+              onChange={uploadFile}
+              disabled={uploading}
+              className="hidden"
+            />
+          </label>
+        </div>
+      </div>
+
+      {/* Paste Form */}
+      {showPasteForm && (
+        <div className="card">
+          <h3 className="text-lg font-semibold mb-4">Add Document</h3>
+          <form onSubmit={addPastedDocument} className="space-y-4">
+            <div>
+              <label className="label">Title</label>
+              <input
+                type="text"
+                value={formData.title}
+                onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                className="input-field"
+                placeholder="e.g., Shipping FAQ"
+                required
+              />
+            </div>
+            <div>
+              <label className="label">Content</label>
+              <textarea
+                value={formData.content}
+                onChange={(e) => setFormData({ ...formData, content: e.target.value })}
+                className="input-field h-48"
+                placeholder="## Delivery times&#10;&#10;Orders ship within 2 business days..."
+                required
+              />
+              <p className="text-sm text-gray-500 mt-1">
+                Markdown headings help the AI find the right section
+              </p>
+            </div>
+            <div className="flex space-x-4">
+              <button type="submit" className="btn-primary">
+                Add Document
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowPasteForm(false)}
+                className="btn-secondary"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {/* Documents List */}
+      <div className="space-y-4">
+        {loading ? (
+          <div className="card text-center py-8">
+            <p className="text-gray-500">Loading documents...</p>
+          </div>
+        ) : documents.length === 0 ? (
+          <div className="card text-center py-8">
+            <BookOpen className="h-8 w-8 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-500">No documents yet. Upload Markdown, text or PDF files to get started.</p>
+          </div>
+        ) : (
+          documents.map((document) => (
+            <div key={document.id} className="card">
+              <div className="flex justify-between items-start">
+                <div>
+                  <h3 className="text-lg font-semibold">{document.title}</h3>
+                  <p className="text-sm text-gray-600">
+                    {document.filename || 'Pasted text'} · {document.chunkCount} sections indexed
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    Added: {new Date(document.createdAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <button
+                  onClick={() => deleteDocument(document.id)}
+                  className="text-sm bg-red-100 text-red-700 px-3 py-1 rounded-md hover:bg-red-200"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
+function readAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1] || '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
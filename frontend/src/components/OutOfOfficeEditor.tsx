@@ -0,0 +1,101 @@
+import React from 'react';
+
+export interface OutOfOffice {
+  enabled: boolean;
+  start: string;
+  end: string;
+  timezone: string;
+  returnDate?: string;
+  alternateContact?: { name: string; email: string };
+  message?: string;
+}
+
+interface OutOfOfficeEditorProps {
+  value: OutOfOffice;
+  onChange: (value: OutOfOffice) => void;
+}
+
+export default function OutOfOfficeEditor({ value, onChange }: OutOfOfficeEditorProps) {
+  const contact = value.alternateContact || { name: '', email: '' };
+
+  return (
+    <div>
+      <label className="label">Out of Office</label>
+      <label className="flex items-center mb-2">
+        <input
+          type="checkbox"
+          checked={value.enabled}
+          onChange={(e) => onChange({ ...value, enabled: e.target.checked })}
+          className="mr-2"
+        />
+        Send each sender one acknowledgement while I'm away (replies are still drafted for my return)
+      </label>
+
+      <div className="space-y-2">
+        <div className="flex items-center space-x-2">
+          <span className="text-sm text-gray-700 w-24">Away from</span>
+          <input
+            type="date"
+            value={value.start}
+            onChange={(e) => onChange({ ...value, start: e.target.value })}
+            className="input-field w-44"
+            disabled={!value.enabled}
+          />
+          <span className="text-sm text-gray-500">to</span>
+          <input
+            type="date"
+            value={value.end}
+            onChange={(e) => onChange({ ...value, end: e.target.value })}
+            className="input-field w-44"
+            disabled={!value.enabled}
+          />
+        </div>
+        <div className="flex items-center space-x-2">
+          <span className="text-sm text-gray-700 w-24">Back on</span>
+          <input
+            type="date"
+            value={value.returnDate || ''}
+            onChange={(e) => onChange({ ...value, returnDate: e.target.value || undefined })}
+            className="input-field w-44"
+            disabled={!value.enabled}
+          />
+          <span className="text-xs text-gray-500">Defaults to the day after the last day away</span>
+        </div>
+        <input
+          type="text"
+          value={value.timezone}
+          onChange={(e) => onChange({ ...value, timezone: e.target.value })}
+          className="input-field w-64"
+          placeholder="Timezone, e.g. America/New_York"
+          disabled={!value.enabled}
+        />
+        <div className="grid grid-cols-2 gap-2">
+          <input
+            type="text"
+            value={contact.name}
+            onChange={(e) => onChange({ ...value, alternateContact: { ...contact, name: e.target.value } })}
+            className="input-field"
+            placeholder="Alternate contact name"
+            disabled={!value.enabled}
+          />
+          <input
+            type="email"
+            value={contact.email}
+            onChange={(e) => onChange({ ...value, alternateContact: { ...contact, email: e.target.value } })}
+            className="input-field"
+            placeholder="Alternate contact email"
+            disabled={!value.enabled}
+          />
+        </div>
+        <textarea
+          value={value.message || ''}
+          onChange={(e) => onChange({ ...value, message: e.target.value })}
+          className="input-field"
+          rows={2}
+          placeholder="Anything else to add to the acknowledgement (optional)"
+          disabled={!value.enabled}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Trash2, ArrowUp, ArrowDown } from 'lucide-react';
+import { rulesAPI, ProcessingRule, ProcessingRuleAction, RuleConditions } from '../services/api';
+
+interface ProcessingRulesProps {
+  clientId: string;
+}
+
+const ACTION_LABELS: Record<ProcessingRuleAction, string> = {
+  skip: 'Skip',
+  draft: 'Draft reply',
+  'draft-with-template': 'Draft from templates',
+  'auto-send': 'Draft and send (if auto-respond is on)',
+  flag: 'Flag for follow-up',
+  'move-to-folder': 'Move to folder',
+};
+
+const CATEGORIES = ['inquiry', 'complaint', 'scheduling', 'invoice', 'newsletter', 'spam', 'auto-reply'];
+
+// Comma-separated text for list conditions; an empty field removes the condition
+const toText = (list?: string[]) => (list || []).join(', ');
+const toList = (text: string) => text.split(',').map(entry => entry.trim()).filter(Boolean);
+
+export default function ProcessingRules({ clientId }: ProcessingRulesProps) {
+  const [rules, setRules] = useState<ProcessingRule[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadRules();
+  }, [clientId]);
+
+  const loadRules = async () => {
+    try {
+      const response = await rulesAPI.getRules(clientId);
+      setRules(response.rules);
+    } catch (error) {
+      console.error('Failed to load processing rules:', error);
+    }
+  };
+
+  const saveRules = async () => {
+    setSaving(true);
+    try {
+      const response = await rulesAPI.saveRules(clientId, rules);
+      setRules(response.rules);
+    } catch (error: any) {
+      console.error('Failed to save processing rules:', error);
+      alert(error.response?.data?.error || 'Failed to save processing rules');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateRule = (index: number, changes: Partial<ProcessingRule>) => {
+    setRules(rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+  };
+
+  // Conditions the editor doesn't show (time windows, urgency, sentiment) are kept as they are
+  const updateConditions = (index: number, field: keyof RuleConditions, value: RuleConditions[keyof RuleConditions]) => {
+    const conditions: RuleConditions = { ...rules[index]!.conditions, [field]: value };
+    if (value === undefined || (Array.isArray(value) && value.length === 0)) {
+      delete conditions[field];
+    }
+    updateRule(index, { conditions });
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= rules.length) return;
+
+    const reordered = [...rules];
+    [reordered[index], reordered[target]] = [reordered[target]!, reordered[index]!];
+    setRules(reordered);
+  };
+
+  const addRule = () => {
+    setRules([...rules, { name: `Rule ${rules.length + 1}`, enabled: true, conditions: {}, action: 'draft' }]);
+  };
+
+  return (
+    <div>
+      <label className="label">Processing Rules</label>
+      <p className="text-sm text-gray-500 mb-2">
+        Checked in order after sender rules; the first rule whose conditions all match decides what happens.
+        A sender with a sender rule is always handled by that rule, so these rules never apply to them.
+      </p>
+
+      <div className="space-y-3">
+        {rules.map((rule, index) => (
+          <div key={rule.id || index} className="border rounded p-3 space-y-2">
+            <div className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={rule.enabled}
+                onChange={(e) => updateRule(index, { enabled: e.target.checked })}
+              />
+              <input
+                type="text"
+                value={rule.name}
+                onChange={(e) => updateRule(index, { name: e.target.value })}
+                className="input-field"
+                placeholder="Rule name"
+              />
+              <button type="button" onClick={() => moveRule(index, -1)} className="text-gray-500 hover:text-gray-700">
+                <ArrowUp className="h-4 w-4" />
+              </button>
+              <button type="button" onClick={() => moveRule(index, 1)} className="text-gray-500 hover:text-gray-700">
+                <ArrowDown className="h-4 w-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => setRules(rules.filter((_, i) => i !== index))}
+                className="text-red-600 hover:text-red-700"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <input
+                type="text"
+                defaultValue={toText(rule.conditions.senders)}
+                onBlur={(e) => updateConditions(index, 'senders', toList(e.target.value))}
+                className="input-field"
+                placeholder="Senders (acme.com, jane@acme.com)"
+              />
+              <input
+                type="text"
+                defaultValue={toText(rule.conditions.subjectContains)}
+                onBlur={(e) => updateConditions(index, 'subjectContains', toList(e.target.value))}
+                className="input-field"
+                placeholder="Subject contains"
+              />
+              <input
+                type="text"
+                defaultValue={toText(rule.conditions.bodyContains)}
+                onBlur={(e) => updateConditions(index, 'bodyContains', toList(e.target.value))}
+                className="input-field"
+                placeholder="Body contains"
+              />
+              <select
+                value={rule.conditions.categories?.[0] || ''}
+                onChange={(e) => updateConditions(index, 'categories', e.target.value ? [e.target.value] : undefined)}
+                className="input-field"
+              >
+                <option value="">Any category</option>
+                {CATEGORIES.map(category => (
+                  <option key={category} value={category}>{category}</option>
+                ))}
+              </select>
+              <select
+                value={rule.conditions.hasAttachments === undefined ? '' : String(rule.conditions.hasAttachments)}
+                onChange={(e) => updateConditions(index, 'hasAttachments', e.target.value ? e.target.value === 'true' : undefined)}
+                className="input-field"
+              >
+                <option value="">With or without attachments</option>
+                <option value="true">With attachments</option>
+                <option value="false">Without attachments</option>
+              </select>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <span className="text-sm text-gray-700">Then</span>
+              <select
+                value={rule.action}
+                onChange={(e) => updateRule(index, { action: e.target.value as ProcessingRuleAction })}
+                className="input-field w-52"
+              >
+                {(Object.keys(ACTION_LABELS) as ProcessingRuleAction[]).map(action => (
+                  <option key={action} value={action}>{ACTION_LABELS[action]}</option>
+                ))}
+              </select>
+              {rule.action === 'draft-with-template' && (
+                <input
+                  type="text"
+                  value={rule.templateCategory || ''}
+                  onChange={(e) => updateRule(index, { templateCategory: e.target.value })}
+                  className="input-field"
+                  placeholder="Template category"
+                />
+              )}
+              {rule.action === 'move-to-folder' && (
+                <input
+                  type="text"
+                  value={rule.folder || ''}
+                  onChange={(e) => updateRule(index, { folder: e.target.value })}
+                  className="input-field"
+                  placeholder="Folder, e.g. Archive"
+                />
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex space-x-2 mt-2">
+        <button type="button" onClick={addRule} className="btn-secondary flex items-center">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Rule
+        </button>
+        <button type="button" onClick={saveRules} className="btn-secondary" disabled={saving}>
+          {saving ? 'Saving...' : 'Save Rules'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { senderRuleAPI, templateAPI, SenderRule, SenderRuleAction } from '../services/api';
+
+interface SenderRulesProps {
+  clientId: string;
+}
+
+const ACTION_LABELS: Record<SenderRuleAction, string> = {
+  allow: 'Always draft',
+  deny: 'Never draft',
+  vip: 'VIP',
+  template: 'Use template category',
+};
+
+export default function SenderRules({ clientId }: SenderRulesProps) {
+  const [rules, setRules] = useState<SenderRule[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [formData, setFormData] = useState<{ pattern: string; action: SenderRuleAction; templateCategory: string }>({
+    pattern: '',
+    action: 'allow',
+    templateCategory: '',
+  });
+
+  useEffect(() => {
+    loadRules();
+    loadCategories();
+  }, [clientId]);
+
+  const loadRules = async () => {
+    try {
+      const response = await senderRuleAPI.getRules(clientId);
+      setRules(response.rules);
+    } catch (error) {
+      console.error('Failed to load sender rules:', error);
+    }
+  };
+
+  const loadCategories = async () => {
+    try {
+      const response = await templateAPI.getTemplates(clientId);
+      setCategories(response.categories);
+    } catch (error) {
+      console.error('Failed to load template categories:', error);
+    }
+  };
+
+  const addRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      await senderRuleAPI.addRule(clientId, {
+        pattern: formData.pattern,
+        action: formData.action,
+        ...(formData.action === 'template' && { templateCategory: formData.templateCategory }),
+      });
+      setFormData({ pattern: '', action: formData.action, templateCategory: '' });
+      loadRules();
+    } catch (error: any) {
+      console.error('Failed to add sender rule:', error);
+      alert(error.response?.data?.error || 'Failed to add sender rule');
+    }
+  };
+
+  const deleteRule = async (ruleId: string) => {
+    try {
+      await senderRuleAPI.deleteRule(clientId, ruleId);
+      loadRules();
+    } catch (error: any) {
+      console.error('Failed to delete sender rule:', error);
+      alert(error.response?.data?.error || 'Failed to delete sender rule');
+    }
+  };
+
+  return (
+    <div>
+      <label className="label">Sender Rules</label>
+      <p className="text-sm text-gray-500 mb-2">
+        Match an address (jane@acme.com), a domain (acme.com) or a wildcard (*@*.acme.com). The most specific rule wins.
+      </p>
+
+      {rules.length > 0 && (
+        <div className="space-y-1 mb-2">
+          {rules.map(rule => (
+            <div key={rule.id} className="flex items-center justify-between text-sm">
+              <span className="text-gray-700">
+                <span className="font-mono">{rule.pattern}</span>
+                {' → '}
+                {ACTION_LABELS[rule.action]}
+                {rule.templateCategory && ` (${rule.templateCategory})`}
+              </span>
+              <button
+                type="button"
+                onClick={() => deleteRule(rule.id)}
+                className="text-red-600 hover:text-red-700"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={addRule} className="flex items-center space-x-2">
+        <input
+          type="text"
+          value={formData.pattern}
+          onChange={(e) => setFormData({ ...formData, pattern: e.target.value })}
+          className="input-field"
+          placeholder="acme.com"
+          required
+        />
+        <select
+          value={formData.action}
+          onChange={(e) => setFormData({ ...formData, action: e.target.value as SenderRuleAction })}
+          className="input-field w-48"
+        >
+          {(Object.keys(ACTION_LABELS) as SenderRuleAction[]).map(action => (
+            <option key={action} value={action}>{ACTION_LABELS[action]}</option>
+          ))}
+        </select>
+        {formData.action === 'template' && (
+          <select
+            value={formData.templateCategory}
+            onChange={(e) => setFormData({ ...formData, templateCategory: e.target.value })}
+            className="input-field w-40"
+            required
+          >
+            <option value="">Category...</option>
+            {categories.map(category => (
+              <option key={category} value={category}>{category}</option>
+            ))}
+          </select>
+        )}
+        <button type="submit" className="btn-secondary flex items-center">
+          <Plus className="h-4 w-4" />
+        </button>
+      </form>
+    </div>
+  );
+}
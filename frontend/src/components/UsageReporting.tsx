@@ -1,5 +1,7 @@
 import React, { useState, useEffect } from 'react';
-import { BarChart, Calendar, TrendingUp, Mail, Clock, CheckCircle, AlertCircle } from 'lucide-react';
+import { BarChart, Calendar, TrendingUp, Mail, Clock, CheckCircle, AlertCircle, Edit3 } from 'lucide-react';
+import { responseAPI } from '../services/api';
+import AutoSendLog from './AutoSendLog';
 
 interface UsageStats {
   date: string;
@@ -21,6 +23,13 @@ interface ClientUsage {
   isActive: boolean;
 }
 
+interface EditMetrics {
+  totalEdits: number;
+  averageEditDistance: number;
+  averageSimilarity: number;
+  bySource: Record<string, number>;
+}
+
 interface UsageReportingProps {
   selectedClientId: string;
 }
@@ -38,12 +47,32 @@ export default function UsageReporting({ selectedClientId }: UsageReportingProps
     avgResponseTime: 0
   });
   const [loading, setLoading] = useState(false);
+  const [editMetrics, setEditMetrics] = useState<EditMetrics | null>(null);
 
   // Mock data for demo - replace with API calls
   useEffect(() => {
     loadUsageData();
   }, [timeRange, selectedClientId]);
 
+  useEffect(() => {
+    loadEditMetrics();
+  }, [selectedClientId]);
+
+  const loadEditMetrics = async () => {
+    if (!selectedClientId) {
+      setEditMetrics(null);
+      return;
+    }
+
+    try {
+      const data = await responseAPI.getEditMetrics(selectedClientId);
+      setEditMetrics(data.metrics);
+    } catch (error) {
+      console.error('Failed to load edit metrics:', error);
+      setEditMetrics(null);
+    }
+  };
+
   const loadUsageData = async () => {
     setLoading(true);
     
@@ -249,6 +278,36 @@ export default function UsageReporting({ selectedClientId }: UsageReportingProps
         )}
       </div>
 
+      {/* Draft Edits */}
+      {editMetrics && (
+        <div className="card">
+          <div className="flex items-center justify-between mb-6">
+            <h3 className="text-lg font-semibold">Draft Edits</h3>
+            <Edit3 className="h-5 w-5 text-gray-500" />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div>
+              <p className="text-sm text-gray-600">Edited Drafts</p>
+              <p className="text-2xl font-bold text-gray-900">{formatNumber(editMetrics.totalEdits)}</p>
+              <p className="text-xs text-gray-500">
+                {editMetrics.bySource.outlook || 0} in Outlook, {editMetrics.bySource.dashboard || 0} in dashboard
+              </p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-600">Avg Words Changed</p>
+              <p className="text-2xl font-bold text-gray-900">{editMetrics.averageEditDistance.toFixed(1)}</p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-600">Avg Similarity to AI Draft</p>
+              <p className="text-2xl font-bold text-gray-900">{(editMetrics.averageSimilarity * 100).toFixed(1)}%</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {selectedClientId && <AutoSendLog clientId={selectedClientId} />}
+
       {/* Client Performance Table */}
       <div className="card">
         <div className="flex items-center justify-between mb-6">
@@ -42,6 +42,8 @@ export interface Client {
   updatedAt: string;
   hasActiveTokens: boolean;
   tokenExpiry: string | null;
+  styleProfiledAt?: string | null;
+  aiSettings?: any;
 }
 
 export interface Email {
@@ -51,17 +53,39 @@ export interface Email {
   senderEmail: string;
   receivedAt: string;
   status: string;
+  category: string | null;
+  urgency: string | null;
+  sentiment: string | null;
+  skipReason: string | null;
+  isVip: boolean;
+  deferredUntil: string | null;
+  outOfOfficeReply: { sentAt: string | null } | null;
   aiResponses: AIResponse[];
 }
 
 export interface AIResponse {
   id: string;
   responseContent: string;
+  editedContent: string | null;
   confidence: number | null;
   templateUsed: string | null;
   status: string;
   createdAt: string;
   draftId: string | null;
+  scheduledSendAt: string | null;
+}
+
+export interface AutoSendEvent {
+  id: string;
+  emailId: string;
+  aiResponseId: string | null;
+  event: 'held' | 'scheduled' | 'sent' | 'cancelled';
+  reason: string;
+  confidence: number | null;
+  scheduledFor: string | null;
+  content: string | null;
+  createdAt: string;
+  email: { subject: string; sender: string; senderEmail: string };
 }
 
 export interface Template {
@@ -75,6 +99,70 @@ export interface Template {
   updatedAt: string;
 }
 
+export type SenderRuleAction = 'allow' | 'deny' | 'vip' | 'template';
+
+export interface SenderRule {
+  id: string;
+  pattern: string;
+  action: SenderRuleAction;
+  templateCategory: string | null;
+  createdAt: string;
+}
+
+export type ProcessingRuleAction = 'skip' | 'draft' | 'draft-with-template' | 'auto-send' | 'flag' | 'move-to-folder';
+
+// Every condition present must match; list conditions match if any entry does
+export interface RuleConditions {
+  senders?: string[];
+  subjectContains?: string[];
+  bodyContains?: string[];
+  categories?: string[];
+  urgencies?: string[];
+  sentiments?: string[];
+  hasAttachments?: boolean;
+  time?: {
+    timezone: string;
+    days?: number[];
+    start?: string;
+    end?: string;
+  };
+}
+
+export interface ProcessingRule {
+  id?: string;
+  name: string;
+  enabled: boolean;
+  conditions: RuleConditions;
+  action: ProcessingRuleAction;
+  templateCategory?: string | null;
+  folder?: string | null;
+}
+
+export interface RuleEvaluation {
+  decision: {
+    action: string;
+    source: string;
+    ruleId: string;
+    reason: string;
+  };
+  trace: Array<{
+    source: string;
+    ruleId: string;
+    matched: boolean;
+    detail: string;
+  }>;
+  usedLiveMessage: boolean;
+}
+
+export interface KnowledgeDocument {
+  id: string;
+  title: string;
+  filename: string | null;
+  contentType: string;
+  chunkCount: number;
+  createdAt: string;
+}
+
 // Client Management
 export const clientAPI = {
   // Register new client
@@ -100,6 +188,7 @@ export const clientAPI = {
     name?: string;
     companyName?: string;
     businessContext?: any;
+    aiSettings?: any;
   }) {
     const response = await api.put(`/client/profile/${clientId}`, data);
     return response.data;
@@ -115,6 +204,18 @@ export const clientAPI = {
     return response.data;
   },
 
+  // Catch up on emails missed by the webhook
+  async syncMailbox(clientId: string) {
+    const response = await api.post(`/client/sync/${clientId}`);
+    return response.data;
+  },
+
+  // Relearn writing style from Sent Items
+  async rebuildStyleProfile(clientId: string) {
+    const response = await api.post(`/client/style-profile/${clientId}`);
+    return response.data;
+  },
+
   // Test Graph connection
   async testGraph(clientId: string) {
     const response = await api.get(`/client/test-graph/${clientId}`);
@@ -186,3 +287,112 @@ export const templateAPI = {
     return response.data;
   },
 };
+
+// Knowledge Base
+export const senderRuleAPI = {
+  // List sender rules
+  async getRules(clientId: string) {
+    const response = await api.get(`/client/sender-rules/${clientId}`);
+    return response.data;
+  },
+
+  // Add a rule for an address or domain
+  async addRule(clientId: string, data: {
+    pattern: string;
+    action: SenderRuleAction;
+    templateCategory?: string;
+  }) {
+    const response = await api.post(`/client/sender-rules/${clientId}`, data);
+    return response.data;
+  },
+
+  // Delete a rule
+  async deleteRule(clientId: string, ruleId: string) {
+    const response = await api.delete(`/client/sender-rules/${clientId}/${ruleId}`);
+    return response.data;
+  },
+};
+
+export const rulesAPI = {
+  // Get processing rules, in evaluation order
+  async getRules(clientId: string) {
+    const response = await api.get(`/client/rules/${clientId}`);
+    return response.data;
+  },
+
+  // Replace the whole rule set
+  async saveRules(clientId: string, rules: ProcessingRule[]) {
+    const response = await api.put(`/client/rules/${clientId}`, { rules });
+    return response.data;
+  },
+
+  // Explain which rule fires for a stored email, optionally with unsaved rules
+  async dryRun(clientId: string, data: { emailId: string; rules?: ProcessingRule[] }): Promise<RuleEvaluation> {
+    const response = await api.post(`/client/rules/${clientId}/dry-run`, data);
+    return response.data;
+  },
+};
+
+export const knowledgeAPI = {
+  // List documents
+  async getDocuments(clientId: string) {
+    const response = await api.get(`/client/knowledge/${clientId}`);
+    return response.data;
+  },
+
+  // Add a document (PDF content is base64-encoded)
+  async addDocument(clientId: string, data: {
+    title: string;
+    filename?: string;
+    contentType: string;
+    content: string;
+  }) {
+    const response = await api.post(`/client/knowledge/${clientId}`, data);
+    return response.data;
+  },
+
+  // Delete a document
+  async deleteDocument(clientId: string, documentId: string) {
+    const response = await api.delete(`/client/knowledge/${clientId}/${documentId}`);
+    return response.data;
+  },
+};
+
+// AI Response Workflow
+export const responseAPI = {
+  // Update the Outlook draft with edited content
+  async editResponse(clientId: string, responseId: string, content: string) {
+    const response = await api.put(`/client/responses/${clientId}/${responseId}`, { content });
+    return response.data;
+  },
+
+  // Approve (optionally with edited content) and send
+  async approveResponse(clientId: string, responseId: string, content?: string) {
+    const response = await api.post(`/client/responses/${clientId}/${responseId}/approve`, { content });
+    return response.data;
+  },
+
+  // Reject and delete the Outlook draft
+  async rejectResponse(clientId: string, responseId: string) {
+    const response = await api.post(`/client/responses/${clientId}/${responseId}/reject`);
+    return response.data;
+  },
+
+  // Stop an automatic send during its undo window
+  async cancelSend(clientId: string, responseId: string) {
+    const response = await api.post(`/client/responses/${clientId}/${responseId}/cancel-send`);
+    return response.data;
+  },
+
+  // Replies sent, scheduled, held back or cancelled without review, newest first
+  async getAutoSendLog(clientId: string): Promise<{ events: AutoSendEvent[] }> {
+    const response = await api.get(`/client/auto-send-log/${clientId}`);
+    return response.data;
+  },
+
+  // How much the client edits drafts before sending
+  async getEditMetrics(clientId: string) {
+    const response = await api.get(`/client/edit-metrics/${clientId}`);
+    return response.data;
+  },
+};
@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "public"."JobStatus" AS ENUM ('PENDING', 'PROCESSING', 'COMPLETED', 'DEAD_LETTER');
+
+-- CreateTable
+CREATE TABLE "public"."jobs" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "dedupeKey" TEXT,
+    "status" "public"."JobStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 5,
+    "runAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedUntil" TIMESTAMP(3),
+    "lastError" TEXT,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "jobs_dedupeKey_key" ON "public"."jobs"("dedupeKey");
+
+-- CreateIndex
+CREATE INDEX "jobs_status_runAt_idx" ON "public"."jobs"("status", "runAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."jobs" ADD CONSTRAINT "jobs_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "public"."clients"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."clients" ADD COLUMN     "homeAccountId" TEXT,
+ADD COLUMN     "tokenCache" TEXT;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."webhook_subscriptions" ADD COLUMN     "notificationUrl" TEXT,
+ADD COLUMN     "lastRenewedAt" TIMESTAMP(3),
+ADD COLUMN     "renewalFailures" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lastError" TEXT;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."clients" ADD COLUMN     "deltaLink" TEXT,
+ADD COLUMN     "lastSyncedAt" TIMESTAMP(3);
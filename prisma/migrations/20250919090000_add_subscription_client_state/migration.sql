@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."webhook_subscriptions" ADD COLUMN     "clientState" TEXT;
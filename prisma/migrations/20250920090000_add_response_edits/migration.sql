@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "public"."response_edits" (
+    "id" TEXT NOT NULL,
+    "aiResponseId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "originalContent" TEXT NOT NULL,
+    "finalContent" TEXT NOT NULL,
+    "editDistance" INTEGER NOT NULL,
+    "similarity" DOUBLE PRECISION NOT NULL,
+    "source" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "response_edits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "response_edits_clientId_createdAt_idx" ON "public"."response_edits"("clientId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."response_edits" ADD CONSTRAINT "response_edits_aiResponseId_fkey" FOREIGN KEY ("aiResponseId") REFERENCES "public"."ai_responses"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."response_edits" ADD CONSTRAINT "response_edits_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "public"."clients"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
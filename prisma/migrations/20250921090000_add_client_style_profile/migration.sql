@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."clients" ADD COLUMN     "styleProfile" JSONB,
+ADD COLUMN     "styleProfiledAt" TIMESTAMP(3);
@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "public"."knowledge_documents" (
+    "id" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "filename" TEXT,
+    "contentType" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "knowledge_documents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."knowledge_chunks" (
+    "id" TEXT NOT NULL,
+    "documentId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "heading" TEXT,
+    "content" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "knowledge_chunks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "knowledge_documents_clientId_idx" ON "public"."knowledge_documents"("clientId");
+
+-- CreateIndex
+CREATE INDEX "knowledge_chunks_clientId_idx" ON "public"."knowledge_chunks"("clientId");
+
+-- AddForeignKey
+ALTER TABLE "public"."knowledge_documents" ADD CONSTRAINT "knowledge_documents_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "public"."clients"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."knowledge_chunks" ADD CONSTRAINT "knowledge_chunks_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "public"."knowledge_documents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "public"."EmailStatus" ADD VALUE 'CATEGORIZED';
+ALTER TYPE "public"."EmailStatus" ADD VALUE 'SKIPPED';
+
+-- AlterTable
+ALTER TABLE "public"."emails" ADD COLUMN     "category" TEXT,
+ADD COLUMN     "sentiment" TEXT,
+ADD COLUMN     "urgency" TEXT;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."emails" ADD COLUMN     "skipReason" TEXT;
@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "public"."emails" ADD COLUMN     "isVip" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "public"."sender_rules" (
+    "id" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "pattern" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "templateCategory" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "sender_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "sender_rules_clientId_idx" ON "public"."sender_rules"("clientId");
+
+-- AddForeignKey
+ALTER TABLE "public"."sender_rules" ADD CONSTRAINT "sender_rules_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "public"."clients"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "public"."emails" ADD COLUMN     "hasAttachments" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "public"."processing_rules" (
+    "id" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "conditions" JSONB NOT NULL,
+    "action" TEXT NOT NULL,
+    "templateCategory" TEXT,
+    "folder" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "processing_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "processing_rules_clientId_position_idx" ON "public"."processing_rules"("clientId", "position");
+
+-- AddForeignKey
+ALTER TABLE "public"."processing_rules" ADD CONSTRAINT "processing_rules_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "public"."clients"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "public"."EmailStatus" ADD VALUE 'DEFERRED';
+
+-- AlterTable
+ALTER TABLE "public"."emails" ADD COLUMN     "deferredUntil" TIMESTAMP(3);
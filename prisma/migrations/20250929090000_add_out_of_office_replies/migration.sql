@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "public"."out_of_office_replies" (
+    "id" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "emailId" TEXT NOT NULL,
+    "senderEmail" TEXT NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "sentAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "out_of_office_replies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "out_of_office_replies_emailId_key" ON "public"."out_of_office_replies"("emailId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "out_of_office_replies_clientId_senderEmail_periodStart_key" ON "public"."out_of_office_replies"("clientId", "senderEmail", "periodStart");
+
+-- AddForeignKey
+ALTER TABLE "public"."out_of_office_replies" ADD CONSTRAINT "out_of_office_replies_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "public"."clients"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."out_of_office_replies" ADD CONSTRAINT "out_of_office_replies_emailId_fkey" FOREIGN KEY ("emailId") REFERENCES "public"."emails"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
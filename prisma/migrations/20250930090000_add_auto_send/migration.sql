@@ -0,0 +1,33 @@
+-- AlterEnum
+ALTER TYPE "public"."EmailStatus" ADD VALUE 'SEND_SCHEDULED';
+
+-- AlterEnum
+ALTER TYPE "public"."ResponseStatus" ADD VALUE 'SCHEDULED';
+
+-- AlterTable
+ALTER TABLE "public"."ai_responses" ADD COLUMN     "scheduledSendAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "public"."auto_send_events" (
+    "id" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "emailId" TEXT NOT NULL,
+    "aiResponseId" TEXT,
+    "event" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "confidence" DOUBLE PRECISION,
+    "scheduledFor" TIMESTAMP(3),
+    "content" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "auto_send_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "auto_send_events_clientId_createdAt_idx" ON "public"."auto_send_events"("clientId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."auto_send_events" ADD CONSTRAINT "auto_send_events_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "public"."clients"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."auto_send_events" ADD CONSTRAINT "auto_send_events_emailId_fkey" FOREIGN KEY ("emailId") REFERENCES "public"."emails"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."ai_responses" ADD COLUMN     "editedContent" TEXT;
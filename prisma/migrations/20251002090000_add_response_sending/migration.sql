@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "public"."ResponseStatus" ADD VALUE 'SENDING';
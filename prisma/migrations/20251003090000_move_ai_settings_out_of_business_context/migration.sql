@@ -0,0 +1,9 @@
+-- The dashboard saved AI settings inside businessContext, where the email pipeline never read them
+UPDATE "public"."clients"
+SET "aiSettings" = "businessContext"->'aiSettings'
+WHERE "aiSettings" IS NULL
+  AND jsonb_typeof("businessContext"->'aiSettings') = 'object';
+
+UPDATE "public"."clients"
+SET "businessContext" = "businessContext" - 'aiSettings'
+WHERE "businessContext" ? 'aiSettings';
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "public"."EmailStatus" ADD VALUE 'REJECTED';
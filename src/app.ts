@@ -4,6 +4,10 @@ import helmet from 'helmet';
 import morgan from 'morgan';
 import dotenv from 'dotenv';
 import { databaseService } from './services/database';
+import { jobQueueService } from './services/jobQueue';
+import { subscriptionManagerService } from './services/subscriptionManager';
+import { mailboxSyncService } from './services/mailboxSync';
+import { editTrackingService } from './services/editTracking';
 
 // Import routes
 import authRoutes from './routes/auth';
@@ -86,7 +90,7 @@ app.use('/api/client', clientRoutes);
 
 // Serve frontend in production - catch-all route
 if (process.env.NODE_ENV === 'production') {
-  app.get('*', (req, res) => {
+  app.get('/{*path}', (req, res) => {
     // Don't serve index.html for API routes
     if (req.path.startsWith('/api/')) {
       res.status(404).json({ error: 'API route not found' });
@@ -170,7 +174,7 @@ app.get('/test-db', async (req, res) => {
 });
 
 // 404 handler
-app.use('*', (req, res) => {
+app.use((req, res) => {
   res.status(404).json({
     error: 'Route not found',
     path: req.originalUrl,
@@ -189,12 +193,18 @@ app.use((err: any, req: express.Request, res: express.Response, next: express.Ne
   });
 });
 
-// Start server
-if (process.env.NODE_ENV !== 'production') {
+// Start server (tests start their own on a free port)
+if (process.env.NODE_ENV !== 'production' && process.env.NODE_ENV !== 'test') {
   app.listen(PORT, () => {
     console.log(`🚀 AI Email Drafts Agent running on port ${PORT}`);
     console.log(`📊 Health check: ${appUrls.backend}/health`);
     console.log(`🔧 Debug config: ${appUrls.backend}/debug-config`);
+
+    // Serverless deployments run these via cron instead
+    jobQueueService.startWorker();
+    subscriptionManagerService.startScheduler();
+    mailboxSyncService.startScheduler();
+    editTrackingService.startScheduler();
   });
 }
 
@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
 
 interface AuthenticatedRequest extends Request {
   clientId?: string;
@@ -41,3 +42,41 @@ export const optionalAuth = (req: AuthenticatedRequest, res: Response, next: Nex
 
   next();
 };
+
+
+const hasCronSecret = (req: Request<any>, cronSecret: string): boolean => {
+  const expected = Buffer.from(`Bearer ${cronSecret}`);
+  const received = Buffer.from(req.headers.authorization || '');
+
+  // Constant-time comparison so the secret can't be recovered from response timing
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+};
+
+// Vercel cron jobs send "Authorization: Bearer <CRON_SECRET>" when CRON_SECRET is set.
+// Request<any> leaves the route's own path params typed.
+export const authenticateCron = (req: Request<any>, res: Response, next: NextFunction) => {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    return next();
+  }
+
+  if (!hasCronSecret(req, cronSecret)) {
+    return res.status(401).json({ error: 'Invalid cron secret' });
+  }
+
+  return next();
+};
+
+// Admin routes expose job payloads, so unlike the cron routes they stay closed until CRON_SECRET is set
+export const authenticateAdmin = (req: Request<any>, res: Response, next: NextFunction) => {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    return res.status(503).json({ error: 'CRON_SECRET is not configured' });
+  }
+
+  if (!hasCronSecret(req, cronSecret)) {
+    return res.status(401).json({ error: 'Invalid cron secret' });
+  }
+
+  return next();
+};
@@ -1,42 +1,13 @@
 import express from 'express';
 import { microsoftGraphService } from '../services/microsoftGraph';
 import { databaseService } from '../services/database';
+import { jobQueueService, STYLE_PROFILE_JOB } from '../services/jobQueue';
+import { getAppUrls } from '../services/appUrls';
+import { webhookNotificationUrl } from '../services/subscriptionManager';
 import jwt from 'jsonwebtoken';
 
 const router = express.Router();
 
-// Get app URLs based on environment
-const getAppUrls = () => {
-  const isProduction = process.env.NODE_ENV === 'production';
-  
-  if (isProduction) {
-    // In production, both frontend and backend are served from the same domain
-    const baseUrl = process.env.VERCEL_URL 
-      ? `https://${process.env.VERCEL_URL}`
-      : 'https://your-app-name.vercel.app'; // Update this with your actual Vercel app name
-    
-    return {
-      backend: baseUrl,
-      frontend: baseUrl, // Same URL for monolithic deployment
-    };
-  }
-  
-  // Development/Codespaces
-  const codespaceName = process.env.CODESPACE_NAME;
-  if (codespaceName) {
-    return {
-      backend: `https://${codespaceName}-3000.preview.app.github.dev`,
-      frontend: `https://${codespaceName}-3001.preview.app.github.dev`,
-    };
-  }
-  
-  // Local development
-  return {
-    backend: 'http://localhost:3000',
-    frontend: 'http://localhost:3001',
-  };
-};
-
 // Start OAuth flow
 router.get('/microsoft/login/:clientId', async (req, res): Promise<void> => {
   try {
@@ -87,7 +58,7 @@ router.get('/microsoft/callback', async (req, res): Promise<void> => {
       console.log('Exchanging code for tokens...');
       
       // Exchange code for tokens
-      const tokens = await microsoftGraphService.exchangeCodeForTokens(code as string);
+      const tokens = await microsoftGraphService.exchangeCodeForTokens(code as string, clientId);
       console.log('Tokens acquired successfully');
       
       // Get user profile
@@ -102,32 +73,43 @@ router.get('/microsoft/callback', async (req, res): Promise<void> => {
         clientId,
         tokens.accessToken,
         tokens.refreshToken,
-        expiresAt
+        expiresAt,
+        tokens.homeAccountId
       );
       console.log('Client tokens updated');
 
       // Try to set up webhook subscription (optional for basic functionality)
       try {
-        const webhookUrl = `${appUrls.backend}/api/webhook/microsoft/${clientId}`;
+        const webhookUrl = webhookNotificationUrl(clientId);
         console.log('Setting up webhook:', webhookUrl);
         
-        const subscriptionId = await microsoftGraphService.createWebhookSubscription(
+        const subscription = await microsoftGraphService.createWebhookSubscription(
           tokens.accessToken,
           webhookUrl
         );
 
         await databaseService.saveWebhookSubscription({
           clientId,
-          subscriptionId,
+          subscriptionId: subscription.id,
           resource: 'me/messages',
-          expirationTime: new Date(Date.now() + (24 * 60 * 60 * 1000)),
+          notificationUrl: webhookUrl,
+          clientState: subscription.clientState,
+          expirationTime: subscription.expirationTime,
         });
-        console.log('Webhook subscription created:', subscriptionId);
+        console.log('Webhook subscription created:', subscription.id);
       } catch (webhookError) {
         console.error('Webhook setup failed (continuing anyway):', webhookError);
         // Don't fail the whole flow if webhook fails
       }
 
+      // Learn the client's writing style from their sent mail in the background
+      try {
+        await jobQueueService.enqueue(STYLE_PROFILE_JOB, clientId, {});
+        jobQueueService.drain().catch(error => console.error('Error draining job queue:', error));
+      } catch (jobError) {
+        console.error('Failed to queue style profile (continuing anyway):', jobError);
+      }
+
       // Success redirect
       console.log('OAuth flow completed successfully');
       res.redirect(`${appUrls.frontend}/?client=${clientId}&connected=true`);
@@ -158,6 +140,10 @@ router.get('/status/:clientId', async (req, res): Promise<void> => {
     const isConnected = !!(client.accessToken && client.refreshToken);
     const tokenExpired = client.tokenExpiry ? new Date() > client.tokenExpiry : true;
 
+    // Surface subscriptions the scheduler could not keep alive
+    const subscriptions = await databaseService.getWebhookSubscriptionsForClient(clientId);
+    const failingSubscription = subscriptions.find(subscription => subscription.lastError);
+
     res.json({
       clientId,
       name: client.name,
@@ -167,6 +153,12 @@ router.get('/status/:clientId', async (req, res): Promise<void> => {
       tokenExpired,
       tokenExpiry: client.tokenExpiry,
       isActive: client.isActive,
+      subscription: {
+        active: subscriptions.length > 0,
+        expirationTime: subscriptions[0]?.expirationTime || null,
+        healthy: subscriptions.length > 0 && !failingSubscription,
+        lastError: failingSubscription?.lastError || null,
+      },
     });
   } catch (error) {
     console.error('Error getting client status:', error);
@@ -180,13 +172,13 @@ router.post('/microsoft/refresh/:clientId', async (req, res): Promise<void> => {
     const { clientId } = req.params;
     
     const client = await databaseService.getClientById(clientId);
-    if (!client || !client.refreshToken) {
-      res.status(404).json({ error: 'Client not found or no refresh token' });
+    if (!client || !client.homeAccountId) {
+      res.status(404).json({ error: 'Client not found or not connected to Microsoft 365' });
       return;
     }
 
     // Refresh tokens
-    const tokens = await microsoftGraphService.refreshToken(client.refreshToken);
+    const tokens = await microsoftGraphService.refreshToken(clientId, client.homeAccountId, true);
     
     // Update client with new tokens
     const expiresAt = new Date(Date.now() + (tokens.expiresIn * 1000));
@@ -194,7 +186,8 @@ router.post('/microsoft/refresh/:clientId', async (req, res): Promise<void> => {
       clientId,
       tokens.accessToken,
       tokens.refreshToken,
-      expiresAt
+      expiresAt,
+      tokens.homeAccountId
     );
 
     res.json({
@@ -205,6 +198,15 @@ router.post('/microsoft/refresh/:clientId', async (req, res): Promise<void> => {
 
   } catch (error) {
     console.error('Error refreshing tokens:', error);
+
+    if (microsoftGraphService.isReauthenticationRequired(error)) {
+      res.status(401).json({
+        error: 'Microsoft 365 authorization expired',
+        suggestion: `Use /api/auth/microsoft/login/${req.params.clientId} to reconnect`,
+      });
+      return;
+    }
+
     res.status(500).json({ error: 'Failed to refresh tokens' });
   }
 });
@@ -238,6 +240,7 @@ router.post('/microsoft/disconnect/:clientId', async (req, res): Promise<void> =
 
     // Clear tokens
     await databaseService.updateClientTokens(clientId, '', '', new Date());
+    await databaseService.saveTokenCache(clientId, null);
 
     res.json({
       success: true,
@@ -1,6 +1,15 @@
 import express from 'express';
 import { databaseService } from '../services/database';
 import { microsoftGraphService } from '../services/microsoftGraph';
+import { GraphSession } from '../services/graphSession';
+import { mailboxSyncService } from '../services/mailboxSync';
+import { jobQueueService } from '../services/jobQueue';
+import { responseWorkflowService, ResponseStateError } from '../services/responseWorkflow';
+import { styleProfileService } from '../services/styleProfile';
+import { knowledgeBaseService, KNOWLEDGE_CONTENT_TYPES, DocumentExtractionError } from '../services/knowledgeBase';
+import { senderRulesService, InvalidSenderRuleError } from '../services/senderRules';
+import { rulesEngineService, InvalidRuleError } from '../services/rulesEngine';
+import { mergeAISettings, InvalidSettingsError } from '../services/aiSettings';
 
 const router = express.Router();
 
@@ -69,11 +78,14 @@ router.get('/profile/:clientId', async (req, res): Promise<void> => {
       companyName: client.companyName,
       tenantId: client.tenantId,
       businessContext: client.businessContext,
+      aiSettings: client.aiSettings,
       isActive: client.isActive,
       createdAt: client.createdAt,
       updatedAt: client.updatedAt,
       hasActiveTokens: !!(client.accessToken && client.refreshToken),
       tokenExpiry: client.tokenExpiry,
+      styleProfile: client.styleProfile,
+      styleProfiledAt: client.styleProfiledAt,
     };
 
     res.json({
@@ -91,7 +103,7 @@ router.get('/profile/:clientId', async (req, res): Promise<void> => {
 router.put('/profile/:clientId', async (req, res): Promise<void> => {
   try {
     const { clientId } = req.params;
-    const { name, companyName, businessContext } = req.body;
+    const { name, companyName, businessContext, aiSettings } = req.body;
 
     const client = await databaseService.getClientById(clientId);
     if (!client) {
@@ -106,6 +118,8 @@ router.put('/profile/:clientId', async (req, res): Promise<void> => {
         name: name || client.name,
         companyName: companyName || client.companyName,
         businessContext: businessContext !== undefined ? businessContext : client.businessContext,
+        // The settings the email pipeline reads, merged so a partial update keeps the rest
+        ...(aiSettings !== undefined && { aiSettings: mergeAISettings(client.aiSettings, aiSettings) }),
         updatedAt: new Date(),
       },
     });
@@ -118,11 +132,17 @@ router.put('/profile/:clientId', async (req, res): Promise<void> => {
         name: updatedClient.name,
         companyName: updatedClient.companyName,
         businessContext: updatedClient.businessContext,
+        aiSettings: updatedClient.aiSettings,
         updatedAt: updatedClient.updatedAt,
       },
     });
 
   } catch (error) {
+    if (error instanceof InvalidSettingsError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+
     console.error('Error updating client profile:', error);
     res.status(500).json({ error: 'Failed to update client profile' });
   }
@@ -147,6 +167,7 @@ router.get('/emails/:clientId', async (req, res): Promise<void> => {
       },
       include: {
         aiResponses: true,
+        outOfOfficeReply: true,
       },
       orderBy: { receivedAt: 'desc' },
       take: parseInt(limit as string),
@@ -319,6 +340,332 @@ router.delete('/templates/:clientId/:templateId', async (req, res): Promise<void
   }
 });
 
+// Catch up on emails missed by the webhook
+router.post('/sync/:clientId', async (req, res): Promise<void> => {
+  try {
+    const { clientId } = req.params;
+
+    const client = await databaseService.getClientById(clientId);
+    if (!client || !client.accessToken) {
+      res.status(404).json({ error: 'Client not found or not connected to Microsoft 365' });
+      return;
+    }
+
+    const result = await mailboxSyncService.syncClient(clientId);
+
+    res.json({
+      message: 'Mailbox sync completed',
+      ...result,
+    });
+
+    if (result.enqueued > 0) {
+      jobQueueService.drain().catch(error => console.error('Error draining job queue:', error));
+    }
+
+  } catch (error) {
+    console.error('Error syncing mailbox:', error);
+    res.status(500).json({ error: 'Failed to sync mailbox' });
+  }
+});
+
+// List knowledge base documents
+router.get('/knowledge/:clientId', async (req, res): Promise<void> => {
+  try {
+    const { clientId } = req.params;
+
+    const client = await databaseService.getClientById(clientId);
+    if (!client) {
+      res.status(404).json({ error: 'Client not found' });
+      return;
+    }
+
+    const documents = await databaseService.getKnowledgeDocuments(clientId);
+
+    res.json({
+      documents: documents.map(({ _count, ...document }) => ({ ...document, chunkCount: _count.chunks })),
+    });
+
+  } catch (error) {
+    console.error('Error getting knowledge documents:', error);
+    res.status(500).json({ error: 'Failed to get knowledge documents' });
+  }
+});
+
+// Add a document (Markdown, plain text, or base64-encoded PDF) to the knowledge base
+router.post('/knowledge/:clientId', async (req, res): Promise<void> => {
+  try {
+    const { clientId } = req.params;
+    const { title, filename, contentType, content } = req.body ?? {};
+
+    if (!title || !contentType || !content) {
+      res.status(400).json({ 
+        error: 'Missing required fields: title, contentType, content' 
+      });
+      return;
+    }
+
+    if (!KNOWLEDGE_CONTENT_TYPES.includes(contentType)) {
+      res.status(400).json({ error: `contentType must be one of: ${KNOWLEDGE_CONTENT_TYPES.join(', ')}` });
+      return;
+    }
+
+    if (typeof content !== 'string' || !content.trim()) {
+      res.status(400).json({ error: 'content must be a non-empty string' });
+      return;
+    }
+
+    const client = await databaseService.getClientById(clientId);
+    if (!client) {
+      res.status(404).json({ error: 'Client not found' });
+      return;
+    }
+
+    const document = await knowledgeBaseService.addDocument(clientId, { title, filename, contentType, content });
+
+    const { _count, content: _text, ...summary } = document;
+    res.status(201).json({
+      message: 'Knowledge document added successfully',
+      document: { ...summary, chunkCount: _count.chunks },
+    });
+
+  } catch (error) {
+    if (error instanceof DocumentExtractionError) {
+      res.status(422).json({ error: error.message });
+      return;
+    }
+
+    console.error('Error adding knowledge document:', error);
+    res.status(500).json({ error: 'Failed to add knowledge document' });
+  }
+});
+
+// Remove a document from the knowledge base
+router.delete('/knowledge/:clientId/:documentId', async (req, res): Promise<void> => {
+  try {
+    const { clientId, documentId } = req.params;
+
+    const deleted = await databaseService.deleteKnowledgeDocument(clientId, documentId);
+    if (!deleted) {
+      res.status(404).json({ error: 'Knowledge document not found' });
+      return;
+    }
+
+    res.json({ message: 'Knowledge document deleted successfully' });
+
+  } catch (error) {
+    console.error('Error deleting knowledge document:', error);
+    res.status(500).json({ error: 'Failed to delete knowledge document' });
+  }
+});
+
+// Get sender rules
+router.get('/sender-rules/:clientId', async (req, res): Promise<void> => {
+  try {
+    const { clientId } = req.params;
+
+    const client = await databaseService.getClientById(clientId);
+    if (!client) {
+      res.status(404).json({ error: 'Client not found' });
+      return;
+    }
+
+    res.json({ rules: await databaseService.getSenderRules(clientId) });
+
+  } catch (error) {
+    console.error('Error getting sender rules:', error);
+    res.status(500).json({ error: 'Failed to get sender rules' });
+  }
+});
+
+// Add a rule for a sender address, domain or wildcard
+router.post('/sender-rules/:clientId', async (req, res): Promise<void> => {
+  try {
+    const { clientId } = req.params;
+    const { pattern, action, templateCategory } = req.body;
+
+    if (typeof pattern !== 'string' || typeof action !== 'string') {
+      res.status(400).json({ error: 'Missing required fields: pattern, action' });
+      return;
+    }
+
+    const client = await databaseService.getClientById(clientId);
+    if (!client) {
+      res.status(404).json({ error: 'Client not found' });
+      return;
+    }
+
+    const rule = await senderRulesService.addRule(clientId, {
+      pattern,
+      action,
+      ...(typeof templateCategory === 'string' && { templateCategory }),
+    });
+
+    res.status(201).json({
+      message: 'Sender rule created successfully',
+      rule,
+    });
+
+  } catch (error) {
+    if (error instanceof InvalidSenderRuleError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+
+    console.error('Error creating sender rule:', error);
+    res.status(500).json({ error: 'Failed to create sender rule' });
+  }
+});
+
+// Delete a sender rule
+router.delete('/sender-rules/:clientId/:ruleId', async (req, res): Promise<void> => {
+  try {
+    const { clientId, ruleId } = req.params;
+
+    const deleted = await databaseService.deleteSenderRule(clientId, ruleId);
+    if (!deleted) {
+      res.status(404).json({ error: 'Sender rule not found' });
+      return;
+    }
+
+    res.json({ message: 'Sender rule deleted successfully' });
+
+  } catch (error) {
+    console.error('Error deleting sender rule:', error);
+    res.status(500).json({ error: 'Failed to delete sender rule' });
+  }
+});
+
+// Get the client's processing rules, in evaluation order
+router.get('/rules/:clientId', async (req, res): Promise<void> => {
+  try {
+    const { clientId } = req.params;
+
+    const client = await databaseService.getClientById(clientId);
+    if (!client) {
+      res.status(404).json({ error: 'Client not found' });
+      return;
+    }
+
+    res.json({ rules: await databaseService.getProcessingRules(clientId) });
+
+  } catch (error) {
+    console.error('Error getting processing rules:', error);
+    res.status(500).json({ error: 'Failed to get processing rules' });
+  }
+});
+
+// Replace the client's processing rules; the first matching rule decides
+router.put('/rules/:clientId', async (req, res): Promise<void> => {
+  try {
+    const { clientId } = req.params;
+
+    const client = await databaseService.getClientById(clientId);
+    if (!client) {
+      res.status(404).json({ error: 'Client not found' });
+      return;
+    }
+
+    const rules = await rulesEngineService.saveRules(clientId, req.body.rules);
+
+    res.json({
+      message: 'Processing rules updated successfully',
+      rules,
+    });
+
+  } catch (error) {
+    if (error instanceof InvalidRuleError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+
+    console.error('Error updating processing rules:', error);
+    res.status(500).json({ error: 'Failed to update processing rules' });
+  }
+});
+
+// Explain which rule fires for a stored email, optionally with unsaved rules
+router.post('/rules/:clientId/dry-run', async (req, res): Promise<void> => {
+  try {
+    const { clientId } = req.params;
+    const { emailId, rules, at } = req.body;
+
+    if (typeof emailId !== 'string') {
+      res.status(400).json({ error: 'Missing required field: emailId' });
+      return;
+    }
+
+    const now = at !== undefined ? new Date(at) : undefined;
+    if (now && isNaN(now.getTime())) {
+      res.status(400).json({ error: 'at must be a date' });
+      return;
+    }
+
+    const email = await databaseService.getEmailById(emailId);
+    if (!email || email.clientId !== clientId) {
+      res.status(404).json({ error: 'Email not found' });
+      return;
+    }
+
+    // Headers aren't stored, so read them from the mailbox when it's still reachable
+    let message = null;
+    try {
+      const session = await GraphSession.forClient(clientId);
+      message = await session.run(accessToken => microsoftGraphService.getEmailById(accessToken, email.microsoftId));
+    } catch (error) {
+      console.log('Dry run without the live message:', email.microsoftId);
+    }
+
+    const evaluation = await rulesEngineService.explain(email.client, email, {
+      message,
+      ...(rules !== undefined && { rules }),
+      ...(now && { now }),
+    });
+
+    res.json({
+      decision: evaluation.decision,
+      trace: evaluation.trace,
+      usedLiveMessage: !!message,
+    });
+
+  } catch (error) {
+    if (error instanceof InvalidRuleError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+
+    console.error('Error running processing rules:', error);
+    res.status(500).json({ error: 'Failed to run processing rules' });
+  }
+});
+
+// Relearn the client's writing style from their Sent Items
+router.post('/style-profile/:clientId', async (req, res): Promise<void> => {
+  try {
+    const { clientId } = req.params;
+
+    const client = await databaseService.getClientById(clientId);
+    if (!client || !client.accessToken) {
+      res.status(404).json({ error: 'Client not found or not connected to Microsoft 365' });
+      return;
+    }
+
+    const styleProfile = await styleProfileService.buildProfile(clientId);
+    if (!styleProfile) {
+      res.status(422).json({ error: 'Not enough sent mail to learn a writing style from' });
+      return;
+    }
+
+    res.json({
+      message: 'Style profile updated',
+      styleProfile,
+    });
+
+  } catch (error) {
+    console.error('Error building style profile:', error);
+    res.status(500).json({ error: 'Failed to build style profile' });
+  }
+});
+
 // Test Microsoft Graph connection
 router.get('/test-graph/:clientId', async (req, res): Promise<void> => {
   try {
@@ -331,7 +678,10 @@ router.get('/test-graph/:clientId', async (req, res): Promise<void> => {
     }
 
     // Get recent emails to test connection
-    const recentEmails = await microsoftGraphService.getRecentEmails(client.accessToken, 5);
+    const session = await GraphSession.forClient(clientId);
+    const recentEmails = await session.run(accessToken =>
+      microsoftGraphService.getRecentEmails(accessToken, 5)
+    );
 
     res.json({
       message: 'Microsoft Graph connection successful',
@@ -346,7 +696,16 @@ router.get('/test-graph/:clientId', async (req, res): Promise<void> => {
 
   } catch (error) {
     console.error('Error testing Graph connection:', error);
-    
+
+    // Tokens are refreshed automatically, so this means the client must sign in again
+    if (microsoftGraphService.isReauthenticationRequired(error)) {
+      res.status(401).json({
+        error: 'Microsoft 365 authorization expired',
+        suggestion: `Use /api/auth/microsoft/login/${req.params.clientId} to reconnect`,
+      });
+      return;
+    }
+
     // If token is expired, suggest refresh
     if (error instanceof Error && error.message.includes('token')) {
       res.status(401).json({ 
@@ -360,6 +719,198 @@ router.get('/test-graph/:clientId', async (req, res): Promise<void> => {
   }
 });
 
+// Edit an AI response's Outlook draft without sending it
+router.put('/responses/:clientId/:responseId', async (req, res): Promise<void> => {
+  try {
+    const { clientId, responseId } = req.params;
+    const { content } = req.body ?? {};
+
+    if (typeof content !== 'string' || !content.trim()) {
+      res.status(400).json({ error: 'Missing required field: content' });
+      return;
+    }
+
+    const response = await getOpenResponse(clientId, responseId, res);
+    if (!response) {
+      return;
+    }
+
+    const session = await GraphSession.forClient(clientId);
+    const updatedResponse = await responseWorkflowService.editResponse(session, response, content);
+
+    res.json({
+      message: 'AI response updated successfully',
+      response: updatedResponse,
+    });
+
+  } catch (error) {
+    if (error instanceof ResponseStateError) {
+      res.status(409).json({ error: error.message });
+      return;
+    }
+
+    console.error('Error updating AI response:', error);
+    res.status(500).json({ error: 'Failed to update AI response' });
+  }
+});
+
+// Approve an AI response (optionally with edited HTML) and send it
+router.post('/responses/:clientId/:responseId/approve', async (req, res): Promise<void> => {
+  try {
+    const { clientId, responseId } = req.params;
+    const { content } = req.body ?? {};
+
+    if (content !== undefined && (typeof content !== 'string' || !content.trim())) {
+      res.status(400).json({ error: 'content must be a non-empty string' });
+      return;
+    }
+
+    const response = await getOpenResponse(clientId, responseId, res);
+    if (!response) {
+      return;
+    }
+
+    const session = await GraphSession.forClient(clientId);
+    const sentResponse = await responseWorkflowService.approveResponse(session, response, content);
+
+    res.json({
+      message: 'AI response approved and sent',
+      response: sentResponse,
+    });
+
+  } catch (error) {
+    if (error instanceof ResponseStateError) {
+      res.status(409).json({ error: error.message });
+      return;
+    }
+
+    console.error('Error approving AI response:', error);
+    res.status(500).json({ error: 'Failed to approve AI response' });
+  }
+});
+
+// Reject an AI response and delete its Outlook draft
+router.post('/responses/:clientId/:responseId/reject', async (req, res): Promise<void> => {
+  try {
+    const { clientId, responseId } = req.params;
+
+    const response = await getOpenResponse(clientId, responseId, res);
+    if (!response) {
+      return;
+    }
+
+    const session = await GraphSession.forClient(clientId);
+    const rejectedResponse = await responseWorkflowService.rejectResponse(session, response);
+
+    res.json({
+      message: 'AI response rejected',
+      response: rejectedResponse,
+    });
+
+  } catch (error) {
+    if (error instanceof ResponseStateError) {
+      res.status(409).json({ error: error.message });
+      return;
+    }
+
+    console.error('Error rejecting AI response:', error);
+    res.status(500).json({ error: 'Failed to reject AI response' });
+  }
+});
+
+// Stop an automatic send during its undo window; the reply stays as an Outlook draft
+router.post('/responses/:clientId/:responseId/cancel-send', async (req, res): Promise<void> => {
+  try {
+    const { clientId, responseId } = req.params;
+
+    const response = await getOpenResponse(clientId, responseId, res);
+    if (!response) {
+      return;
+    }
+
+    // Checked again as part of the cancel, since the send may claim it in between
+    const cancelledResponse = response.status === 'SCHEDULED'
+      ? await responseWorkflowService.cancelScheduledSend(clientId, response)
+      : null;
+    if (!cancelledResponse) {
+      res.status(409).json({ error: 'AI response is not scheduled to send' });
+      return;
+    }
+
+    res.json({
+      message: 'Automatic send cancelled',
+      response: cancelledResponse,
+    });
+
+  } catch (error) {
+    console.error('Error cancelling automatic send:', error);
+    res.status(500).json({ error: 'Failed to cancel automatic send' });
+  }
+});
+
+// Get the audit trail of replies sent, scheduled, held back or cancelled without the client's review
+router.get('/auto-send-log/:clientId', async (req, res): Promise<void> => {
+  try {
+    const { clientId } = req.params;
+    const { limit = '50' } = req.query;
+
+    const client = await databaseService.getClientById(clientId);
+    if (!client) {
+      res.status(404).json({ error: 'Client not found' });
+      return;
+    }
+
+    const events = await databaseService.getAutoSendEvents(clientId, parseInt(limit as string));
+
+    res.json({ events });
+  } catch (error) {
+    console.error('Error getting auto-send log:', error);
+    res.status(500).json({ error: 'Failed to get auto-send log' });
+  }
+});
+
+// Get how much the client edits AI drafts before sending them
+router.get('/edit-metrics/:clientId', async (req, res): Promise<void> => {
+  try {
+    const { clientId } = req.params;
+
+    const client = await databaseService.getClientById(clientId);
+    if (!client) {
+      res.status(404).json({ error: 'Client not found' });
+      return;
+    }
+
+    const metrics = await databaseService.getEditMetrics(clientId);
+
+    res.json({ metrics });
+
+  } catch (error) {
+    console.error('Error getting edit metrics:', error);
+    res.status(500).json({ error: 'Failed to get edit metrics' });
+  }
+});
+
+// Helper to load an AI response that belongs to the client and can still be acted on
+async function getOpenResponse(clientId: string, responseId: string, res: express.Response) {
+  const response = await databaseService.getAIResponseById(responseId);
+  if (!response || response.email.clientId !== clientId) {
+    res.status(404).json({ error: 'AI response not found' });
+    return null;
+  }
+
+  if (response.status === 'SENT' || response.status === 'REJECTED') {
+    res.status(409).json({ error: `AI response already ${response.status.toLowerCase()}` });
+    return null;
+  }
+
+  if (response.status === 'SENDING') {
+    res.status(409).json({ error: 'AI response is being sent' });
+    return null;
+  }
+
+  return response;
+}
+
 // Helper function to get template categories
 async function getTemplateCategories(clientId: string): Promise<string[]> {
   const categories = await databaseService.getPrisma().responseTemplate.findMany({
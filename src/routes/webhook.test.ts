@@ -0,0 +1,875 @@
+// End-to-end tests for the webhook pipeline, run against the fake LLM and Graph providers:
+//   LLM_PROVIDER=fake GRAPH_PROVIDER=fake NODE_ENV=test (see `npm test`)
+// DATABASE_URL must point at a disposable Postgres database migrated with `npm run test:db`, and ENCRYPTION_KEY
+// must be 64 hex characters (see the README).
+import { test, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { Prisma } from '@prisma/client';
+import { Server } from 'http';
+import app from '../app';
+import { databaseService } from '../services/database';
+import {
+  jobQueueService,
+  DEFERRED_DRAFT_JOB,
+  AUTO_SEND_JOB,
+  CATCH_UP_JOB,
+  EMAIL_CREATED_JOB,
+  LIFECYCLE_JOB,
+  OUT_OF_OFFICE_JOB,
+} from '../services/jobQueue';
+import { fakeLLMProvider } from '../services/fakeLLMProvider';
+import { DRAFT_REPLY_TOOL_NAME } from '../services/draftOutput';
+import { CLASSIFY_EMAIL_TOOL_NAME } from '../services/emailClassification';
+import { senderRulesService } from '../services/senderRules';
+import { rulesEngineService } from '../services/rulesEngine';
+import { mailboxSyncService } from '../services/mailboxSync';
+import { editTrackingService } from '../services/editTracking';
+import { fakeMicrosoftGraphService, graphError } from '../services/fakeMicrosoftGraph';
+import type { EmailData } from '../services/microsoftGraph';
+
+const prisma = databaseService.getPrisma();
+const runId = Date.now().toString(36);
+const subscriptionId = `fake-subscription-${runId}`;
+const clientState = 'test-client-state';
+
+let server: Server;
+let baseUrl: string;
+let clientId: string;
+let messageCount = 0;
+
+before(async () => {
+  assert.equal(process.env.LLM_PROVIDER, 'fake', 'Run with LLM_PROVIDER=fake');
+  assert.equal(process.env.GRAPH_PROVIDER, 'fake', 'Run with GRAPH_PROVIDER=fake');
+
+  const client = await databaseService.createClient({
+    email: `owner-${runId}@example.com`,
+    name: 'Test Owner',
+    companyName: 'Test Company',
+    tenantId: `test-tenant-${runId}`,
+    accessToken: 'fake-access-token',
+  });
+  clientId = client.id;
+
+  // A token that won't expire mid-test, so no refresh is attempted
+  await databaseService.updateClientTokens(
+    clientId,
+    'fake-access-token',
+    'fake-refresh-token',
+    new Date(Date.now() + 60 * 60 * 1000),
+    'fake-account'
+  );
+
+  await databaseService.saveWebhookSubscription({
+    clientId,
+    subscriptionId,
+    resource: 'me/messages',
+    clientState,
+    expirationTime: new Date(Date.now() + 24 * 60 * 60 * 1000),
+  });
+
+  server = app.listen(0);
+  await new Promise<void>(resolve => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  if (server) {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  if (clientId) {
+    const emails = { email: { clientId } };
+    await prisma.responseEdit.deleteMany({ where: { clientId } });
+    await prisma.aIResponse.deleteMany({ where: emails });
+    await prisma.outOfOfficeReply.deleteMany({ where: { clientId } });
+    await prisma.autoSendEvent.deleteMany({ where: { clientId } });
+    await prisma.email.deleteMany({ where: { clientId } });
+    await prisma.job.deleteMany({ where: { clientId } });
+    await prisma.usageStats.deleteMany({ where: { clientId } });
+    await prisma.webhookSubscription.deleteMany({ where: { clientId } });
+    await prisma.senderRule.deleteMany({ where: { clientId } });
+    await prisma.processingRule.deleteMany({ where: { clientId } });
+    await prisma.client.delete({ where: { id: clientId } });
+  }
+
+  await databaseService.disconnect();
+});
+
+beforeEach(async () => {
+  fakeLLMProvider.reset();
+  fakeMicrosoftGraphService.reset();
+  await prisma.senderRule.deleteMany({ where: { clientId } });
+  await prisma.processingRule.deleteMany({ where: { clientId } });
+  await prisma.job.deleteMany({ where: { clientId } });
+  await prisma.client.update({ where: { id: clientId }, data: { aiSettings: Prisma.DbNull } });
+});
+
+// Seed an inbox message with an ID unique to this run
+function addMessage(subject: string, body: string, overrides: Partial<EmailData> = {}) {
+  return fakeMicrosoftGraphService.addMessage({
+    id: `message-${runId}-${++messageCount}`,
+    subject,
+    body,
+    sender: { name: 'Jane Customer', email: 'jane@customer.example' },
+    ...overrides,
+  });
+}
+
+// Poll until an email's job of the given type is waiting for a retry, after any drain in progress lets go of it
+async function waitForPendingJob(type: string, emailId: string) {
+  for (let attempt = 0; attempt < 50; attempt++) {
+    const job = await prisma.job.findFirst({
+      where: { clientId, type, status: 'PENDING', payload: { path: ['emailId'], equals: emailId } },
+    });
+    if (job) {
+      return job;
+    }
+
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+
+  throw new Error(`No pending ${type} job for email: ${emailId}`);
+}
+
+// Give the client business hours that are closed until `reopensAt`
+async function closeUntil(reopensAt: Date) {
+  const allDay = [{ start: '00:00', end: '24:00' }];
+  const businessHours = {
+    enabled: true,
+    timezone: 'UTC',
+    schedule: { sunday: allDay, monday: allDay, tuesday: allDay, wednesday: allDay, thursday: allDay, friday: allDay, saturday: allDay },
+    closures: [{ start: new Date(Date.now() - 60 * 60 * 1000).toISOString(), end: reopensAt.toISOString() }],
+  };
+
+  await prisma.client.update({
+    where: { id: clientId },
+    data: { aiSettings: { responseStyle: 'professional', responseLength: 'short', tone: 'friendly', businessHours } },
+  });
+}
+
+// Post a Graph change notification for a new message
+async function notify(messageId: string, state: string = clientState, subscription: string = subscriptionId) {
+  const response = await fetch(`${baseUrl}/api/webhook/microsoft/${clientId}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      value: [{
+        subscriptionId: subscription,
+        clientState: state,
+        changeType: 'created',
+        resource: `Users/fake-user/Messages/${messageId}`,
+        resourceData: { '@odata.type': '#Microsoft.Graph.Message', id: messageId },
+      }],
+    }),
+  });
+
+  return { status: response.status, body: await response.json() as { enqueued: number } };
+}
+
+// Drain the queue until the email reaches a final status
+async function waitForEmail(messageId: string) {
+  for (let attempt = 0; attempt < 50; attempt++) {
+    await jobQueueService.drain();
+
+    const email = await prisma.email.findUnique({
+      where: { microsoftId: messageId },
+      include: { aiResponses: true },
+    });
+    if (email && !['RECEIVED', 'PROCESSING'].includes(email.status)) {
+      return email;
+    }
+
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+
+  throw new Error(`Email was not processed: ${messageId}`);
+}
+
+test('creates an Outlook draft and AI response for a new email', async () => {
+  const message = addMessage('Order status', '<p>Hi, when will my order #1234 ship?</p>');
+  fakeLLMProvider.script(DRAFT_REPLY_TOOL_NAME, {
+    input: {
+      replyHtml: '<p>Hi Jane, your order ships tomorrow.</p>',
+      confidence: 0.82,
+      templateId: null,
+      reasoning: 'Shipping question',
+      intent: 'question',
+      followUpQuestions: [],
+    },
+  });
+
+  const response = await notify(message.id);
+  assert.equal(response.status, 202);
+  assert.equal(response.body.enqueued, 1);
+
+  const email = await waitForEmail(message.id);
+  assert.equal(email.status, 'DRAFT_CREATED');
+  assert.equal(email.subject, 'Order status');
+  assert.equal(email.senderEmail, 'jane@customer.example');
+
+  assert.equal(email.aiResponses.length, 1);
+  const aiResponse = email.aiResponses[0]!;
+  assert.equal(aiResponse.responseContent, '<p>Hi Jane, your order ships tomorrow.</p>');
+  assert.equal(aiResponse.confidence, 0.82);
+
+  const draft = fakeMicrosoftGraphService.drafts.get(aiResponse.draftId!);
+  assert.ok(draft, 'draft should exist in the mailbox');
+  assert.equal(draft.replyToId, message.id);
+  assert.ok(draft.body.startsWith('<p>Hi Jane, your order ships tomorrow.</p>'));
+
+  assert.equal(email.category, 'inquiry');
+
+  assert.equal(fakeLLMProvider.callsFor(DRAFT_REPLY_TOOL_NAME).length, 1);
+  const prompt = fakeLLMProvider.callsFor(DRAFT_REPLY_TOOL_NAME)[0]!.turns[0];
+  assert.ok(prompt?.type === 'user' && prompt.content.includes('when will my order #1234 ship?'));
+});
+
+test('includes a sent AI reply once in the thread history', async () => {
+  const first = addMessage('Parcel', '<p>Where is my parcel?</p>');
+  fakeLLMProvider.script(DRAFT_REPLY_TOOL_NAME, {
+    input: {
+      replyHtml: '<p>Your parcel left our warehouse today.</p>',
+      confidence: 0.9,
+      templateId: null,
+      reasoning: 'Shipping question',
+      intent: 'question',
+      followUpQuestions: [],
+    },
+  });
+  await notify(first.id);
+  const email = await waitForEmail(first.id);
+
+  const approved = await fetch(`${baseUrl}/api/client/responses/${clientId}/${email.aiResponses[0]!.id}/approve`, { method: 'POST' });
+  assert.equal(approved.status, 200);
+
+  // Sent Items has the reply under a new Graph ID; our own row has it too
+  const followUp = addMessage('RE: Parcel', '<p>Thanks! Which carrier?</p>', { conversationId: first.conversationId });
+  await notify(followUp.id);
+  await waitForEmail(followUp.id);
+
+  const prompt = fakeLLMProvider.callsFor(DRAFT_REPLY_TOOL_NAME)[1]!.turns[0];
+  assert.ok(prompt?.type === 'user');
+  assert.equal(prompt.content.split('Your parcel left our warehouse today.').length - 1, 1);
+});
+
+test('ignores notifications with the wrong client state', async () => {
+  const message = addMessage('Forged', '<p>Not from Graph</p>');
+
+  const response = await notify(message.id, 'wrong-client-state');
+  assert.equal(response.status, 202);
+  assert.equal(response.body.enqueued, 0);
+
+  await jobQueueService.drain();
+  assert.equal(await prisma.email.count({ where: { microsoftId: message.id } }), 0);
+  assert.equal(fakeMicrosoftGraphService.calls.some(call => call.method === 'getEmailById'), false);
+  assert.equal(fakeLLMProvider.calls.length, 0);
+});
+
+test('requires the cron secret to list or retry jobs', async () => {
+  const unconfigured = await fetch(`${baseUrl}/api/webhook/jobs?clientId=${clientId}`);
+  assert.equal(unconfigured.status, 503);
+
+  process.env.CRON_SECRET = 'test-cron-secret';
+  try {
+    const list = await fetch(`${baseUrl}/api/webhook/jobs?clientId=${clientId}`);
+    const retry = await fetch(`${baseUrl}/api/webhook/jobs/missing-job/retry`, { method: 'POST' });
+    assert.equal(list.status, 401);
+    assert.equal(retry.status, 401);
+
+    const headers = { Authorization: 'Bearer test-cron-secret' };
+    const authorized = await fetch(`${baseUrl}/api/webhook/jobs?clientId=${clientId}`, { headers });
+    assert.equal(authorized.status, 200);
+    assert.equal((await fetch(`${baseUrl}/api/webhook/jobs?limit=lots`, { headers })).status, 400);
+    assert.equal((await fetch(`${baseUrl}/api/webhook/jobs?status=STUCK`, { headers })).status, 400);
+  } finally {
+    delete process.env.CRON_SECRET;
+  }
+});
+
+test('only retries dead-lettered jobs', async () => {
+  process.env.CRON_SECRET = 'test-cron-secret';
+  try {
+    const retry = (jobId: string) => fetch(`${baseUrl}/api/webhook/jobs/${jobId}/retry`, {
+      method: 'POST',
+      headers: { Authorization: 'Bearer test-cron-secret' },
+    });
+    const job = await prisma.job.create({ data: { type: 'test.unhandled', clientId, payload: {}, status: 'PROCESSING', attempts: 1 } });
+
+    assert.equal((await retry('missing-job')).status, 404);
+    assert.equal((await retry(job.id)).status, 409);
+    assert.equal((await prisma.job.findUniqueOrThrow({ where: { id: job.id } })).status, 'PROCESSING');
+
+    await prisma.job.update({ where: { id: job.id }, data: { status: 'DEAD_LETTER' } });
+    assert.equal((await retry(job.id)).status, 200);
+    const retried = await prisma.job.findUniqueOrThrow({ where: { id: job.id } });
+    assert.deepEqual([retried.status, retried.attempts], ['PENDING', 0]);
+  } finally {
+    delete process.env.CRON_SECRET;
+    await prisma.job.deleteMany({ where: { clientId } });
+  }
+});
+
+test('accepts the shared secret from legacy subscriptions until they are deactivated', async () => {
+  const legacySubscriptionId = `fake-legacy-subscription-${runId}`;
+  await prisma.webhookSubscription.create({
+    data: {
+      clientId,
+      subscriptionId: legacySubscriptionId,
+      resource: 'me/messages',
+      expirationTime: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    },
+  });
+
+  const accepted = addMessage('Legacy', '<p>Sent before subscriptions had their own secret</p>');
+  const response = await notify(accepted.id, 'email-drafts-agent', legacySubscriptionId);
+  assert.equal(response.body.enqueued, 1);
+  await waitForEmail(accepted.id);
+
+  await databaseService.deactivateWebhookSubscription(legacySubscriptionId);
+  const rejected = addMessage('Legacy', '<p>After the subscription was replaced</p>');
+  const afterDeactivation = await notify(rejected.id, 'email-drafts-agent', legacySubscriptionId);
+  assert.equal(afterDeactivation.body.enqueued, 0);
+});
+
+test('processes a redelivered notification only once', async () => {
+  const message = addMessage('Pricing', '<p>What does the premium plan cost?</p>');
+
+  const first = await notify(message.id);
+  const second = await notify(message.id);
+  assert.equal(first.body.enqueued, 1);
+  assert.equal(second.body.enqueued, 0);
+
+  const email = await waitForEmail(message.id);
+  assert.equal(email.status, 'DRAFT_CREATED');
+  assert.equal(email.aiResponses.length, 1);
+  assert.equal(fakeMicrosoftGraphService.calls.filter(call => call.method === 'createDraftReply').length, 1);
+  assert.equal(fakeMicrosoftGraphService.drafts.size, 1);
+});
+
+test('a burst of missed-notification events queues one catch-up sync', async () => {
+  const lifecycle = { subscriptionId, clientState, lifecycleEvent: 'missed' };
+  const response = await fetch(`${baseUrl}/api/webhook/microsoft/${clientId}/lifecycle`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ value: [lifecycle, lifecycle, lifecycle] }),
+  });
+  assert.equal(response.status, 202);
+
+  // Run the lifecycle jobs; the catch-up itself waits for its window to close
+  for (let attempt = 0; attempt < 50; attempt++) {
+    await jobQueueService.drain();
+    if (await prisma.job.count({ where: { clientId, type: LIFECYCLE_JOB, status: { not: 'COMPLETED' } } }) === 0) {
+      break;
+    }
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+
+  assert.equal(await prisma.job.count({ where: { clientId, type: CATCH_UP_JOB } }), 1);
+});
+
+test('the first mailbox sync skips existing mail, and later syncs pick up missed mail', async () => {
+  await prisma.client.update({ where: { id: clientId }, data: { deltaLink: null, lastSyncedAt: null } });
+  const existing = addMessage('Old question', '<p>Sent before the mailbox was connected</p>');
+
+  assert.deepEqual(await mailboxSyncService.syncClient(clientId), { checked: 0, enqueued: 0 });
+  assert.equal(await prisma.job.count({ where: { dedupeKey: `${EMAIL_CREATED_JOB}:${clientId}:${existing.id}` } }), 0);
+
+  const missed = addMessage('New question', '<p>Never reached the webhook</p>');
+  assert.deepEqual(await mailboxSyncService.syncClient(clientId), { checked: 1, enqueued: 1 });
+
+  const email = await waitForEmail(missed.id);
+  assert.equal(email.status, 'DRAFT_CREATED');
+  assert.equal(await prisma.email.count({ where: { microsoftId: existing.id } }), 0);
+});
+
+test('rejecting removes the draft, marks the email rejected and only happens once', async () => {
+  const message = addMessage('Partnership', '<p>Would you like to partner with us?</p>');
+  await notify(message.id);
+  const email = await waitForEmail(message.id);
+  const response = email.aiResponses[0]!;
+
+  const reject = () => fetch(`${baseUrl}/api/client/responses/${clientId}/${response.id}/reject`, { method: 'POST' });
+
+  // A Graph failure other than "not found" leaves the response open to try again
+  fakeMicrosoftGraphService.failNext('deleteDraft', graphError(503));
+  assert.equal((await reject()).status, 500);
+  assert.equal((await prisma.aIResponse.findUniqueOrThrow({ where: { id: response.id } })).status, 'DRAFT_CREATED');
+
+  assert.equal((await reject()).status, 200);
+  assert.equal((await reject()).status, 409);
+  assert.equal(fakeMicrosoftGraphService.drafts.has(response.draftId!), false);
+
+  const rejected = await prisma.email.findUniqueOrThrow({ where: { id: email.id }, include: { aiResponses: true } });
+  assert.equal(rejected.status, 'REJECTED');
+  assert.equal(rejected.aiResponses[0]?.status, 'REJECTED');
+});
+
+test('marks the email AI_OUTPUT_INVALID when the repair attempt also fails', async () => {
+  const message = addMessage('Complaint', '<p>My delivery arrived damaged.</p>');
+  fakeLLMProvider.script(
+    DRAFT_REPLY_TOOL_NAME,
+    { input: { replyHtml: '', confidence: 2 } },
+    { text: 'Sorry, I cannot help with that.' }
+  );
+
+  await notify(message.id);
+
+  const email = await waitForEmail(message.id);
+  assert.equal(email.status, 'AI_OUTPUT_INVALID');
+  assert.equal(email.aiResponses.length, 0);
+  assert.equal(fakeMicrosoftGraphService.drafts.size, 0);
+
+  // The repair attempt tells the model what was wrong with its first answer
+  const draftCalls = fakeLLMProvider.callsFor(DRAFT_REPLY_TOOL_NAME);
+  assert.equal(draftCalls.length, 2);
+  assert.ok(draftCalls[1]!.turns.some(turn => turn.type === 'toolError'));
+});
+
+test('tags newsletters in Outlook instead of drafting a reply', async () => {
+  const message = addMessage('Our spring collection is here', '<p>Shop the new season now. Unsubscribe</p>');
+  fakeLLMProvider.script(CLASSIFY_EMAIL_TOOL_NAME, {
+    input: { category: 'newsletter', urgency: 'low', sentiment: 'positive' },
+  });
+
+  await notify(message.id);
+
+  const email = await waitForEmail(message.id);
+  assert.equal(email.status, 'CATEGORIZED');
+  assert.equal(email.category, 'newsletter');
+  assert.equal(email.urgency, 'low');
+  assert.equal(email.sentiment, 'positive');
+  assert.equal(email.aiResponses.length, 0);
+  assert.deepEqual(fakeMicrosoftGraphService.categories.get(message.id), ['Newsletter']);
+  assert.equal(fakeLLMProvider.callsFor(DRAFT_REPLY_TOOL_NAME).length, 0);
+});
+
+test('skips spam without touching the mailbox', async () => {
+  const message = addMessage('You won!', '<p>Claim your prize now</p>');
+  fakeLLMProvider.script(CLASSIFY_EMAIL_TOOL_NAME, {
+    input: { category: 'spam', urgency: 'low', sentiment: 'neutral' },
+  });
+
+  await notify(message.id);
+
+  const email = await waitForEmail(message.id);
+  assert.equal(email.status, 'SKIPPED');
+  assert.equal(email.skipReason, 'Triage: spam');
+  assert.equal(email.aiResponses.length, 0);
+  assert.equal(fakeMicrosoftGraphService.categories.size, 0);
+  assert.equal(fakeMicrosoftGraphService.drafts.size, 0);
+});
+
+test('skips mailing list mail without calling the model', async () => {
+  const message = addMessage('Weekly digest', '<p>This week in our community...</p>', {
+    headers: [
+      { name: 'List-Unsubscribe', value: '<mailto:unsubscribe@lists.example>' },
+      { name: 'Precedence', value: 'list' },
+    ],
+  });
+
+  await notify(message.id);
+
+  const email = await waitForEmail(message.id);
+  assert.equal(email.status, 'SKIPPED');
+  assert.equal(email.skipReason, 'Mailing list (List-Unsubscribe)');
+  assert.equal(fakeLLMProvider.calls.length, 0);
+  assert.equal(fakeMicrosoftGraphService.drafts.size, 0);
+});
+
+test('skips bounces from the mail system', async () => {
+  const message = addMessage('Undeliverable: Your quote', '<p>Delivery has failed to these recipients</p>', {
+    sender: { name: 'Mail Delivery System', email: 'MAILER-DAEMON@mail.example' },
+  });
+
+  await notify(message.id);
+
+  const email = await waitForEmail(message.id);
+  assert.equal(email.status, 'SKIPPED');
+  assert.equal(email.skipReason, 'Delivery status notification');
+  assert.equal(fakeLLMProvider.calls.length, 0);
+});
+
+test('never drafts for senders on the deny list', async () => {
+  await senderRulesService.addRule(clientId, { pattern: 'customer.example', action: 'deny' });
+  const message = addMessage('Hello again', '<p>Any news?</p>');
+
+  await notify(message.id);
+
+  const email = await waitForEmail(message.id);
+  assert.equal(email.status, 'SKIPPED');
+  assert.equal(email.skipReason, 'Sender rule: never draft (*@customer.example)');
+  assert.equal(fakeLLMProvider.calls.length, 0);
+});
+
+test('drafts VIP mail with the premium model, even when it looks automated', async () => {
+  await senderRulesService.addRule(clientId, { pattern: 'customer.example', action: 'deny' });
+  await senderRulesService.addRule(clientId, { pattern: 'jane@customer.example', action: 'vip' });
+  const message = addMessage('Contract renewal', '<p>Can we talk about next year?</p>', {
+    headers: [{ name: 'Auto-Submitted', value: 'auto-generated' }],
+  });
+
+  await notify(message.id);
+
+  const email = await waitForEmail(message.id);
+  assert.equal(email.status, 'DRAFT_CREATED');
+  assert.equal(email.isVip, true);
+  assert.equal(fakeLLMProvider.callsFor(CLASSIFY_EMAIL_TOOL_NAME).length, 0);
+
+  const [draftCall] = fakeLLMProvider.callsFor(DRAFT_REPLY_TOOL_NAME);
+  assert.equal(draftCall?.model, fakeLLMProvider.premiumModel);
+});
+
+test('drafts a reply when classification fails', async () => {
+  const message = addMessage('Question', '<p>Do you ship abroad?</p>');
+  fakeLLMProvider.script(CLASSIFY_EMAIL_TOOL_NAME, { error: new Error('Provider unavailable') });
+
+  await notify(message.id);
+
+  const email = await waitForEmail(message.id);
+  assert.equal(email.status, 'DRAFT_CREATED');
+  assert.equal(email.category, null);
+  assert.equal(fakeMicrosoftGraphService.drafts.size, 1);
+});
+
+test('moves mail matching a client rule without drafting', async () => {
+  await rulesEngineService.saveRules(clientId, [
+    { name: 'Invoices', conditions: { subjectContains: ['invoice'] }, action: 'move-to-folder', folder: 'Accounting' },
+  ]);
+  const message = addMessage('Invoice #1042', '<p>Please find our invoice attached.</p>');
+
+  await notify(message.id);
+
+  const email = await waitForEmail(message.id);
+  assert.equal(email.status, 'SKIPPED');
+  assert.equal(email.skipReason, 'Rule: Invoices (moved to Accounting)');
+  assert.equal(fakeMicrosoftGraphService.movedTo.get(message.id), 'Accounting');
+  assert.equal(fakeLLMProvider.calls.length, 0);
+});
+
+test('sends the reply straight away for an auto-send rule', async () => {
+  await prisma.client.update({
+    where: { id: clientId },
+    data: {
+      aiSettings: {
+        responseStyle: 'professional',
+        responseLength: 'short',
+        tone: 'friendly',
+        autoRespond: true,
+        requireApproval: false,
+        autoSend: { delayMinutes: 0 },
+      },
+    },
+  });
+  await rulesEngineService.saveRules(clientId, [
+    { name: 'Opening hours', conditions: { bodyContains: ['opening hours'] }, action: 'auto-send' },
+  ]);
+  const message = addMessage('Quick question', '<p>What are your opening hours?</p>');
+
+  await notify(message.id);
+
+  const email = await waitForEmail(message.id);
+  assert.equal(email.status, 'SENT');
+  assert.equal(email.aiResponses[0]?.status, 'SENT');
+  assert.equal(fakeMicrosoftGraphService.sentItems.length, 1);
+});
+
+test('only drafts for an auto-send rule while approval is required', async () => {
+  await prisma.client.update({
+    where: { id: clientId },
+    data: { aiSettings: { responseStyle: 'professional', responseLength: 'short', tone: 'friendly', autoSend: { delayMinutes: 0 } } },
+  });
+  await rulesEngineService.saveRules(clientId, [
+    { name: 'Opening hours', conditions: { bodyContains: ['opening hours'] }, action: 'auto-send' },
+  ]);
+  const message = addMessage('Quick question', '<p>What are your opening hours?</p>');
+
+  await notify(message.id);
+
+  const email = await waitForEmail(message.id);
+  assert.equal(email.status, 'DRAFT_CREATED');
+  assert.equal(email.aiResponses[0]?.status, 'DRAFT_CREATED');
+  assert.equal(fakeMicrosoftGraphService.sentItems.length, 0);
+  assert.equal(await prisma.autoSendEvent.count({ where: { emailId: email.id } }), 0);
+});
+
+test('explains which rule fires for a stored email', async () => {
+  const message = addMessage('Order status', '<p>Where is my order?</p>');
+  await notify(message.id);
+  const email = await waitForEmail(message.id);
+
+  const response = await fetch(`${baseUrl}/api/client/rules/${clientId}/dry-run`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      emailId: email.id,
+      rules: [
+        { name: 'Invoices', conditions: { subjectContains: ['invoice'] }, action: 'skip' },
+        { name: 'Orders', conditions: { senders: ['customer.example'], categories: ['inquiry'] }, action: 'flag' },
+      ],
+    }),
+  });
+  const body = await response.json() as any;
+
+  assert.equal(response.status, 200);
+  assert.equal(body.decision.action, 'flag');
+  assert.equal(body.decision.reason, 'Rule: Orders');
+  assert.deepEqual(
+    body.trace.filter((entry: any) => entry.source === 'client').map((entry: any) => entry.matched),
+    [false, true]
+  );
+  // Dry runs never call the model or change the mailbox
+  assert.equal(fakeLLMProvider.callsFor(CLASSIFY_EMAIL_TOOL_NAME).length, 1);
+  assert.equal(fakeMicrosoftGraphService.flagged.size, 0);
+});
+
+test('defers after-hours mail and drafts it when the business opens', async () => {
+  const reopensAt = new Date(Date.now() + 2 * 60 * 60 * 1000);
+  await closeUntil(reopensAt);
+  const message = addMessage('Weekend question', '<p>Are you open on Monday?</p>');
+
+  await notify(message.id);
+
+  const deferred = await waitForEmail(message.id);
+  assert.equal(deferred.status, 'DEFERRED');
+  assert.equal(deferred.deferredUntil?.toISOString(), reopensAt.toISOString());
+  assert.equal(fakeMicrosoftGraphService.drafts.size, 0);
+
+  const [job] = await prisma.job.findMany({ where: { clientId, type: DEFERRED_DRAFT_JOB } });
+  assert.equal(job?.runAt.toISOString(), reopensAt.toISOString());
+
+  // Opening time arrives
+  await closeUntil(new Date(Date.now() - 60 * 1000));
+  await prisma.job.update({ where: { id: job!.id }, data: { runAt: new Date() } });
+
+  let drafted = deferred;
+  for (let attempt = 0; attempt < 50 && ['DEFERRED', 'PROCESSING'].includes(drafted.status); attempt++) {
+    await jobQueueService.drain();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    drafted = await prisma.email.findUniqueOrThrow({ where: { id: deferred.id }, include: { aiResponses: true } });
+  }
+  assert.equal(drafted.status, 'DRAFT_CREATED');
+  assert.equal(fakeMicrosoftGraphService.drafts.size, 1);
+  // Classified on arrival only
+  assert.equal(fakeLLMProvider.callsFor(CLASSIFY_EMAIL_TOOL_NAME).length, 1);
+});
+
+// Put the client out of the office from yesterday until tomorrow
+async function goOutOfOffice() {
+  const day = 24 * 60 * 60 * 1000;
+  const outOfOffice = {
+    enabled: true,
+    start: new Date(Date.now() - day).toISOString().slice(0, 10),
+    end: new Date(Date.now() + day).toISOString().slice(0, 10),
+    timezone: 'UTC',
+    alternateContact: { name: 'Sam Deputy', email: 'sam@example.com' },
+  };
+  await prisma.client.update({
+    where: { id: clientId },
+    data: { aiSettings: { responseStyle: 'professional', responseLength: 'short', tone: 'friendly', outOfOffice } },
+  });
+}
+
+test('acknowledges each sender once while the client is away, and still drafts the reply', async () => {
+  await goOutOfOffice();
+
+  const first = addMessage('Quote request', '<p>Could you send me a quote?</p>');
+  const second = addMessage('Quote request follow-up', '<p>Also for the larger size, please.</p>');
+
+  await notify(first.id);
+  const firstEmail = await waitForEmail(first.id);
+  await notify(second.id);
+  const secondEmail = await waitForEmail(second.id);
+
+  // Real replies wait in Drafts for the client's return
+  assert.equal(firstEmail.status, 'DRAFT_CREATED');
+  assert.equal(secondEmail.status, 'DRAFT_CREATED');
+
+  assert.equal(fakeMicrosoftGraphService.sentItems.length, 1);
+  const acknowledgement = fakeMicrosoftGraphService.sentItems[0]!;
+  assert.ok(acknowledgement.body.startsWith('<p>Hi Jane,</p>'));
+  assert.ok(acknowledgement.body.includes('sam@example.com'));
+
+  const replies = await prisma.outOfOfficeReply.findMany({ where: { clientId } });
+  assert.equal(replies.length, 1);
+  assert.equal(replies[0]?.emailId, firstEmail.id);
+  assert.ok(replies[0]?.sentAt);
+
+  const prompt = fakeLLMProvider.callsFor(DRAFT_REPLY_TOOL_NAME)[0]!.turns[0];
+  assert.ok(prompt?.type === 'user' && prompt.content.includes('out of the office'));
+});
+
+test('drafts the reply even when the acknowledgement fails, and retries the acknowledgement', async () => {
+  await goOutOfOffice();
+  await prisma.outOfOfficeReply.deleteMany({ where: { clientId } });
+  fakeMicrosoftGraphService.failNext('sendDraft', graphError(503));
+  const message = addMessage('Invoice question', '<p>Is invoice 42 paid?</p>');
+
+  await notify(message.id);
+
+  const email = await waitForEmail(message.id);
+  assert.equal(email.status, 'DRAFT_CREATED');
+  assert.equal(fakeMicrosoftGraphService.sentItems.length, 0);
+  // Only the real reply is left in Drafts
+  assert.equal(fakeMicrosoftGraphService.drafts.size, 1);
+
+  const job = await waitForPendingJob(OUT_OF_OFFICE_JOB, email.id);
+  await prisma.job.update({ where: { id: job.id }, data: { runAt: new Date() } });
+  await jobQueueService.drain();
+
+  assert.equal(fakeMicrosoftGraphService.sentItems.length, 1);
+  const reply = await prisma.outOfOfficeReply.findUnique({ where: { emailId: email.id } });
+  assert.ok(reply?.sentAt);
+});
+
+// Let replies go out without approval, as set in the client's AI settings
+async function enableAutoRespond(autoSend: { minConfidence?: number; delayMinutes?: number }) {
+  await prisma.client.update({
+    where: { id: clientId },
+    data: {
+      aiSettings: {
+        responseStyle: 'professional',
+        responseLength: 'short',
+        tone: 'friendly',
+        autoRespond: true,
+        requireApproval: false,
+        autoSend,
+      },
+    },
+  });
+}
+
+test('auto-responds after the undo window and records each step', async () => {
+  await enableAutoRespond({ delayMinutes: 10 });
+  const message = addMessage('Delivery times', '<p>How long does delivery take?</p>');
+
+  await notify(message.id);
+
+  const scheduled = await waitForEmail(message.id);
+  assert.equal(scheduled.status, 'SEND_SCHEDULED');
+  assert.equal(scheduled.aiResponses[0]?.status, 'SCHEDULED');
+  assert.equal(fakeMicrosoftGraphService.sentItems.length, 0);
+
+  // The undo window closes
+  const [job] = await prisma.job.findMany({ where: { clientId, type: AUTO_SEND_JOB } });
+  assert.ok(job && job.runAt.getTime() > Date.now() + 9 * 60 * 1000);
+  await prisma.job.update({ where: { id: job.id }, data: { runAt: new Date() } });
+
+  let sent = scheduled;
+  for (let attempt = 0; attempt < 50 && sent.status === 'SEND_SCHEDULED'; attempt++) {
+    await jobQueueService.drain();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    sent = await prisma.email.findUniqueOrThrow({ where: { id: scheduled.id }, include: { aiResponses: true } });
+  }
+  assert.equal(sent.status, 'SENT');
+  assert.equal(fakeMicrosoftGraphService.sentItems.length, 1);
+
+  const events = await prisma.autoSendEvent.findMany({ where: { emailId: scheduled.id }, orderBy: { createdAt: 'asc' } });
+  assert.deepEqual(events.map(event => event.event), ['scheduled', 'sent']);
+  assert.equal(events[1]?.content, sent.aiResponses[0]?.responseContent);
+});
+
+test('leaves low-confidence auto-responses as drafts for review', async () => {
+  await enableAutoRespond({ minConfidence: 0.95, delayMinutes: 0 });
+  const message = addMessage('Custom order', '<p>Can you make one in green?</p>');
+
+  await notify(message.id);
+
+  const email = await waitForEmail(message.id);
+  assert.equal(email.status, 'DRAFT_CREATED');
+  assert.equal(email.aiResponses[0]?.status, 'DRAFT_CREATED');
+  assert.equal(fakeMicrosoftGraphService.sentItems.length, 0);
+
+  const [event] = await prisma.autoSendEvent.findMany({ where: { emailId: email.id } });
+  assert.equal(event?.event, 'held');
+  assert.match(event!.reason, /below the 95% threshold/);
+});
+
+test('acknowledges the sender of an away client when the automatic reply is held for review', async () => {
+  await goOutOfOffice();
+  await prisma.outOfOfficeReply.deleteMany({ where: { clientId } });
+  const client = await prisma.client.findUniqueOrThrow({ where: { id: clientId } });
+  await prisma.client.update({
+    where: { id: clientId },
+    data: {
+      aiSettings: {
+        ...(client.aiSettings as Prisma.JsonObject),
+        autoRespond: true,
+        requireApproval: false,
+        autoSend: { minConfidence: 0.95, delayMinutes: 0 },
+      },
+    },
+  });
+  const message = addMessage('Bulk order', '<p>Do you offer discounts for 500 units?</p>');
+
+  await notify(message.id);
+
+  const email = await waitForEmail(message.id);
+  assert.equal(email.status, 'DRAFT_CREATED');
+  for (let attempt = 0; attempt < 50 && fakeMicrosoftGraphService.sentItems.length === 0; attempt++) {
+    await jobQueueService.drain();
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+
+  // Only the acknowledgement goes out; the reply waits for review
+  assert.equal(fakeMicrosoftGraphService.sentItems.length, 1);
+  assert.ok(fakeMicrosoftGraphService.sentItems[0]!.body.includes('out of the office'));
+});
+
+test('cancelling during the undo window keeps the reply as a draft and stops the send', async () => {
+  await enableAutoRespond({ delayMinutes: 10 });
+  const message = addMessage('Returns', '<p>Can I return an opened item?</p>');
+
+  await notify(message.id);
+
+  const scheduled = await waitForEmail(message.id);
+  const response = scheduled.aiResponses[0]!;
+  assert.equal(response.status, 'SCHEDULED');
+
+  const cancelSend = () => fetch(`${baseUrl}/api/client/responses/${clientId}/${response.id}/cancel-send`, { method: 'POST' });
+  const cancelled = await cancelSend();
+  assert.equal(cancelled.status, 200);
+  assert.equal((await cancelSend()).status, 409);
+
+  // The send job finds nothing left to send
+  await prisma.job.updateMany({ where: { clientId, type: AUTO_SEND_JOB }, data: { runAt: new Date() } });
+  await jobQueueService.drain();
+
+  const email = await prisma.email.findUniqueOrThrow({ where: { id: scheduled.id }, include: { aiResponses: true } });
+  assert.equal(email.status, 'DRAFT_CREATED');
+  assert.equal(email.aiResponses[0]?.status, 'DRAFT_CREATED');
+  assert.equal(email.aiResponses[0]?.scheduledSendAt, null);
+  assert.equal(fakeMicrosoftGraphService.sentItems.length, 0);
+  assert.ok(fakeMicrosoftGraphService.drafts.has(response.draftId!));
+
+  const events = await prisma.autoSendEvent.findMany({ where: { emailId: scheduled.id }, orderBy: { createdAt: 'asc' } });
+  assert.deepEqual(events.map(event => event.event), ['scheduled', 'cancelled']);
+});
+
+test('editing a scheduled reply in Outlook cancels the automatic send', async () => {
+  await enableAutoRespond({ delayMinutes: 10 });
+  const message = addMessage('Gift wrap', '<p>Do you offer gift wrapping?</p>');
+
+  await notify(message.id);
+
+  const scheduled = await waitForEmail(message.id);
+  const response = scheduled.aiResponses[0]!;
+  assert.equal(response.status, 'SCHEDULED');
+
+  const draft = fakeMicrosoftGraphService.drafts.get(response.draftId!)!;
+  draft.body = '<p>Yes, for orders over $20.</p>';
+  await editTrackingService.checkDrafts();
+
+  // The send job finds nothing left to send
+  await prisma.job.updateMany({ where: { clientId, type: AUTO_SEND_JOB }, data: { runAt: new Date() } });
+  await jobQueueService.drain();
+
+  const email = await prisma.email.findUniqueOrThrow({ where: { id: scheduled.id }, include: { aiResponses: true } });
+  assert.equal(email.status, 'DRAFT_CREATED');
+  assert.equal(email.aiResponses[0]?.status, 'USER_MODIFIED');
+  assert.equal(email.aiResponses[0]?.editedContent, '<p>Yes, for orders over $20.</p>');
+  assert.equal(fakeMicrosoftGraphService.sentItems.length, 0);
+
+  const events = await prisma.autoSendEvent.findMany({ where: { emailId: scheduled.id }, orderBy: { createdAt: 'asc' } });
+  assert.deepEqual(events.map(event => [event.event, event.reason]).slice(1), [['cancelled', 'Changed in Outlook before sending']]);
+});
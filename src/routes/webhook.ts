@@ -1,10 +1,41 @@
 import express from 'express';
+import { JobStatus } from '@prisma/client';
 import { microsoftGraphService } from '../services/microsoftGraph';
 import { databaseService } from '../services/database';
-import { claudeAIService } from '../services/claudeAI';
+import { claudeAIService, DraftOptions } from '../services/claudeAI';
+import { AIOutputError } from '../services/draftOutput';
+import { detectAutomatedMail } from '../services/automatedMail';
+import { rulesEngineService, ProcessingDecision } from '../services/rulesEngine';
+import { DEFAULT_TRIAGE_ACTIONS, EmailClassification } from '../services/emailClassification';
+import { autoSendService } from '../services/autoSend';
+import { outOfOfficeService, formatReturnDate } from '../services/outOfOffice';
+import {
+  jobQueueService,
+  EMAIL_CREATED_JOB,
+  LIFECYCLE_JOB,
+  CATCH_UP_JOB,
+  STYLE_PROFILE_JOB,
+  DEFERRED_DRAFT_JOB,
+  AUTO_SEND_JOB,
+  OUT_OF_OFFICE_JOB,
+  JobStateError,
+} from '../services/jobQueue';
+import { GraphSession } from '../services/graphSession';
+import { subscriptionManagerService } from '../services/subscriptionManager';
+import { mailboxSyncService } from '../services/mailboxSync';
+import { conversationHistoryService } from '../services/conversationHistory';
+import { editTrackingService } from '../services/editTracking';
+import { styleProfileService } from '../services/styleProfile';
+import { authenticateAdmin, authenticateCron } from '../middleware/auth';
 
 const router = express.Router();
 
+// The shared secret every subscription used before each got its own
+const LEGACY_CLIENT_STATE = 'email-drafts-agent';
+
+const MAX_JOBS_LISTED = 500;
+const CATCH_UP_WINDOW_MS = 60 * 1000;
+
 // Microsoft webhook validation endpoint
 router.get('/microsoft/:clientId', (req, res): void => {
   // Microsoft Graph sends a validation request
@@ -28,11 +59,15 @@ router.post('/microsoft/:clientId', async (req, res) => {
 
     console.log(`📧 Received ${notifications.length} notifications for client:`, clientId);
 
-    // Acknowledge receipt immediately
-    res.status(202).json({ message: 'Notifications received' });
+    // Persist notifications before acknowledging so they survive the function being frozen
+    const enqueued = await enqueueNotifications(clientId, notifications);
 
-    // Process notifications asynchronously
-    processNotificationsAsync(clientId, notifications);
+    res.status(202).json({ message: 'Notifications received', enqueued });
+
+    // Start draining right away; anything left over is picked up by the worker or cron
+    if (enqueued > 0) {
+      jobQueueService.drain().catch(error => console.error('Error draining job queue:', error));
+    }
 
   } catch (error) {
     console.error('Error processing webhook:', error);
@@ -40,61 +75,256 @@ router.post('/microsoft/:clientId', async (req, res) => {
   }
 });
 
-// Process notifications asynchronously
-async function processNotificationsAsync(clientId: string, notifications: any[]) {
-  try {
-    const client = await databaseService.getClientById(clientId);
-    if (!client || !client.accessToken) {
-      console.error('Client not found or no access token:', clientId);
-      return;
+// Turn valid notifications into durable jobs
+async function enqueueNotifications(clientId: string, notifications: any[]): Promise<number> {
+  let enqueued = 0;
+
+  for (const notification of notifications) {
+    // Validate the notification
+    if (!await isAuthenticNotification(clientId, notification)) {
+      console.error('Invalid webhook notification client state');
+      continue;
+    }
+
+    // Only process new email notifications
+    if (notification.changeType === 'created' && notification.resourceData?.id) {
+      const created = await jobQueueService.enqueue(
+        EMAIL_CREATED_JOB,
+        clientId,
+        { resourceData: notification.resourceData, subscriptionId: notification.subscriptionId },
+        { dedupeKey: `${EMAIL_CREATED_JOB}:${clientId}:${notification.resourceData.id}` }
+      );
+
+      if (created) {
+        enqueued++;
+      }
     }
+  }
+
+  return enqueued;
+}
+
+// Check the notification's subscription is live, belongs to this client and carries its secret
+async function isAuthenticNotification(clientId: string, notification: any): Promise<boolean> {
+  if (typeof notification.subscriptionId !== 'string') {
+    return false;
+  }
+
+  const subscription = await databaseService.getWebhookSubscription(notification.subscriptionId);
+  if (!subscription || subscription.clientId !== clientId || !subscription.isActive) {
+    return false;
+  }
+
+  // Subscriptions created before per-subscription secrets still carry the old shared one until renewal re-keys them
+  const expected = subscription.clientState ?? LEGACY_CLIENT_STATE;
+  return microsoftGraphService.validateWebhookNotification(expected, notification.clientState);
+}
+
+// Job handler for new email notifications
+jobQueueService.registerHandler(EMAIL_CREATED_JOB, async (job) => {
+  const { resourceData } = job.payload as any;
+
+  const session = await GraphSession.forClient(job.clientId);
+  await processNewEmail(job.clientId, session, resourceData);
+});
+
+// Microsoft lifecycle notification validation endpoint
+router.get('/microsoft/:clientId/lifecycle', (req, res): void => {
+  const validationToken = req.query.validationToken;
+  
+  if (validationToken) {
+    console.log('Lifecycle validation request received for client:', req.params.clientId);
+    res.status(200).type('text/plain').send(validationToken);
+    return;
+  }
+  
+  res.status(400).json({ error: 'Missing validation token' });
+});
+
+// Microsoft lifecycle notification endpoint (reauthorizationRequired, subscriptionRemoved, missed)
+router.post('/microsoft/:clientId/lifecycle', async (req, res) => {
+  try {
+    const { clientId } = req.params;
+    const notifications = req.body.value || [];
+    let enqueued = 0;
+
+    console.log(`♻️ Received ${notifications.length} lifecycle notifications for client:`, clientId);
 
     for (const notification of notifications) {
-      try {
-        // Validate the notification
-        if (!microsoftGraphService.validateWebhookNotification(notification.clientState)) {
-          console.error('Invalid webhook notification client state');
-          continue;
-        }
-
-        // Only process new email notifications
-        if (notification.changeType === 'created' && notification.resourceData) {
-          await processNewEmail(clientId, client.accessToken, notification.resourceData);
-        }
-
-      } catch (error) {
-        console.error('Error processing individual notification:', error);
+      if (!await isAuthenticNotification(clientId, notification)) {
+        console.error('Invalid lifecycle notification client state');
+        continue;
       }
+
+      await jobQueueService.enqueue(LIFECYCLE_JOB, clientId, {
+        lifecycleEvent: notification.lifecycleEvent,
+        subscriptionId: notification.subscriptionId,
+      });
+      enqueued++;
+    }
+
+    res.status(202).json({ message: 'Lifecycle notifications received', enqueued });
+
+    if (enqueued > 0) {
+      jobQueueService.drain().catch(error => console.error('Error draining job queue:', error));
     }
 
   } catch (error) {
-    console.error('Error in processNotificationsAsync:', error);
+    console.error('Error processing lifecycle notification:', error);
+    res.status(500).json({ error: 'Failed to process lifecycle notification' });
   }
+});
+
+// Job handler for subscription lifecycle events
+jobQueueService.registerHandler(LIFECYCLE_JOB, async (job) => {
+  const { lifecycleEvent, subscriptionId } = job.payload as any;
+  const session = await GraphSession.forClient(job.clientId);
+
+  switch (lifecycleEvent) {
+    case 'reauthorizationRequired':
+      await session.run(accessToken =>
+        microsoftGraphService.reauthorizeWebhookSubscription(accessToken, subscriptionId)
+      );
+      console.log('🔑 Reauthorized subscription:', subscriptionId);
+      break;
+
+    case 'subscriptionRemoved': {
+      const subscription = await databaseService.getWebhookSubscription(subscriptionId);
+      if (!subscription || subscription.clientId !== job.clientId || !subscription.isActive) {
+        console.log('⏭️ Ignoring removal of unknown or inactive subscription:', subscriptionId);
+        return;
+      }
+
+      await subscriptionManagerService.recreateSubscription(session, subscription);
+      // Mail may have arrived while the subscription was gone
+      await queueCatchUp(job.clientId, subscriptionId);
+      break;
+    }
+
+    case 'missed':
+      await queueCatchUp(job.clientId, subscriptionId);
+      break;
+
+    default:
+      console.log('⏭️ Ignoring unknown lifecycle event:', lifecycleEvent);
+  }
+});
+
+// Lifecycle notifications come in bursts, so those for a subscription within the same window share one delta
+// sync, run once the window closes
+async function queueCatchUp(clientId: string, subscriptionId: string) {
+  const window = Math.floor(Date.now() / CATCH_UP_WINDOW_MS);
+  await jobQueueService.enqueue(CATCH_UP_JOB, clientId, {}, {
+    runAt: new Date((window + 1) * CATCH_UP_WINDOW_MS),
+    dedupeKey: `${CATCH_UP_JOB}:${clientId}:${subscriptionId}:${window}`,
+  });
 }
 
-// Process a new email
-async function processNewEmail(clientId: string, accessToken: string, resourceData: any) {
+// Job handler that catches up on missed notifications with a delta sync
+jobQueueService.registerHandler(CATCH_UP_JOB, async (job) => {
+  await mailboxSyncService.syncClient(job.clientId);
+});
+
+jobQueueService.registerHandler(STYLE_PROFILE_JOB, async (job) => {
+  await styleProfileService.buildProfile(job.clientId);
+});
+
+// Job handler that picks up after-hours email once the business opens
+jobQueueService.registerHandler(DEFERRED_DRAFT_JOB, async (job) => {
+  const { emailId } = job.payload as any;
+
+  const email = await databaseService.getEmailById(emailId);
+  if (!email) {
+    console.log('⏭️ Deferred email no longer exists:', emailId);
+    return;
+  }
+
+  const session = await GraphSession.forClient(job.clientId);
+  // Never evaluate before the scheduled opening, so clock skew with the database can't defer it again
+  const now = new Date(Math.max(Date.now(), job.runAt.getTime()));
+  await processNewEmail(job.clientId, session, { id: email.microsoftId }, { now, resumeDeferred: true });
+});
+
+// Job handler that sends an automatic reply once its undo window has closed
+jobQueueService.registerHandler(AUTO_SEND_JOB, async (job) => {
+  const { responseId, reason } = job.payload as any;
+
+  const session = await GraphSession.forClient(job.clientId);
+  await autoSendService.sendScheduled(session, responseId, reason);
+});
+
+// Job handler that acknowledges an email while the client is out of the office
+jobQueueService.registerHandler(OUT_OF_OFFICE_JOB, async (job) => {
+  const { emailId } = job.payload as any;
+
+  const email = await databaseService.getEmailById(emailId);
+  if (!email) {
+    console.log('⏭️ Email to acknowledge no longer exists:', emailId);
+    return;
+  }
+
+  const session = await GraphSession.forClient(job.clientId);
+  const settings = (email.client.aiSettings as any)?.outOfOffice;
+  await outOfOfficeService.acknowledge(session, email.client, settings, email);
+});
+
+// Process a new email, or resume one deferred until business hours
+async function processNewEmail(
+  clientId: string,
+  session: GraphSession,
+  resourceData: any,
+  options: { now?: Date; resumeDeferred?: boolean } = {}
+) {
   try {
     console.log('📨 Processing new email for client:', clientId);
 
     // Get client workspace settings
     const client = await databaseService.getClientById(clientId);
-    if (!client || !client.aiEnabled) {
-      console.log('🚫 AI disabled for client:', clientId);
+    if (!client) {
+      console.log('🚫 Client not found:', clientId);
+      return;
+    }
+
+    // Jobs can be retried, so skip emails that already made it through the pipeline
+    const existingEmail = await databaseService.getEmailByMicrosoftId(resourceData.id);
+    const resumable = ['RECEIVED', 'PROCESSING', 'ERROR', ...(options.resumeDeferred ? ['DEFERRED'] : [])];
+    if (existingEmail && !resumable.includes(existingEmail.status)) {
+      console.log('⏭️ Email already processed:', existingEmail.id);
       return;
     }
 
     // Get email details from Microsoft Graph
-    const emailData = await microsoftGraphService.getEmailById(accessToken, resourceData.id);
-    
-    // Skip if email is from the client themselves
-    if (emailData.sender.email === client.email) {
-      console.log('🚫 Skipping auto-response for own email');
+    const emailData = await session.run(accessToken =>
+      microsoftGraphService.getEmailById(accessToken, resourceData.id)
+    );
+
+    const workspace = await buildWorkspace(client);
+
+    // One engine decides, from the client's settings and rules, whether and how to answer
+    const { decision, vip, classification } = await rulesEngineService.evaluate(client, workspace.aiSettings, {
+      senderEmail: emailData.sender.email,
+      subject: emailData.subject,
+      body: emailData.body,
+      hasAttachments: !!emailData.hasAttachments,
+      // Bounces, mailing lists and other machine-sent mail never need a reply, so don't spend a model call on them
+      automatedReason: detectAutomatedMail(emailData),
+      // A deferred email was already classified when it arrived
+      classify: async () => existingEmail?.category
+        ? { category: existingEmail.category, urgency: existingEmail.urgency, sentiment: existingEmail.sentiment } as EmailClassification
+        : classifyEmail(workspace, emailData),
+    }, options.now);
+
+    if (decision.action === 'ignore') {
+      console.log(`🚫 ${decision.reason}, not processing email`);
+      // e.g. AI was switched off while the email waited for business hours
+      if (existingEmail) {
+        await databaseService.skipEmail(existingEmail.id, decision.reason);
+      }
       return;
     }
 
     // Save email to database
-    const savedEmail = await databaseService.saveEmail({
+    const savedEmail = existingEmail || await databaseService.saveEmail({
       microsoftId: emailData.id,
       clientId: clientId,
       subject: emailData.subject,
@@ -104,6 +334,8 @@ async function processNewEmail(clientId: string, accessToken: string, resourceDa
       recipients: emailData.recipients,
       threadId: emailData.conversationId,
       receivedAt: new Date(emailData.receivedDateTime),
+      isVip: vip,
+      hasAttachments: !!emailData.hasAttachments,
     });
 
     console.log('💾 Email saved to database:', savedEmail.id);
@@ -111,74 +343,175 @@ async function processNewEmail(clientId: string, accessToken: string, resourceDa
     // Update email status to processing
     await databaseService.updateEmailStatus(savedEmail.id, 'PROCESSING');
 
-    // Generate AI response using Claude
-    await generateAIResponse(client, savedEmail, emailData, accessToken);
+    if (classification && !existingEmail?.category) {
+      await databaseService.updateEmailClassification(savedEmail.id, classification);
+    }
+
+    console.log(`📐 ${decision.reason} → ${decision.action}`);
+
+    // An automatic reply needs no acknowledgement unless it is held back; see generateAIResponse
+    if (decision.outOfOfficeReply && decision.action !== 'auto-send') {
+      await queueOutOfOfficeReply(clientId, savedEmail.id);
+    }
+
+    await applyDecision(decision, client, workspace, savedEmail, emailData, session, vip);
 
   } catch (error) {
     console.error('Error processing new email:', error);
+    throw error;
+  }
+}
+
+// A job of its own, so a failed acknowledgement is retried without holding up the real reply
+async function queueOutOfOfficeReply(clientId: string, emailId: string) {
+  await jobQueueService.enqueue(OUT_OF_OFFICE_JOB, clientId, { emailId }, {
+    dedupeKey: `${OUT_OF_OFFICE_JOB}:${emailId}`,
+  });
+}
+
+// Carry out the rules engine's decision for a saved email
+async function applyDecision(
+  decision: ProcessingDecision,
+  client: any,
+  workspace: Workspace,
+  savedEmail: any,
+  emailData: any,
+  session: GraphSession,
+  vip: boolean
+) {
+  switch (decision.action) {
+    case 'skip':
+      await databaseService.skipEmail(savedEmail.id, decision.reason);
+      return;
+
+    case 'categorize': {
+      const outlookCategory = decision.outlookCategory!;
+      await session.run(accessToken =>
+        microsoftGraphService.addMessageCategory(accessToken, emailData.id, outlookCategory)
+      );
+      await databaseService.updateEmailStatus(savedEmail.id, 'CATEGORIZED');
+      return;
+    }
+
+    case 'flag':
+      await session.run(accessToken => microsoftGraphService.flagMessage(accessToken, emailData.id));
+      await databaseService.skipEmail(savedEmail.id, `${decision.reason} (flagged for follow-up)`);
+      return;
+
+    case 'move-to-folder': {
+      const folder = decision.folder!;
+      await session.run(accessToken => microsoftGraphService.moveMessage(accessToken, emailData.id, folder));
+      await databaseService.skipEmail(savedEmail.id, `${decision.reason} (moved to ${folder})`);
+      return;
+    }
+
+    case 'hold': {
+      const resumeAt = decision.resumeAt;
+      if (!resumeAt) {
+        await databaseService.skipEmail(savedEmail.id, 'Outside business hours, with no opening in the next year');
+        return;
+      }
+
+      // Queue first: if deferring the email fails, the retry finds it still processing
+      await jobQueueService.enqueue(DEFERRED_DRAFT_JOB, client.id, { emailId: savedEmail.id }, {
+        runAt: resumeAt,
+        dedupeKey: `${DEFERRED_DRAFT_JOB}:${savedEmail.id}:${resumeAt.toISOString()}`,
+      });
+      await databaseService.deferEmail(savedEmail.id, resumeAt);
+      console.log('🕒 Outside business hours, drafting deferred until', resumeAt.toISOString());
+      return;
+    }
+
+    default:
+      await generateAIResponse(client, workspace, savedEmail, emailData, session, {
+        vip,
+        ...(decision.templateCategory && { templateCategory: decision.templateCategory }),
+        ...(decision.outOfOfficeReply && { backOn: formatReturnDate(workspace.aiSettings.outOfOffice) }),
+      }, decision.action === 'auto-send' ? { reason: decision.reason, acknowledgeIfHeld: !!decision.outOfOfficeReply } : null);
+  }
+}
+
+// Build the AI workspace from the client's settings
+async function buildWorkspace(client: any) {
+  return {
+    clientId: client.id,
+    businessContext: client.businessContext || {},
+    aiSettings: client.aiSettings || {
+      responseStyle: 'professional',
+      responseLength: 'short',
+      tone: 'friendly',
+      autoRespond: false,
+      requireApproval: true,
+      replyMode: 'auto',
+      pastReplyExamples: { enabled: true, maxExamples: 3 },
+      triage: { enabled: true, actions: DEFAULT_TRIAGE_ACTIONS },
+      businessHours: {
+        enabled: false,
+        start: '09:00',
+        end: '17:00',
+        timezone: 'America/New_York'
+      }
+    },
+    templates: await databaseService.getResponseTemplates(client.id),
+    styleProfile: client.styleProfile || null
+  };
+}
+
+type Workspace = Awaited<ReturnType<typeof buildWorkspace>>;
+
+function buildEmailContext(emailData: any) {
+  return {
+    subject: emailData.subject,
+    body: emailData.body,
+    sender: emailData.sender,
+    recipients: emailData.recipients,
+    threadId: emailData.conversationId,
+    receivedAt: emailData.receivedDateTime
+  };
+}
+
+// Classify for triage and classification rules, falling back to drafting if the model call fails
+async function classifyEmail(workspace: Workspace, emailData: any): Promise<EmailClassification | null> {
+  try {
+    const classification = await claudeAIService.classifyEmail(workspace, buildEmailContext(emailData));
+    console.log(`🏷️ Classified as ${classification.category} (${classification.urgency} urgency, ${classification.sentiment})`);
+    return classification;
+  } catch (error) {
+    // An unneeded draft is cheaper than a missed reply
+    console.error('Classification failed, drafting a reply anyway:', error);
+    return null;
   }
 }
 
 // Generate AI response using Claude
 async function generateAIResponse(
   client: any, 
+  workspace: Workspace,
   savedEmail: any, 
   emailData: any, 
-  accessToken: string
+  session: GraphSession,
+  draftOptions: DraftOptions = {},
+  autoSend: { reason: string; acknowledgeIfHeld: boolean } | null = null
 ) {
   try {
-    // Build workspace from client data
-    const workspace = {
-      clientId: client.id,
-      businessContext: client.businessContext || {},
-      aiSettings: client.aiSettings || {
-        responseStyle: 'professional',
-        responseLength: 'short',
-        tone: 'friendly',
-        autoRespond: false,
-        requireApproval: true,
-        businessHours: {
-          enabled: false,
-          start: '09:00',
-          end: '17:00',
-          timezone: 'America/New_York'
-        }
-      },
-      templates: await databaseService.getResponseTemplates(client.id)
-    };
-
-    // Build email context
-    const emailContext = {
-      subject: emailData.subject,
-      body: emailData.body,
-      sender: emailData.sender,
-      recipients: emailData.recipients,
-      threadId: emailData.conversationId,
-      receivedAt: emailData.receivedDateTime
-    };
+    const emailContext = buildEmailContext(emailData);
 
-    // Check business hours if enabled
-    if (workspace.aiSettings.businessHours.enabled) {
-      const now = new Date();
-      const isBusinessHours = isWithinBusinessHours(now, workspace.aiSettings.businessHours);
-      if (!isBusinessHours) {
-        console.log('🕒 Outside business hours, skipping AI response');
-        await databaseService.updateEmailStatus(savedEmail.id, 'RECEIVED');
-        return;
-      }
-    }
+    // Earlier messages in the thread so replies follow on from what was already said
+    const conversationHistory = await conversationHistoryService.getHistory(session, client, emailData);
 
-    console.log('🤖 Generating AI response with Claude...');
+    console.log(`🤖 Generating AI response (${conversationHistory.length} prior messages)...`);
 
-    // Generate response using Claude AI
-    const aiResponse = await claudeAIService.generateEmailResponse(workspace, emailContext);
+    // Generate response with the client's LLM provider (failing over to the other one)
+    const aiResponse = await claudeAIService.generateEmailResponse(workspace, emailContext, conversationHistory, draftOptions);
 
     // Create draft reply in Outlook
-    const draft = await microsoftGraphService.createDraftReply(
-      accessToken,
-      emailData.id,
-      aiResponse.content,
-      `Re: ${emailData.subject}`
+    const draft = await session.run(accessToken =>
+      microsoftGraphService.createDraftReply(
+        accessToken,
+        emailData.id,
+        aiResponse.content,
+        { replyAll: shouldReplyAll(workspace.aiSettings.replyMode, emailData, client.email) }
+      )
     );
 
     // Save AI response to database
@@ -188,11 +521,13 @@ async function generateAIResponse(
       confidence?: number;
       templateUsed?: string;
       draftId?: string;
+      internetMessageId?: string;
     } = {
       emailId: savedEmail.id,
       responseContent: aiResponse.content,
       confidence: aiResponse.confidence,
       draftId: draft.id,
+      ...(draft.internetMessageId && { internetMessageId: draft.internetMessageId }),
     };
 
     // Only add templateUsed if it's defined
@@ -202,18 +537,40 @@ async function generateAIResponse(
 
     const savedAIResponse = await databaseService.saveAIResponse(aiResponseData);
 
-    // Update email status
-    await databaseService.updateEmailStatus(savedEmail.id, 'DRAFT_CREATED');
+    // Auto-send rules and auto-respond send the draft once it passes the checks and the undo window closes
+    if (autoSend) {
+      const outcome = await autoSendService.dispatch(session, workspace.aiSettings, savedAIResponse, aiResponse, autoSend.reason);
+      if (outcome === 'held' && autoSend.acknowledgeIfHeld) {
+        await queueOutOfOfficeReply(client.id, savedEmail.id);
+      }
+    } else {
+      await databaseService.updateEmailStatus(savedEmail.id, 'DRAFT_CREATED');
+    }
 
     console.log('✅ AI response generated and draft created:', draft.id);
     console.log('📋 AI response saved:', savedAIResponse.id);
+    console.log(`🧠 Model: ${aiResponse.provider}/${aiResponse.model}`);
     console.log('🎯 Confidence:', aiResponse.confidence);
     console.log('💭 Reasoning:', aiResponse.reasoning);
+    console.log('🏷️ Intent:', aiResponse.intent);
+    if (aiResponse.followUpQuestions.length > 0) {
+      console.log('❓ Follow-up questions:', aiResponse.followUpQuestions.join(' | '));
+    }
+    if (aiResponse.knowledgeSources) {
+      console.log('📚 Knowledge used:', aiResponse.knowledgeSources.map(source => source.title).join('; '));
+    }
 
     // Update usage stats
     await updateUsageStats(client.id, 'email_processed', 'response_generated');
 
   } catch (error) {
+    // Claude answered but never in the expected shape; retrying the job won't help
+    if (error instanceof AIOutputError) {
+      console.error('❌ Invalid AI output for email:', savedEmail.id, error.validationErrors);
+      await databaseService.updateEmailStatus(savedEmail.id, 'AI_OUTPUT_INVALID');
+      return;
+    }
+
     console.error('Error generating AI response:', error);
     
     // Update email status to error
@@ -222,39 +579,40 @@ async function generateAIResponse(
     } catch (updateError) {
       console.error('Error updating email status to ERROR:', updateError);
     }
+
+    // Let the job queue retry or dead-letter the notification
+    throw error;
   }
 }
 
-    // Helper function to check business hours
-    function isWithinBusinessHours(
-      date: Date, 
-      businessHours: any
-    ): boolean {
-      try {
-        // Default to allowing if business hours aren't configured
-        if (!businessHours || !businessHours.start || !businessHours.end) {
-          return true;
-        }
-        
-        const hour = date.getHours();
-        const startHour = parseInt(businessHours.start.split(':')[0]);
-        const endHour = parseInt(businessHours.end.split(':')[0]);
-        
-        return hour >= startHour && hour < endHour;
-      } catch (error) {
-        console.error('Error checking business hours:', error);
-        return true; // Default to allowing if there's an error
-      }
-    }
+// Decide between reply and reply-all for the client's reply mode
+function shouldReplyAll(
+  replyMode: 'reply' | 'replyAll' | 'auto' | undefined,
+  emailData: any,
+  clientEmail: string
+): boolean {
+  if (replyMode === 'replyAll') {
+    return true;
+  }
+  if (replyMode !== 'auto') {
+    return false;
+  }
+
+  // Reply-all only when someone besides the sender and the client was on the original
+  const others = [...(emailData.recipients || []), ...(emailData.ccRecipients || [])]
+    .map((recipient: any) => (recipient.email || '').toLowerCase())
+    .filter((email: string) => email && email !== clientEmail.toLowerCase() && email !== emailData.sender.email.toLowerCase());
+
+  return others.length > 0;
+}
 
 // Helper function to update usage statistics
 async function updateUsageStats(clientId: string, ...events: string[]) {
   try {
-    const today = new Date().toISOString().split('T')[0];
-    
-    // In a real implementation, you'd update the UsageStats table
-    // For now, just log the events
-    console.log(`📊 Usage stats for ${clientId} on ${today}:`, events);
+    await databaseService.incrementUsageStats(clientId, {
+      emailsProcessed: events.filter(event => event === 'email_processed').length,
+      responsesGenerated: events.filter(event => event === 'response_generated').length,
+    });
   } catch (error) {
     console.error('Error updating usage stats:', error);
   }
@@ -263,7 +621,7 @@ async function updateUsageStats(clientId: string, ...events: string[]) {
 // Temporary simple auto-response (we'll replace this with AI)
 async function createSimpleAutoResponse(
   clientId: string, 
-  accessToken: string, 
+  session: GraphSession, 
   emailId: string, 
   emailData: any
 ) {
@@ -285,10 +643,12 @@ async function createSimpleAutoResponse(
     `;
 
     // Create draft reply in Outlook
-    const draft = await microsoftGraphService.createDraftReply(
-      accessToken,
-      emailData.id,
-      responseContent
+    const draft = await session.run(accessToken =>
+      microsoftGraphService.createDraftReply(
+        accessToken,
+        emailData.id,
+        responseContent
+      )
     );
 
     // Save AI response to database
@@ -318,49 +678,127 @@ async function createSimpleAutoResponse(
   }
 }
 
-// Webhook subscription renewal endpoint (called by a scheduled job)
-router.post('/renew-subscriptions', async (req, res) => {
+// Webhook subscription renewal (called by Vercel cron or an external scheduled job)
+async function renewSubscriptions(req: express.Request, res: express.Response): Promise<void> {
   try {
     console.log('🔄 Renewing webhook subscriptions...');
     
-    const subscriptions = await databaseService.getActiveWebhookSubscriptions();
-    let renewedCount = 0;
-    let failedCount = 0;
-
-    for (const subscription of subscriptions) {
-      try {
-        // Check if subscription expires within 6 hours
-        const sixHoursFromNow = new Date(Date.now() + (6 * 60 * 60 * 1000));
-        
-        if (subscription.expirationTime < sixHoursFromNow) {
-          const client = await databaseService.getClientById(subscription.clientId);
-          
-          if (client && client.accessToken) {
-            await microsoftGraphService.renewWebhookSubscription(
-              client.accessToken,
-              subscription.subscriptionId
-            );
-            renewedCount++;
-            console.log(`✅ Renewed subscription for client: ${client.email}`);
-          }
-        }
-      } catch (error) {
-        console.error('Error renewing subscription:', error);
-        failedCount++;
-      }
-    }
+    const result = await subscriptionManagerService.renewSubscriptions();
 
     res.json({
       message: 'Subscription renewal completed',
-      renewed: renewedCount,
-      failed: failedCount,
-      total: subscriptions.length,
+      ...result,
     });
 
   } catch (error) {
     console.error('Error renewing subscriptions:', error);
     res.status(500).json({ error: 'Failed to renew subscriptions' });
   }
+}
+
+router.get('/renew-subscriptions', authenticateCron, renewSubscriptions);
+router.post('/renew-subscriptions', authenticateCron, renewSubscriptions);
+
+// Delta-sync every connected mailbox (called by Vercel cron)
+router.get('/sync-mailboxes', authenticateCron, async (req, res): Promise<void> => {
+  try {
+    const result = await mailboxSyncService.syncAllClients();
+
+    res.json({
+      message: 'Mailbox sync completed',
+      ...result,
+    });
+
+    if (result.enqueued > 0) {
+      jobQueueService.drain().catch(error => console.error('Error draining job queue:', error));
+    }
+  } catch (error) {
+    console.error('Error syncing mailboxes:', error);
+    res.status(500).json({ error: 'Failed to sync mailboxes' });
+  }
+});
+
+// Pick up edits, sends and deletes the client made to drafts in Outlook (called by Vercel cron)
+router.get('/check-drafts', authenticateCron, async (req, res): Promise<void> => {
+  try {
+    const result = await editTrackingService.checkDrafts();
+
+    res.json({
+      message: 'Draft check completed',
+      ...result,
+    });
+  } catch (error) {
+    console.error('Error checking drafts:', error);
+    res.status(500).json({ error: 'Failed to check drafts' });
+  }
+});
+
+// Drain the job queue (called by Vercel cron)
+router.get('/process-jobs', authenticateCron, async (req, res): Promise<void> => {
+  try {
+    const result = await jobQueueService.drain();
+
+    res.json({
+      message: 'Job queue drained',
+      ...result,
+    });
+  } catch (error) {
+    console.error('Error draining job queue:', error);
+    res.status(500).json({ error: 'Failed to process jobs' });
+  }
+});
+
+// List jobs, e.g. ?status=DEAD_LETTER to inspect failed notifications
+router.get('/jobs', authenticateAdmin, async (req, res): Promise<void> => {
+  try {
+    const { status, clientId, limit = '50' } = req.query;
+
+    if (status !== undefined && !Object.values(JobStatus).includes(status as JobStatus)) {
+      res.status(400).json({ error: `status must be one of ${Object.values(JobStatus).join(', ')}` });
+      return;
+    }
+
+    const take = Number(limit);
+    if (!Number.isInteger(take) || take < 1 || take > MAX_JOBS_LISTED) {
+      res.status(400).json({ error: `limit must be a whole number from 1 to ${MAX_JOBS_LISTED}` });
+      return;
+    }
+
+    const jobs = await jobQueueService.getJobs({
+      ...(status && { status: status as JobStatus }),
+      ...(clientId && { clientId: clientId as string }),
+      limit: take,
+    });
+
+    res.json({ jobs });
+  } catch (error) {
+    console.error('Error getting jobs:', error);
+    res.status(500).json({ error: 'Failed to get jobs' });
+  }
+});
+
+// Requeue a dead-lettered job
+router.post('/jobs/:jobId/retry', authenticateAdmin, async (req, res): Promise<void> => {
+  try {
+    const job = await jobQueueService.retryJob(req.params.jobId);
+    if (!job) {
+      res.status(404).json({ error: 'Job not found' });
+      return;
+    }
+
+    res.json({
+      message: 'Job requeued',
+      job,
+    });
+  } catch (error) {
+    if (error instanceof JobStateError) {
+      res.status(409).json({ error: error.message });
+      return;
+    }
+
+    console.error('Error retrying job:', error);
+    res.status(500).json({ error: 'Failed to retry job' });
+  }
 });
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { InvalidSettingsError, mergeAISettings } from './aiSettings';
+
+const stored = {
+  tone: 'friendly',
+  autoSend: { minConfidence: 0.8, delayMinutes: 5 },
+  businessHours: { enabled: true, timezone: 'UTC', start: '09:00', end: '17:00' },
+};
+
+test('keeps settings the update leaves out, field by field', () => {
+  const merged = mergeAISettings(stored, { autoSend: { delayMinutes: 10 }, replyMode: 'reply' });
+
+  assert.deepEqual(merged.autoSend, { minConfidence: 0.8, delayMinutes: 10 });
+  assert.deepEqual(merged.businessHours, stored.businessHours);
+  assert.equal(merged.tone, 'friendly');
+  assert.equal(merged.replyMode, 'reply');
+});
+
+test('rejects settings the pipeline could not use', () => {
+  const invalid = [
+    { autoSend: { minConfidence: 1.5 } },
+    { autoSend: { delayMinutes: -1 } },
+    { businessHours: { start: '9am' } },
+    { businessHours: { timezone: 'Mars/Olympus_Mons' } },
+    { businessHours: { schedule: { funday: [] } } },
+    { businessHours: { schedule: { monday: [{ start: '17:00', end: '09:00' }] } } },
+    { businessHours: { holidays: ['Christmas'] } },
+    { businessHours: { closures: [{ start: '2025-10-08T15:00:00Z', end: '2025-10-08T13:00:00Z' }] } },
+    { outOfOffice: { enabled: true, start: '2025-10-10', end: '2025-10-01', timezone: 'UTC' } },
+    { triage: { enabled: true, actions: { spam: 'delete' } } },
+    { tone: 'sarcastic' },
+    { unknownSetting: true },
+  ];
+
+  for (const update of invalid) {
+    assert.throws(() => mergeAISettings(stored, update), InvalidSettingsError, JSON.stringify(update));
+  }
+});
+
+test('allows out-of-office without dates while it is off', () => {
+  const merged = mergeAISettings(stored, { outOfOffice: { enabled: false, start: '', end: '', timezone: '' } });
+  assert.equal(merged.outOfOffice.enabled, false);
+});
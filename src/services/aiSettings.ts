@@ -0,0 +1,146 @@
+import { isValidTimeZone, validateBusinessHours } from './businessHours';
+import { EMAIL_CATEGORIES, TRIAGE_ACTIONS } from './emailClassification';
+
+// Checks for the client's AI settings, the blob the email pipeline reads from Client.aiSettings
+
+export class InvalidSettingsError extends Error {}
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const EMAIL = /^[^\s@]+@[^\s@]+$/;
+const MAX_SEND_DELAY_MINUTES = 24 * 60;
+
+type Check = (value: any) => string | null;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+function oneOf(values: readonly string[]): Check {
+  return value => values.includes(value) ? null : `must be one of ${values.join(', ')}`;
+}
+
+const boolean: Check = value => typeof value === 'boolean' ? null : 'must be true or false';
+
+function optionalString(value: unknown, field: string): string | null {
+  return value === undefined || typeof value === 'string' ? null : `${field} must be a string`;
+}
+
+function checkTimeZone(value: unknown): string | null {
+  return typeof value === 'string' && isValidTimeZone(value) ? null : 'timezone must be an IANA name, e.g. America/New_York';
+}
+
+const checkBusinessHours: Check = validateBusinessHours;
+
+const checkOutOfOffice: Check = settings => {
+  if (!isObject(settings)) return 'must be an object';
+  if (typeof settings.enabled !== 'boolean') return 'enabled must be true or false';
+
+  // Dates may be left blank while it's off
+  if (!settings.enabled && !settings.start && !settings.end) return null;
+
+  if (!DATE.test(settings.start) || !DATE.test(settings.end)) return 'start and end must be dates as YYYY-MM-DD';
+  if (settings.end < settings.start) return 'end must not be before start';
+  if (settings.returnDate !== undefined && !DATE.test(settings.returnDate)) return 'returnDate must be a date as YYYY-MM-DD';
+
+  const timezone = checkTimeZone(settings.timezone);
+  if (timezone) return timezone;
+
+  const contact = settings.alternateContact;
+  if (contact !== undefined) {
+    if (!isObject(contact)) return 'alternateContact must be an object';
+    if (contact.email && !EMAIL.test(contact.email)) return 'alternateContact.email must be an email address';
+  }
+
+  return optionalString(settings.message, 'message');
+};
+
+const checkAutoSend: Check = settings => {
+  if (!isObject(settings)) return 'must be an object';
+
+  const { minConfidence, delayMinutes } = settings;
+  if (typeof minConfidence !== 'number' || !(minConfidence >= 0 && minConfidence <= 1)) {
+    return 'minConfidence must be a number from 0 to 1';
+  }
+  if (typeof delayMinutes !== 'number' || !(delayMinutes >= 0 && delayMinutes <= MAX_SEND_DELAY_MINUTES)) {
+    return `delayMinutes must be a number from 0 to ${MAX_SEND_DELAY_MINUTES}`;
+  }
+
+  return null;
+};
+
+const checkLLM: Check = settings => {
+  if (!isObject(settings)) return 'must be an object';
+  if (!['anthropic', 'openai'].includes(settings.provider)) return 'provider must be anthropic or openai';
+  if (settings.failover !== undefined && typeof settings.failover !== 'boolean') return 'failover must be true or false';
+
+  for (const field of ['model', 'fallbackModel', 'vipModel']) {
+    const problem = optionalString(settings[field], field);
+    if (problem) return problem;
+  }
+
+  return null;
+};
+
+const checkPastReplyExamples: Check = settings => {
+  if (!isObject(settings)) return 'must be an object';
+  if (typeof settings.enabled !== 'boolean') return 'enabled must be true or false';
+
+  return Number.isInteger(settings.maxExamples) && settings.maxExamples >= 0 && settings.maxExamples <= 10
+    ? null
+    : 'maxExamples must be a whole number from 0 to 10';
+};
+
+const checkTriage: Check = settings => {
+  if (!isObject(settings)) return 'must be an object';
+  if (typeof settings.enabled !== 'boolean') return 'enabled must be true or false';
+  if (settings.actions === undefined) return null;
+  if (!isObject(settings.actions)) return 'actions must be an object keyed by category';
+
+  for (const [category, action] of Object.entries(settings.actions)) {
+    if (!(EMAIL_CATEGORIES as readonly string[]).includes(category)) return `actions has an unknown category: ${category}`;
+    if (!(TRIAGE_ACTIONS as readonly string[]).includes(action as string)) return `actions.${category} must be one of ${TRIAGE_ACTIONS.join(', ')}`;
+  }
+
+  return null;
+};
+
+const SECTIONS: Record<string, Check> = {
+  responseStyle: oneOf(['professional', 'casual', 'concise']),
+  responseLength: oneOf(['short', 'medium', 'detailed']),
+  tone: oneOf(['formal', 'friendly', 'neutral']),
+  replyMode: oneOf(['reply', 'replyAll', 'auto']),
+  autoRespond: boolean,
+  requireApproval: boolean,
+  llm: checkLLM,
+  pastReplyExamples: checkPastReplyExamples,
+  triage: checkTriage,
+  businessHours: checkBusinessHours,
+  outOfOffice: checkOutOfOffice,
+  autoSend: checkAutoSend,
+};
+
+// Apply an update to the stored settings. Settings left out of the update keep their stored values, and
+// each section is merged field by field, so saving one form can't wipe another. Throws InvalidSettingsError.
+export function mergeAISettings(stored: unknown, update: unknown): Record<string, any> {
+  if (!isObject(update)) {
+    throw new InvalidSettingsError('aiSettings must be an object');
+  }
+
+  const merged: Record<string, any> = isObject(stored) ? { ...stored } : {};
+
+  for (const [key, value] of Object.entries(update)) {
+    const check = SECTIONS[key];
+    if (!check) {
+      throw new InvalidSettingsError(`Unknown setting: ${key}`);
+    }
+
+    const next = isObject(value) && isObject(merged[key]) ? { ...merged[key], ...value } : value;
+    const problem = check(next);
+    if (problem) {
+      throw new InvalidSettingsError(`${key}: ${problem}`);
+    }
+
+    merged[key] = next;
+  }
+
+  return merged;
+}
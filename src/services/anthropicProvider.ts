@@ -0,0 +1,70 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { LLMProvider, LLMToolRequest, LLMToolResult, LLMTurn } from './llmProvider';
+
+class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+  readonly defaultModel = process.env.ANTHROPIC_MODEL || 'claude-3-5-sonnet-20241022';
+  readonly premiumModel = process.env.ANTHROPIC_PREMIUM_MODEL || 'claude-opus-4-1-20250805';
+  private client: Anthropic | null = null;
+
+  isConfigured(): boolean {
+    return !!this.getApiKey();
+  }
+
+  async callTool(request: LLMToolRequest): Promise<LLMToolResult> {
+    const response = await this.getClient().messages.create({
+      model: request.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      system: request.system,
+      tools: [{
+        name: request.tool.name,
+        description: request.tool.description,
+        input_schema: { type: 'object', ...request.tool.inputSchema },
+      }],
+      tool_choice: { type: 'tool', name: request.tool.name },
+      messages: request.turns.map(turn => this.toMessage(turn, request.tool.name)),
+    }, {
+      timeout: request.timeoutMs,
+      maxRetries: 1, // Fail over quickly rather than retrying an outage
+    });
+
+    const toolUse = response.content.find((block): block is Anthropic.ToolUseBlock => block.type === 'tool_use');
+    const text = response.content
+      .filter((block): block is Anthropic.TextBlock => block.type === 'text')
+      .map(block => block.text)
+      .join('\n');
+
+    return {
+      toolCall: toolUse ? { id: toolUse.id, input: toolUse.input } : null,
+      text,
+      truncated: response.stop_reason === 'max_tokens',
+    };
+  }
+
+  private toMessage(turn: LLMTurn, toolName: string): Anthropic.MessageParam {
+    switch (turn.type) {
+      case 'user':
+        return { role: 'user', content: turn.content };
+      case 'assistant':
+        return { role: 'assistant', content: turn.content };
+      case 'toolCall':
+        return { role: 'assistant', content: [{ type: 'tool_use', id: turn.id, name: toolName, input: turn.input }] };
+      case 'toolError':
+        return { role: 'user', content: [{ type: 'tool_result', tool_use_id: turn.id, is_error: true, content: turn.content }] };
+    }
+  }
+
+  private getClient(): Anthropic {
+    if (!this.client) {
+      this.client = new Anthropic({ apiKey: this.getApiKey() });
+    }
+    return this.client;
+  }
+
+  private getApiKey(): string | undefined {
+    return process.env.ANTHROPIC_API_KEY || process.env.CLAUDE_API_KEY;
+  }
+}
+
+export const anthropicProvider = new AnthropicProvider();
@@ -0,0 +1,31 @@
+// Get app URLs based on environment
+export const getAppUrls = () => {
+  const isProduction = process.env.NODE_ENV === 'production';
+  
+  if (isProduction) {
+    // In production, both frontend and backend are served from the same domain
+    const baseUrl = process.env.VERCEL_URL 
+      ? `https://${process.env.VERCEL_URL}`
+      : 'https://your-app-name.vercel.app'; // Update this with your actual Vercel app name
+    
+    return {
+      backend: baseUrl,
+      frontend: baseUrl, // Same URL for monolithic deployment
+    };
+  }
+  
+  // Development/Codespaces
+  const codespaceName = process.env.CODESPACE_NAME;
+  if (codespaceName) {
+    return {
+      backend: `https://${codespaceName}-3000.preview.app.github.dev`,
+      frontend: `https://${codespaceName}-3001.preview.app.github.dev`,
+    };
+  }
+  
+  // Local development
+  return {
+    backend: 'http://localhost:3000',
+    frontend: 'http://localhost:3001',
+  };
+};
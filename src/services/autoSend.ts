@@ -0,0 +1,121 @@
+import { AIResponse } from '@prisma/client';
+import { databaseService } from './database';
+import { GraphSession } from './graphSession';
+import { responseWorkflowService } from './responseWorkflow';
+import { jobQueueService, AUTO_SEND_JOB } from './jobQueue';
+import { finalContent } from './emailText';
+
+// How cautious automatic sending is: drafts below the confidence threshold are left for review,
+// and the rest wait out the undo window before they go
+export interface AutoSendSettings {
+  minConfidence: number; // 0 to 1
+  delayMinutes: number; // 0 sends straight away
+}
+
+export const DEFAULT_AUTO_SEND_SETTINGS: AutoSendSettings = { minConfidence: 0.8, delayMinutes: 5 };
+
+// The client lets replies go out without approving each one
+export function autoRespondEnabled(aiSettings: any): boolean {
+  return aiSettings?.autoRespond === true && aiSettings?.requireApproval === false;
+}
+
+export function getAutoSendSettings(aiSettings: any): AutoSendSettings {
+  const settings = aiSettings?.autoSend || {};
+  const minConfidence = Number(settings.minConfidence ?? DEFAULT_AUTO_SEND_SETTINGS.minConfidence);
+  const delayMinutes = Number(settings.delayMinutes ?? DEFAULT_AUTO_SEND_SETTINGS.delayMinutes);
+
+  return {
+    minConfidence: Number.isFinite(minConfidence) ? Math.min(Math.max(minConfidence, 0), 1) : DEFAULT_AUTO_SEND_SETTINGS.minConfidence,
+    delayMinutes: Number.isFinite(delayMinutes) ? Math.max(delayMinutes, 0) : DEFAULT_AUTO_SEND_SETTINGS.delayMinutes,
+  };
+}
+
+// Why a draft shouldn't go out unreviewed, or null if it can
+export function checkDraftForAutoSend(
+  draft: { confidence: number; followUpQuestions: string[] },
+  settings: AutoSendSettings
+): string | null {
+  if (draft.confidence < settings.minConfidence) {
+    return `Confidence ${Math.round(draft.confidence * 100)}% is below the ${Math.round(settings.minConfidence * 100)}% threshold`;
+  }
+  if (draft.followUpQuestions.length > 0) {
+    return 'The draft has open questions for the client';
+  }
+  return null;
+}
+
+class AutoSendService {
+  // Send a reply the rules chose to send automatically: held back as a draft if it fails the checks,
+  // otherwise scheduled for the end of the undo window. `reason` is the rule that chose to send.
+  async dispatch(
+    session: GraphSession,
+    aiSettings: any,
+    response: AIResponse,
+    draft: { confidence: number; followUpQuestions: string[] },
+    reason: string
+  ): Promise<'held' | 'scheduled' | 'sent'> {
+    const settings = getAutoSendSettings(aiSettings);
+    const audit = { clientId: session.clientId, emailId: response.emailId, aiResponseId: response.id, confidence: response.confidence };
+
+    const blocker = checkDraftForAutoSend(draft, settings);
+    if (blocker) {
+      await databaseService.updateEmailStatus(response.emailId, 'DRAFT_CREATED');
+      await databaseService.recordAutoSendEvent({ ...audit, event: 'held', reason: blocker });
+      console.log('✋ Auto-send held for review:', blocker);
+      return 'held';
+    }
+
+    if (settings.delayMinutes === 0) {
+      const sent = await responseWorkflowService.approveResponse(session, response);
+      await this.recordSent(session, sent, reason);
+      return 'sent';
+    }
+
+    const sendAt = new Date(Date.now() + settings.delayMinutes * 60 * 1000);
+    await jobQueueService.enqueue(AUTO_SEND_JOB, session.clientId, { responseId: response.id, reason }, {
+      runAt: sendAt,
+      dedupeKey: `${AUTO_SEND_JOB}:${response.id}`,
+    });
+    await databaseService.scheduleAIResponse(response.id, sendAt);
+    await databaseService.recordAutoSendEvent({ ...audit, event: 'scheduled', reason, scheduledFor: sendAt });
+
+    console.log('⏳ Auto-send scheduled for', sendAt.toISOString());
+    return 'scheduled';
+  }
+
+  // Job handler: send once the undo window has closed, unless the client stepped in first
+  async sendScheduled(session: GraphSession, responseId: string, reason: string): Promise<void> {
+    const response = await databaseService.getAIResponseById(responseId);
+    if (!response) {
+      console.log('⏭️ Scheduled response no longer exists:', responseId);
+      return;
+    }
+
+    if (response.status === 'SCHEDULED') {
+      const sent = await responseWorkflowService.sendScheduledResponse(session, response);
+      if (sent) {
+        await this.recordSent(session, sent, reason);
+      } else {
+        console.log('⏭️ Scheduled send was cancelled first:', responseId);
+      }
+      return;
+    }
+
+    // Cancelled, edited, rejected or sent by hand during the undo window, each of which records itself
+    console.log('⏭️ Scheduled send no longer needed:', responseId, response.status);
+  }
+
+  private async recordSent(session: GraphSession, sent: AIResponse, reason: string): Promise<void> {
+    await databaseService.recordAutoSendEvent({
+      clientId: session.clientId,
+      emailId: sent.emailId,
+      aiResponseId: sent.id,
+      event: 'sent',
+      reason,
+      confidence: sent.confidence,
+      content: finalContent(sent),
+    });
+  }
+}
+
+export const autoSendService = new AutoSendService();
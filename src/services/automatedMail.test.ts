@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectAutomatedMail } from './automatedMail';
+import { EmailData } from './microsoftGraph';
+
+const email = (overrides: Partial<EmailData> = {}): EmailData => ({
+  id: 'message-1',
+  subject: 'Question about my order',
+  body: '<p>Hi, where is my order?</p>',
+  sender: { name: 'Jane', email: 'jane@acme.com' },
+  recipients: [{ name: 'Owner', email: 'owner@client.com' }],
+  receivedDateTime: '2025-10-01T12:00:00Z',
+  conversationId: 'conversation-1',
+  ...overrides,
+});
+
+const withHeaders = (headers: Record<string, string>) =>
+  email({ headers: Object.entries(headers).map(([name, value]) => ({ name, value })) });
+
+test('leaves mail from a person alone', () => {
+  assert.equal(detectAutomatedMail(email()), null);
+  assert.equal(detectAutomatedMail(withHeaders({ 'Auto-Submitted': 'no' })), null);
+  assert.equal(detectAutomatedMail(withHeaders({ 'auto-submitted': ' No ' })), null);
+});
+
+test('skips anything Auto-Submitted other than no', () => {
+  assert.equal(detectAutomatedMail(withHeaders({ 'Auto-Submitted': 'auto-replied' })), 'Auto-Submitted: auto-replied');
+  assert.equal(detectAutomatedMail(withHeaders({ 'Auto-Submitted': 'auto-generated' })), 'Auto-Submitted: auto-generated');
+});
+
+test('recognizes delivery status notifications', () => {
+  for (const subject of ['Undeliverable: Invoice 42', 'Delivery Status Notification (Failure)', 'Mail delivery failed: returning message to sender']) {
+    assert.equal(detectAutomatedMail(email({ subject })), 'Delivery status notification', subject);
+  }
+  assert.equal(
+    detectAutomatedMail(withHeaders({ 'Content-Type': 'multipart/report; report-type=delivery-status; boundary="b"' })),
+    'Delivery status notification'
+  );
+  assert.equal(detectAutomatedMail(withHeaders({ 'X-Failed-Recipients': 'gone@acme.com' })), 'Delivery status notification');
+
+  // Only at the start of the subject
+  assert.equal(detectAutomatedMail(email({ subject: 'Re: why was my mail undeliverable?' })), null);
+});
+
+test('skips bulk Precedence but not other values', () => {
+  assert.equal(detectAutomatedMail(withHeaders({ Precedence: 'Bulk' })), 'Precedence: bulk');
+  assert.equal(detectAutomatedMail(withHeaders({ Precedence: 'list' })), 'Precedence: list');
+  assert.equal(detectAutomatedMail(withHeaders({ Precedence: 'first-class' })), null);
+});
+
+test('skips mailing lists, auto-replies and no-reply senders', () => {
+  assert.equal(detectAutomatedMail(withHeaders({ 'List-Id': '<news.acme.com>' })), 'Mailing list (List-Id)');
+  assert.equal(detectAutomatedMail(withHeaders({ 'X-Autoreply': 'yes' })), 'Auto-reply');
+  assert.equal(
+    detectAutomatedMail(email({ sender: { name: 'Acme', email: 'no-reply+orders@acme.com' } })),
+    'No-reply sender (no-reply+orders@acme.com)'
+  );
+  assert.equal(detectAutomatedMail(email({ sender: { name: 'Noreen', email: 'noreen@acme.com' } })), null);
+});
@@ -0,0 +1,50 @@
+import { EmailData } from './microsoftGraph';
+
+// Header and sender heuristics for mail that no person is waiting on a reply to
+
+const NO_REPLY_SENDER = /^(no-?reply|do-?not-?reply|mailer-daemon|postmaster|bounces?)([+._-].*)?$/i;
+const DSN_SUBJECT = /^(undeliverable|undelivered mail|delivery status notification|delivery has failed|mail delivery (failed|subsystem)|returned mail|failure notice)\b/i;
+const BULK_PRECEDENCE = ['bulk', 'list', 'junk'];
+
+// Why an email should be skipped without drafting, or null if it looks like it came from a person
+export function detectAutomatedMail(email: EmailData): string | null {
+  const header = (name: string) =>
+    email.headers?.find(h => h.name.toLowerCase() === name.toLowerCase())?.value.trim();
+
+  // RFC 3834: anything other than "no" was sent by a machine
+  const autoSubmitted = header('Auto-Submitted');
+  if (autoSubmitted && autoSubmitted.toLowerCase() !== 'no') {
+    return `Auto-Submitted: ${autoSubmitted}`;
+  }
+
+  // Delivery status notifications (bounces) come from the mail system itself
+  const contentType = header('Content-Type')?.toLowerCase() || '';
+  if (
+    (contentType.startsWith('multipart/report') && contentType.includes('delivery-status')) ||
+    header('X-Failed-Recipients') ||
+    DSN_SUBJECT.test(email.subject.trim())
+  ) {
+    return 'Delivery status notification';
+  }
+
+  if (header('List-Unsubscribe') || header('List-Id')) {
+    return `Mailing list (${header('List-Unsubscribe') ? 'List-Unsubscribe' : 'List-Id'})`;
+  }
+
+  const precedence = header('Precedence')?.toLowerCase();
+  if (precedence && BULK_PRECEDENCE.includes(precedence)) {
+    return `Precedence: ${precedence}`;
+  }
+
+  // Out-of-office replies from servers that don't set Auto-Submitted
+  if (header('X-Autoreply') || header('X-Autorespond')) {
+    return 'Auto-reply';
+  }
+
+  const localPart = email.sender.email.split('@')[0] || '';
+  if (NO_REPLY_SENDER.test(localPart)) {
+    return `No-reply sender (${email.sender.email})`;
+  }
+
+  return null;
+}
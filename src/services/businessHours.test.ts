@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BusinessHoursSettings, isOpen, nextOpening } from './businessHours';
+
+const newYork: BusinessHoursSettings = { enabled: true, timezone: 'America/New_York', start: '09:00', end: '17:30' };
+
+test('evaluates hours and minutes in the client timezone', () => {
+  // Monday 17:15 and 17:31 in New York (EDT, UTC-4)
+  assert.equal(isOpen(newYork, new Date('2025-09-29T21:15:00Z')), true);
+  assert.equal(isOpen(newYork, new Date('2025-09-29T21:31:00Z')), false);
+});
+
+test('opens on Monday after a weekend, across a DST change', () => {
+  // Friday evening before the clocks go back; Monday 09:00 is then EST (UTC-5)
+  assert.equal(nextOpening(newYork, new Date('2025-10-31T22:00:00Z'))?.toISOString(), '2025-11-03T14:00:00.000Z');
+});
+
+test('skips holidays and one-off closures', () => {
+  const settings: BusinessHoursSettings = {
+    ...newYork,
+    holidays: ['10-06', '2025-10-07'],
+    closures: [{ start: '2025-10-08T13:00:00Z', end: '2025-10-08T15:00:00Z', reason: 'Team offsite' }],
+  };
+
+  assert.equal(nextOpening(settings, new Date('2025-10-03T22:00:00Z'))?.toISOString(), '2025-10-08T15:00:00.000Z');
+});
+
+test('uses per-weekday windows when a schedule is set', () => {
+  const settings: BusinessHoursSettings = {
+    enabled: true,
+    timezone: 'Europe/Berlin',
+    schedule: { saturday: [{ start: '10:00', end: '12:00' }, { start: '08:00', end: '09:00' }] },
+  };
+
+  assert.equal(nextOpening(settings, new Date('2025-09-29T12:00:00Z'))?.toISOString(), '2025-10-04T06:00:00.000Z');
+  assert.equal(nextOpening({ ...settings, schedule: {} }, new Date('2025-09-29T12:00:00Z')), null);
+});
+
+test('treats hours it cannot read as open', () => {
+  const from = new Date('2025-10-04T12:00:00Z');
+
+  assert.equal(nextOpening({ ...newYork, start: '9am', end: '5pm' }, from), from);
+  assert.equal(nextOpening({ ...newYork, closures: [{ start: 'soon', end: 'later' }] }, from), from);
+});
@@ -0,0 +1,248 @@
+// Business hours in the client's own timezone: a weekly schedule, holidays and one-off closures
+
+export const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+export type Weekday = typeof WEEKDAYS[number];
+
+// Local wall-clock times, "HH:MM"; end may be "24:00". Overnight hours are two windows.
+export interface OpeningWindow {
+  start: string;
+  end: string;
+}
+
+export interface BusinessHoursSettings {
+  enabled: boolean;
+  timezone: string; // IANA name, e.g. "America/New_York"
+  // The same hours Monday to Friday, as saved before weekly schedules existed
+  start?: string;
+  end?: string;
+  schedule?: Partial<Record<Weekday, OpeningWindow[]>>; // Days left out are closed
+  holidays?: string[]; // Closed all day: "YYYY-MM-DD" once, "MM-DD" every year
+  closures?: Array<{ start: string; end: string; reason?: string }>; // One-off ISO timestamp ranges
+}
+
+const WORKING_DAYS: Weekday[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'];
+const MAX_DAYS_AHEAD = 366;
+const TIME = /^([01]\d|2[0-3]):[0-5]\d$|^24:00$/;
+const HOLIDAY = /^(\d{4}-)?\d{2}-\d{2}$/;
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Both ends "HH:MM" (end may be "24:00"), and the window not empty
+function checkWindow(window: any, label: string): string | null {
+  if (!isObject(window) || !TIME.test(window.start) || !TIME.test(window.end)) {
+    return `${label} must have start and end times as HH:MM`;
+  }
+  return window.start < window.end ? null : `${label} must end after it starts`;
+}
+
+// What makes the settings unusable, or null if they can be evaluated
+export function validateBusinessHours(settings: any): string | null {
+  if (!isObject(settings)) return 'must be an object';
+  if (typeof settings.enabled !== 'boolean') return 'enabled must be true or false';
+  if (typeof settings.timezone !== 'string' || !isValidTimeZone(settings.timezone)) {
+    return 'timezone must be an IANA name, e.g. America/New_York';
+  }
+
+  if (settings.schedule !== undefined) {
+    if (!isObject(settings.schedule)) return 'schedule must be an object keyed by weekday';
+
+    for (const [day, windows] of Object.entries(settings.schedule)) {
+      if (!(WEEKDAYS as readonly string[]).includes(day)) return `schedule has an unknown day: ${day}`;
+      if (!Array.isArray(windows)) return `schedule.${day} must be a list of opening hours`;
+
+      for (const [index, window] of windows.entries()) {
+        const problem = checkWindow(window, `schedule.${day}[${index}]`);
+        if (problem) return problem;
+      }
+    }
+  } else if (settings.start !== undefined || settings.end !== undefined) {
+    const problem = checkWindow(settings, 'business hours');
+    if (problem) return problem;
+  }
+
+  if (settings.holidays !== undefined) {
+    if (!Array.isArray(settings.holidays)) return 'holidays must be a list of dates';
+    const invalid = settings.holidays.find((holiday: unknown) => typeof holiday !== 'string' || !HOLIDAY.test(holiday));
+    if (invalid !== undefined) return `holidays must be YYYY-MM-DD or MM-DD: ${invalid}`;
+  }
+
+  if (settings.closures !== undefined) {
+    if (!Array.isArray(settings.closures)) return 'closures must be a list';
+
+    for (const [index, closure] of settings.closures.entries()) {
+      const start = isObject(closure) ? Date.parse(closure.start) : NaN;
+      const end = isObject(closure) ? Date.parse(closure.end) : NaN;
+      if (Number.isNaN(start) || Number.isNaN(end)) return `closures[${index}] must have start and end timestamps`;
+      if (start >= end) return `closures[${index}] must end after it starts`;
+    }
+  }
+
+  return null;
+}
+
+// Calendar date, day of the week and minutes past midnight in a timezone
+export function localTime(date: Date, timeZone: string): { date: string; day: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    day: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(part('weekday')),
+    minutes: Number(part('hour')) * 60 + Number(part('minute')),
+  };
+}
+
+// How far the timezone's wall clock is ahead of UTC at an instant, in milliseconds
+function timeZoneOffset(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value);
+
+  const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// The instant a local date and time occurs in a timezone
+export function zonedTimeToUtc(localDate: string, minutes: number, timeZone: string): Date {
+  const [year, month, day] = localDate.split('-').map(Number);
+  const wallClock = Date.UTC(year!, month! - 1, day!, 0, minutes);
+
+  // Check the offset again at the result, in case a DST change falls in between
+  const guess = wallClock - timeZoneOffset(new Date(wallClock), timeZone);
+  return new Date(wallClock - timeZoneOffset(new Date(guess), timeZone));
+}
+
+function addDays(localDate: string, days: number): string {
+  const [year, month, day] = localDate.split('-').map(Number);
+  return new Date(Date.UTC(year!, month! - 1, day! + days)).toISOString().slice(0, 10);
+}
+
+function weekdayOf(localDate: string): Weekday {
+  const [year, month, day] = localDate.split('-').map(Number);
+  return WEEKDAYS[new Date(Date.UTC(year!, month! - 1, day!)).getUTCDay()]!;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+// Opening windows for each day of the week, or null if no hours are configured
+export function getWeeklySchedule(settings: BusinessHoursSettings): Record<Weekday, OpeningWindow[]> | null {
+  if (settings.schedule) {
+    return Object.fromEntries(WEEKDAYS.map(day => [
+      day,
+      [...(settings.schedule![day] || [])].sort((a, b) => toMinutes(a.start) - toMinutes(b.start)),
+    ])) as Record<Weekday, OpeningWindow[]>;
+  }
+
+  if (settings.start && settings.end) {
+    const window = { start: settings.start, end: settings.end };
+    return Object.fromEntries(WEEKDAYS.map(day => [day, WORKING_DAYS.includes(day) ? [window] : []])) as Record<Weekday, OpeningWindow[]>;
+  }
+
+  return null;
+}
+
+export function isHoliday(settings: BusinessHoursSettings, localDate: string): boolean {
+  return (settings.holidays || []).some(holiday => holiday === localDate || holiday === localDate.slice(5));
+}
+
+// The first moment at or after `from` that the business is open: `from` itself when open now, or null
+// if it never opens in the next year. Settings that can't be evaluated count as always open.
+export function nextOpening(settings: BusinessHoursSettings | undefined, from: Date = new Date()): Date | null {
+  if (!settings?.enabled) {
+    return from;
+  }
+
+  // Saved before settings were checked, e.g. "9am"; holding every email until they're fixed would be worse
+  const problem = validateBusinessHours(settings);
+  if (problem) {
+    console.error('Unusable business hours, treating as open:', problem);
+    return from;
+  }
+
+  try {
+    const schedule = getWeeklySchedule(settings);
+    if (!schedule) {
+      return from;
+    }
+
+    const closures = (settings.closures || [])
+      .map(closure => ({ start: new Date(closure.start), end: new Date(closure.end) }))
+      .filter(closure => closure.start < closure.end);
+    const today = localTime(from, settings.timezone).date;
+
+    for (let offset = 0; offset <= MAX_DAYS_AHEAD; offset++) {
+      const date = addDays(today, offset);
+      if (isHoliday(settings, date)) {
+        continue;
+      }
+
+      for (const window of schedule[weekdayOf(date)]) {
+        const opens = zonedTimeToUtc(date, toMinutes(window.start), settings.timezone);
+        const closes = zonedTimeToUtc(date, toMinutes(window.end), settings.timezone);
+        let start = opens < from ? from : opens;
+
+        // Step past any closures covering the start of the window
+        let closure = closures.find(c => c.start <= start && start < c.end);
+        while (closure && start < closes) {
+          start = closure.end;
+          closure = closures.find(c => c.start <= start && start < c.end);
+        }
+
+        if (start < closes) {
+          return start;
+        }
+      }
+    }
+
+    return null;
+  } catch (error) {
+    console.error('Error checking business hours:', error);
+    return from;
+  }
+}
+
+export function isOpen(settings: BusinessHoursSettings | undefined, at: Date = new Date()): boolean {
+  return nextOpening(settings, at)?.getTime() === at.getTime();
+}
+
+// e.g. "Mon, Sep 29, 9:00 AM" in the client's timezone
+export function formatLocalTime(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  }).format(date);
+}
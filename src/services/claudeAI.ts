@@ -1,4 +1,32 @@
-import Anthropic from '@anthropic-ai/sdk';
+import { databaseService } from './database';
+import { extractReplyText, finalContent, htmlToText, wordEditDistance } from './emailText';
+import { StyleProfile } from './styleProfile';
+import { rankBySimilarity } from './textSimilarity';
+import { knowledgeBaseService, KnowledgeSnippet } from './knowledgeBase';
+import {
+  DRAFT_REPLY_TOOL_NAME,
+  DRAFT_REPLY_SCHEMA,
+  DraftOutput,
+  EmailIntent,
+  AIOutputError,
+  ValidationResult,
+  validateDraftOutput,
+} from './draftOutput';
+import {
+  CLASSIFY_EMAIL_TOOL_NAME,
+  CLASSIFICATION_SCHEMA,
+  EmailClassification,
+  TriageSettings,
+  validateClassification,
+} from './emailClassification';
+import { LLMProvider, LLMProviderName, LLMToolRequest, LLMTurn } from './llmProvider';
+import { anthropicProvider } from './anthropicProvider';
+import { openaiProvider } from './openaiProvider';
+import { BusinessHoursSettings, formatLocalTime, isOpen, nextOpening } from './businessHours';
+import { OutOfOfficeSettings } from './outOfOffice';
+
+// What a client can choose; the fake is only used for offline runs
+type ClientProviderName = Exclude<LLMProviderName, 'fake'>;
 
 interface ClientWorkspace {
   clientId: string;
@@ -9,19 +37,30 @@ interface ClientWorkspace {
     tone: 'formal' | 'friendly' | 'neutral';
     autoRespond: boolean;
     requireApproval: boolean;
-    businessHours: {
+    replyMode?: 'reply' | 'replyAll' | 'auto';
+    llm?: {
+      provider: ClientProviderName;
+      model?: string; // Defaults to the provider's default model
+      fallbackModel?: string; // Model to use on the other provider when failing over
+      vipModel?: string; // Defaults to the provider's premium model
+      failover?: boolean; // Defaults to true
+    };
+    pastReplyExamples?: {
       enabled: boolean;
-      start: string;
-      end: string;
-      timezone: string;
+      maxExamples: number;
     };
+    triage?: TriageSettings;
+    businessHours: BusinessHoursSettings;
+    outOfOffice?: OutOfOfficeSettings;
   };
   templates: Array<{
+    id: string;
     name: string;
     category: string;
     trigger: string;
     template: string;
   }>;
+  styleProfile?: StyleProfile | null;
 }
 
 interface EmailContext {
@@ -39,60 +78,261 @@ interface EmailContext {
   receivedAt: string;
 }
 
+// Per-email adjustments from the client's sender rules
+export interface DraftOptions {
+  vip?: boolean; // Use the premium model and take extra care
+  templateCategory?: string; // Draft from this template category
+  backOn?: string; // The client is away; the sender was told they're back on this date
+}
+
+export interface ConversationMessage {
+  direction: 'inbound' | 'outbound';
+  from: {
+    name: string;
+    email: string;
+  };
+  sentAt: string;
+  body: string;
+}
+
+interface ReplyExample {
+  subject: string;
+  inbound: string;
+  reply: string;
+}
+
+// Few-shot retrieval from the client's previously sent AI replies
+const DEFAULT_REPLY_EXAMPLES = 3;
+const MAX_REPLY_EXAMPLES = 5;
+const REPLY_EXAMPLE_CANDIDATES = 200;
+const MIN_EXAMPLE_SIMILARITY = 0.15;
+const MAX_EXAMPLE_CHARS = 1500;
+
+const MAX_KNOWLEDGE_SNIPPETS = 5;
+
+// One generation plus one repair attempt when the tool output fails validation
+const MAX_OUTPUT_ATTEMPTS = 2;
+const OUTPUT_OVERHEAD_TOKENS = 500; // Room for HTML markup and the non-reply fields
+
+const PROVIDERS: Record<ClientProviderName, LLMProvider> = {
+  anthropic: anthropicProvider,
+  openai: openaiProvider,
+};
+const PROVIDER_TIMEOUT_MS = 45 * 1000;
+
+const MAX_CLASSIFICATION_CHARS = 4000;
+const CLASSIFICATION_MAX_TOKENS = 200;
+
 interface AIResponse {
-  content: string;
+  content: string; // Reply HTML
   confidence: number;
-  templateUsed?: string;
+  templateUsed?: string; // Template ID
   reasoning: string;
+  intent: EmailIntent;
+  followUpQuestions: string[];
+  provider: LLMProviderName;
+  model: string;
+  knowledgeSources?: Array<{
+    chunkId: string;
+    documentId: string;
+    title: string;
+  }>;
 }
 
 class ClaudeAIService {
-  private anthropic: Anthropic;
-
-  constructor() {
-    this.anthropic = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY || process.env.CLAUDE_API_KEY,
-    });
-  }
-
   async generateEmailResponse(
     workspace: ClientWorkspace, 
     emailContext: EmailContext,
-    conversationHistory?: string
+    conversationHistory?: ConversationMessage[],
+    options: DraftOptions = {}
   ): Promise<AIResponse> {
     try {
+      const replyExamples = await this.findReplyExamples(workspace, emailContext);
+      const knowledge = await this.findKnowledge(workspace, emailContext);
+      const templates = this.findRelevantTemplates(workspace.templates, emailContext, options.templateCategory);
       const systemPrompt = this.buildSystemPrompt(workspace);
-      const userPrompt = this.buildUserPrompt(workspace, emailContext, conversationHistory);
-
-      const response = await this.anthropic.messages.create({
-        model: 'claude-3-5-sonnet-20241022',
-        max_tokens: this.getMaxTokens(workspace.aiSettings.responseLength),
-        temperature: this.getTemperature(workspace.aiSettings.responseStyle),
-        system: systemPrompt,
-        messages: [
-          {
-            role: 'user',
-            content: userPrompt
-          }
-        ]
-      });
+      const userPrompt = this.buildUserPrompt(workspace, emailContext, options, conversationHistory, replyExamples, knowledge, templates);
+
+      // Only templates shown in the prompt may be reported back as used
+      const templateIds = templates.map(template => template.id);
+
+      return await this.runWithFailover(workspace.aiSettings.llm, async (provider, model) => {
+        const output = await this.callToolWithRepair(provider, model, {
+          system: systemPrompt,
+          userPrompt,
+          tool: {
+            name: DRAFT_REPLY_TOOL_NAME,
+            description: 'Submit the drafted email reply',
+            inputSchema: DRAFT_REPLY_SCHEMA,
+          },
+          validate: input => validateDraftOutput(input, templateIds),
+          maxTokens: this.getMaxTokens(workspace.aiSettings.responseLength) + OUTPUT_OVERHEAD_TOKENS,
+          temperature: this.getTemperature(workspace.aiSettings.responseStyle),
+        });
+
+        return this.attachKnowledgeSources(this.toAIResponse(output, provider.name, model), knowledge);
+      }, !!options.vip);
 
-      // Handle the response content safely
-      if (response.content && response.content.length > 0) {
-        const responseContent = response.content[0];
-        if (responseContent && responseContent.type === 'text') {
-          return this.parseAIResponse((responseContent as any).text, workspace);
-        }
+    } catch (error) {
+      if (error instanceof AIOutputError) {
+        throw error;
       }
-      
-      throw new Error('No valid response content from Claude');
 
-    } catch (error) {
       console.error('Error generating AI response:', error);
       throw new Error('Failed to generate AI response');
     }
   }
 
+  // Label an inbound email so triage rules can decide whether it needs a drafted reply
+  async classifyEmail(workspace: ClientWorkspace, emailContext: EmailContext): Promise<EmailClassification> {
+    try {
+      const userPrompt = `Classify this email.
+
+FROM: ${emailContext.sender.name} (${emailContext.sender.email})
+SUBJECT: ${emailContext.subject}
+
+EMAIL CONTENT:
+${this.truncate(htmlToText(emailContext.body), MAX_CLASSIFICATION_CHARS)}`;
+
+      return await this.runWithFailover(workspace.aiSettings.llm, (provider, model) =>
+        this.callToolWithRepair(provider, model, {
+          system: `You triage the inbox of ${workspace.businessContext?.companyName || 'a small business'}. Classify each incoming email by calling ${CLASSIFY_EMAIL_TOOL_NAME}.`,
+          userPrompt,
+          tool: {
+            name: CLASSIFY_EMAIL_TOOL_NAME,
+            description: 'Submit the classification of the email',
+            inputSchema: CLASSIFICATION_SCHEMA,
+          },
+          validate: validateClassification,
+          maxTokens: CLASSIFICATION_MAX_TOKENS,
+          temperature: 0,
+        })
+      );
+    } catch (error) {
+      console.error('Error classifying email:', error);
+      throw error;
+    }
+  }
+
+  // Try each provider in the chain until one answers
+  private async runWithFailover<T>(
+    settings: ClientWorkspace['aiSettings']['llm'],
+    operation: (provider: LLMProvider, model: string) => Promise<T>,
+    premium: boolean = false
+  ): Promise<T> {
+    const providerChain = this.getProviderChain(settings, premium);
+    let lastError: unknown;
+
+    for (const [index, { provider, model }] of providerChain.entries()) {
+      try {
+        return await operation(provider, model);
+      } catch (error) {
+        // The provider answered, so another provider isn't the fix
+        if (error instanceof AIOutputError) {
+          throw error;
+        }
+
+        lastError = error;
+        const next = providerChain[index + 1];
+        console.error(`❌ ${provider.name} (${model}) failed${next ? `, failing over to ${next.provider.name}` : ''}:`, error);
+      }
+    }
+
+    throw lastError;
+  }
+
+  // The client's chosen provider first, then the other one if failover is allowed and it has credentials.
+  // Premium requests (VIP senders) use each provider's higher-quality model.
+  private getProviderChain(
+    settings: ClientWorkspace['aiSettings']['llm'],
+    premium: boolean = false
+  ): Array<{ provider: LLMProvider; model: string }> {
+    // Offline runs use the fake for every client, whatever the client has configured.
+    // Required here so production never loads it.
+    if (process.env.LLM_PROVIDER === 'fake') {
+      const { fakeLLMProvider } = require('./fakeLLMProvider') as typeof import('./fakeLLMProvider');
+      return [{ provider: fakeLLMProvider, model: premium ? fakeLLMProvider.premiumModel : fakeLLMProvider.defaultModel }];
+    }
+
+    const primaryName: ClientProviderName = settings?.provider || (process.env.LLM_PROVIDER === 'openai' ? 'openai' : 'anthropic');
+    const primary = PROVIDERS[primaryName];
+    const secondary = PROVIDERS[primaryName === 'anthropic' ? 'openai' : 'anthropic'];
+
+    const chain = [{
+      provider: primary,
+      model: premium ? settings?.vipModel || primary.premiumModel : settings?.model || primary.defaultModel,
+    }];
+    if (settings?.failover !== false && secondary.isConfigured()) {
+      chain.push({
+        provider: secondary,
+        model: premium ? secondary.premiumModel : settings?.fallbackModel || secondary.defaultModel,
+      });
+    }
+
+    return chain;
+  }
+
+  // Run the tool call against one provider, with one repair attempt if the output fails validation
+  private async callToolWithRepair<T>(
+    provider: LLMProvider,
+    model: string,
+    params: {
+      system: string;
+      userPrompt: string;
+      tool: LLMToolRequest['tool'];
+      validate: (input: unknown) => ValidationResult<T>;
+      maxTokens: number;
+      temperature: number;
+    }
+  ): Promise<T> {
+    const turns: LLMTurn[] = [{ type: 'user', content: params.userPrompt }];
+    let validationErrors: string[] = [];
+
+    for (let attempt = 1; attempt <= MAX_OUTPUT_ATTEMPTS; attempt++) {
+      const result = await provider.callTool({
+        model,
+        system: params.system,
+        turns,
+        tool: params.tool,
+        maxTokens: params.maxTokens,
+        temperature: params.temperature,
+        timeoutMs: PROVIDER_TIMEOUT_MS,
+      });
+
+      if (!result.toolCall) {
+        validationErrors = [`No ${params.tool.name} call in the response`];
+        turns.push(
+          { type: 'assistant', content: result.text || '(no content)' },
+          { type: 'user', content: `Submit your answer by calling ${params.tool.name}.` }
+        );
+        continue;
+      }
+
+      const validation = params.validate(result.toolCall.input);
+      if (validation.valid) {
+        return validation.value;
+      }
+
+      // Show the model what was wrong and let it correct itself once
+      validationErrors = validation.errors;
+      if (result.truncated) {
+        validationErrors.push('Output was cut off at the token limit; keep every field shorter');
+      }
+      console.warn(`Invalid ${params.tool.name} output from ${provider.name} (attempt ${attempt}):`, validationErrors);
+
+      turns.push(
+        { type: 'toolCall', id: result.toolCall.id, input: result.toolCall.input },
+        {
+          type: 'toolError',
+          id: result.toolCall.id,
+          content: `The output didn't match the schema:\n- ${validationErrors.join('\n- ')}\nCall ${params.tool.name} again with every field corrected.`,
+        }
+      );
+    }
+
+    throw new AIOutputError(`${provider.name} returned invalid ${params.tool.name} output`, validationErrors);
+  }
+
   private buildSystemPrompt(workspace: ClientWorkspace): string {
     const { aiSettings, businessContext } = workspace;
     
@@ -121,31 +361,136 @@ BUSINESS CONTEXT:`;
       systemPrompt += `\n- Policies: ${businessContext.policies}`;
     }
 
+    if (workspace.styleProfile) {
+      systemPrompt += this.buildStyleSection(workspace.styleProfile);
+    }
+
     systemPrompt += `
 
 RESPONSE FORMAT:
-Please respond with a JSON object in this exact format:
-{
-  "emailResponse": "Your complete email response here",
-  "confidence": 0.85,
-  "templateUsed": "template_name_or_null",
-  "reasoning": "Brief explanation of why this response was chosen"
-}
+Submit the reply by calling the ${DRAFT_REPLY_TOOL_NAME} tool. Write the reply as simple HTML, set templateId to the ID of a template you based it on (or null), and cite any knowledge base entries you used as [KB1], [KB2], ... in reasoning.
 
 IMPORTANT:
 - Always maintain the specified tone and style
 - Keep responses ${aiSettings.responseLength === 'short' ? 'brief and to the point' : aiSettings.responseLength === 'medium' ? 'moderately detailed' : 'comprehensive and thorough'}
 - Include a proper email greeting and closing
 - Never make commitments the business cannot keep
-- If unsure about specific details, ask for clarification rather than guessing`;
+- Answer from the KNOWLEDGE BASE entries when they cover the question, instead of asking for clarification
+- If unsure about specific details that the knowledge base doesn't cover, ask for clarification rather than guessing`;
 
     return systemPrompt;
   }
 
+  // Describe how the client actually writes, learned from their sent mail
+  private buildStyleSection(profile: StyleProfile): string {
+    let section = `\n\nWRITING STYLE (learned from ${profile.sampleSize} emails the client sent — write as they would):`;
+
+    if (profile.greetings.length > 0) {
+      section += `\n- Typical greetings: ${profile.greetings.map(greeting => `"${greeting}"`).join(', ')}`;
+    }
+
+    if (profile.signOffs.length > 0) {
+      section += `\n- Typical sign-offs: ${profile.signOffs.map(signOff => `"${signOff}"`).join(', ')}`;
+    }
+
+    section += `\n- Typical length: about ${profile.medianWordCount} words, ${profile.averageSentenceWords} words per sentence`;
+    section += `\n- Exclamation marks: ${profile.exclamationRate >= 0.3 ? 'used often' : profile.exclamationRate > 0 ? 'used occasionally' : 'never used'}`;
+
+    if (profile.vocabulary.length > 0) {
+      section += `\n- Words they use often: ${profile.vocabulary.join(', ')}`;
+    }
+
+    if (profile.exemplars.length > 0) {
+      section += `\n\nEXAMPLES OF THE CLIENT'S OWN EMAILS (names and contact details replaced):`;
+      profile.exemplars.forEach((exemplar, index) => {
+        section += `\n\n<example ${index + 1}>\n${exemplar}\n</example ${index + 1}>`;
+      });
+      section += `\n\nMatch the voice of these examples. Don't copy their content.`;
+    }
+
+    return section;
+  }
+
+  // Find sent replies to past emails that look like this one
+  private async findReplyExamples(workspace: ClientWorkspace, emailContext: EmailContext): Promise<ReplyExample[]> {
+    const settings = workspace.aiSettings.pastReplyExamples;
+    if (settings && !settings.enabled) {
+      return [];
+    }
+
+    const limit = Math.min(settings?.maxExamples ?? DEFAULT_REPLY_EXAMPLES, MAX_REPLY_EXAMPLES);
+    if (limit <= 0) {
+      return [];
+    }
+
+    try {
+      const candidates = await databaseService.getSentReplyExamples(workspace.clientId, REPLY_EXAMPLE_CANDIDATES);
+
+      // Replies in the same thread are already in the conversation history
+      const documents = candidates
+        .filter(email => !emailContext.threadId || email.threadId !== emailContext.threadId)
+        .filter(email => email.aiResponses.length > 0)
+        .map(email => {
+          const inbound = extractReplyText(email.body);
+          return {
+            item: { subject: email.subject, inbound, reply: extractReplyText(finalContent(email.aiResponses[0]!)) },
+            text: `${email.subject} ${inbound}`,
+          };
+        });
+
+      return rankBySimilarity(`${emailContext.subject} ${extractReplyText(emailContext.body)}`, documents, {
+        limit,
+        minScore: MIN_EXAMPLE_SIMILARITY,
+      }).map(ranked => ranked.item);
+    } catch (error) {
+      // Examples improve the reply but aren't required for one
+      console.error('Error finding past reply examples:', error);
+      return [];
+    }
+  }
+
+  // Look up the client's knowledge base for passages relevant to this email
+  private async findKnowledge(workspace: ClientWorkspace, emailContext: EmailContext): Promise<KnowledgeSnippet[]> {
+    try {
+      return await knowledgeBaseService.search(
+        workspace.clientId,
+        `${emailContext.subject} ${extractReplyText(emailContext.body)}`,
+        MAX_KNOWLEDGE_SNIPPETS
+      );
+    } catch (error) {
+      console.error('Error searching knowledge base:', error);
+      return [];
+    }
+  }
+
+  // Resolve [KB n] citations in the reasoning to the documents they came from
+  private attachKnowledgeSources(response: AIResponse, knowledge: KnowledgeSnippet[]): AIResponse {
+    const sources: NonNullable<AIResponse['knowledgeSources']> = [];
+
+    const reasoning = response.reasoning.replace(/\[KB(\d+)\]/g, (citation, index) => {
+      const snippet = knowledge[parseInt(index) - 1];
+      if (!snippet) {
+        return citation;
+      }
+
+      const title = snippet.heading ? `${snippet.documentTitle} › ${snippet.heading}` : snippet.documentTitle;
+      if (!sources.some(source => source.chunkId === snippet.chunkId)) {
+        sources.push({ chunkId: snippet.chunkId, documentId: snippet.documentId, title });
+      }
+      return `[${title}]`;
+    });
+
+    return sources.length > 0 ? { ...response, reasoning, knowledgeSources: sources } : response;
+  }
+
   private buildUserPrompt(
     workspace: ClientWorkspace, 
     emailContext: EmailContext,
-    conversationHistory?: string
+    options: DraftOptions,
+    conversationHistory?: ConversationMessage[],
+    replyExamples: ReplyExample[] = [],
+    knowledge: KnowledgeSnippet[] = [],
+    relevantTemplates: ClientWorkspace['templates'] = []
   ): string {
     let userPrompt = `Please generate an appropriate email response for the following incoming email:
 
@@ -156,86 +501,100 @@ RECEIVED: ${new Date(emailContext.receivedAt).toLocaleString()}
 EMAIL CONTENT:
 ${emailContext.body}`;
 
-    if (conversationHistory) {
-      userPrompt += `\n\nCONVERSATION HISTORY:\n${conversationHistory}`;
+    if (conversationHistory && conversationHistory.length > 0) {
+      userPrompt += `\n\nCONVERSATION HISTORY (oldest first):`;
+      conversationHistory.forEach((message, index) => {
+        const label = message.direction === 'outbound' ? 'SENT BY US' : 'RECEIVED';
+        userPrompt += `\n\n[${index + 1}] ${label} — ${message.from.name} (${message.from.email}), ${new Date(message.sentAt).toLocaleString()}:\n${message.body}`;
+      });
+      userPrompt += `\n\nReply to the incoming email above in light of this history. Don't repeat information already given, and stay consistent with anything we already said or promised.`;
+    }
+
+    if (knowledge.length > 0) {
+      userPrompt += `\n\nKNOWLEDGE BASE (the client's own documents, most relevant first):`;
+      knowledge.forEach((snippet, index) => {
+        const source = snippet.heading ? `${snippet.documentTitle} › ${snippet.heading}` : snippet.documentTitle;
+        userPrompt += `\n\n[KB${index + 1}] ${source}\n${snippet.content}`;
+      });
+      userPrompt += `\n\nUse these facts to answer the email, and cite the entries you relied on in "reasoning".`;
+    }
+
+    if (replyExamples.length > 0) {
+      userPrompt += `\n\nPAST REPLIES THE CLIENT SENT TO SIMILAR EMAILS (most similar first):`;
+      replyExamples.forEach((example, index) => {
+        userPrompt += `\n\n<example ${index + 1}>\nINCOMING (${example.subject}):\n${this.truncate(example.inbound)}\n\nREPLY SENT:\n${this.truncate(example.reply)}\n</example ${index + 1}>`;
+      });
+      userPrompt += `\n\nFollow how these were answered where the situation is the same, but only state facts that fit the email above.`;
     }
 
-    const relevantTemplates = this.findRelevantTemplates(workspace.templates, emailContext);
     if (relevantTemplates.length > 0) {
       userPrompt += `\n\nRELEVANT TEMPLATES:`;
       relevantTemplates.forEach((template, index) => {
-        userPrompt += `\n\nTemplate ${index + 1} (${template.name}):\n${template.template}`;
+        userPrompt += `\n\nTemplate ${index + 1} (${template.name}, ID: ${template.id}):\n${template.template}`;
       });
-      userPrompt += `\n\nYou may use these templates as inspiration, but adapt them to the specific context of this email.`;
+      userPrompt += options.templateCategory
+        ? `\n\nThe client answers this sender from their "${options.templateCategory}" templates. Base your reply on the best fitting one, adapted to this email.`
+        : `\n\nYou may use these templates as inspiration, but adapt them to the specific context of this email.`;
     }
 
-    if (workspace.aiSettings.businessHours.enabled) {
+    if (options.vip) {
+      userPrompt += `\n\nNOTE: This sender is one of the client's most important contacts. Take particular care with accuracy, tone and completeness.`;
+    }
+
+    if (options.backOn) {
+      userPrompt += `\n\nNOTE: The client is out of the office until ${options.backOn} and the sender has already had an automatic acknowledgement. Write the reply the client will send when they're back; don't repeat the out-of-office notice.`;
+    }
+
+    const businessHours = workspace.aiSettings.businessHours;
+    if (businessHours?.enabled && !isOpen(businessHours, new Date(emailContext.receivedAt))) {
+      userPrompt += `\n\nNOTE: This email was received outside business hours. Consider mentioning response times or business hours if appropriate.`;
+
+      // Still closed while drafting, e.g. for an auto-reply
       const now = new Date();
-      const isBusinessHours = this.isWithinBusinessHours(now, workspace.aiSettings.businessHours);
-      if (!isBusinessHours) {
-        userPrompt += `\n\nNOTE: This email was received outside business hours. Consider mentioning response times or business hours if appropriate.`;
+      const opens = nextOpening(businessHours, now);
+      if (opens && opens > now) {
+        userPrompt += ` The business reopens ${formatLocalTime(opens, businessHours.timezone)} (${businessHours.timezone}).`;
       }
     }
 
     return userPrompt;
   }
 
-  private parseAIResponse(responseText: string, workspace: ClientWorkspace): AIResponse {
-    try {
-      const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        return {
-          content: responseText.trim(),
-          confidence: 0.7,
-          reasoning: 'Response parsed without structured format'
-        };
-      }
-
-      const parsedResponse = JSON.parse(jsonMatch[0]);
-      
-      return {
-        content: parsedResponse.emailResponse || responseText.trim(),
-        confidence: parsedResponse.confidence || 0.7,
-        templateUsed: parsedResponse.templateUsed || undefined,
-        reasoning: parsedResponse.reasoning || 'AI-generated response'
-      };
-    } catch (error) {
-      console.warn('Failed to parse structured AI response, using fallback');
-      return {
-        content: responseText.trim(),
-        confidence: 0.6,
-        reasoning: 'Response parsing failed, using raw content'
-      };
-    }
+  private toAIResponse(output: DraftOutput, provider: LLMProviderName, model: string): AIResponse {
+    return {
+      content: output.replyHtml,
+      confidence: output.confidence,
+      ...(output.templateId && { templateUsed: output.templateId }),
+      reasoning: output.reasoning,
+      intent: output.intent,
+      followUpQuestions: output.followUpQuestions,
+      provider,
+      model,
+    };
   }
 
-  private findRelevantTemplates(templates: any[], emailContext: EmailContext): any[] {
+  private findRelevantTemplates(templates: any[], emailContext: EmailContext, category?: string): any[] {
     if (!templates || templates.length === 0) return [];
 
     const emailText = `${emailContext.subject} ${emailContext.body}`.toLowerCase();
-    
-    return templates.filter(template => {
+    const isTriggered = (template: any) => {
       if (!template.trigger) return false;
       
       const triggers = template.trigger.toLowerCase().split(',').map((t: string) => t.trim());
       return triggers.some((trigger: string) => emailText.includes(trigger));
-    }).slice(0, 3);
-  }
+    };
 
-  private isWithinBusinessHours(date: Date, businessHours: any): boolean {
-    try {
-      if (!businessHours || !businessHours.start || !businessHours.end) {
-        return true;
-      }
-      
-      const hour = date.getHours();
-      const startHour = parseInt(businessHours.start.split(':')[0]);
-      const endHour = parseInt(businessHours.end.split(':')[0]);
-      
-      return hour >= startHour && hour < endHour;
-    } catch (error) {
-      return true;
+    // A sender routed to a category gets that category's templates, triggered ones first
+    if (category) {
+      const inCategory = templates.filter(template => template.category === category);
+      return [...inCategory.filter(isTriggered), ...inCategory.filter(template => !isTriggered(template))].slice(0, 3);
     }
+    
+    return templates.filter(isTriggered).slice(0, 3);
+  }
+
+  private truncate(text: string, maxChars: number = MAX_EXAMPLE_CHARS): string {
+    return text.length > maxChars ? `${text.slice(0, maxChars)}…` : text;
   }
 
   private getMaxTokens(length: string): number {
@@ -287,12 +646,30 @@ ${emailContext.body}`;
     return true;
   }
 
+  // Store how far the client's final text moved from what we generated
   async recordUserEdit(
-    originalResponse: string, 
-    editedResponse: string, 
-    workspace: ClientWorkspace
+    aiResponseId: string,
+    clientId: string,
+    originalResponse: string,
+    editedResponse: string,
+    source: 'dashboard' | 'outlook'
   ): Promise<void> {
-    console.log('User edit recorded for workspace:', workspace.clientId);
+    const original = extractReplyText(originalResponse);
+    const edited = extractReplyText(editedResponse);
+    const editDistance = wordEditDistance(original, edited);
+    const longest = Math.max(original.split(/\s+/).filter(Boolean).length, edited.split(/\s+/).filter(Boolean).length);
+
+    await databaseService.saveResponseEdit({
+      aiResponseId,
+      clientId,
+      originalContent: originalResponse,
+      finalContent: editedResponse,
+      editDistance,
+      similarity: longest === 0 ? 1 : 1 - editDistance / longest,
+      source,
+    });
+
+    console.log(`✏️ User edit recorded for client: ${clientId} (${editDistance} words changed, via ${source})`);
   }
 }
 
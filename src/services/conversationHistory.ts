@@ -0,0 +1,111 @@
+import { databaseService } from './database';
+import { microsoftGraphService } from './microsoftGraph';
+import { GraphSession } from './graphSession';
+import { ConversationMessage } from './claudeAI';
+import { extractReplyText, finalContent } from './emailText';
+
+// Rough budget for prior messages in the prompt (~4 characters per token)
+const HISTORY_TOKEN_BUDGET = 3000;
+const CHARS_PER_TOKEN = 4;
+const MAX_MESSAGE_CHARS = 2000;
+
+class ConversationHistoryService {
+  // Build the prior messages in an email's conversation, trimmed to the token budget
+  async getHistory(
+    session: GraphSession,
+    client: { id: string; email: string; name: string },
+    emailData: { id: string; conversationId: string }
+  ): Promise<ConversationMessage[]> {
+    if (!emailData.conversationId) {
+      return [];
+    }
+
+    const history: ConversationMessage[] = [];
+    // Graph IDs and Message-ID headers; a sent reply has a new Graph ID in Sent Items but keeps its Message-ID
+    const seenIds = new Set<string>([emailData.id]);
+
+    // Graph has everything in the mailbox, including replies the client wrote themselves
+    try {
+      const graphMessages = await session.run(accessToken =>
+        microsoftGraphService.getConversationMessages(accessToken, emailData.conversationId)
+      );
+
+      for (const message of graphMessages) {
+        if (seenIds.has(message.id)) {
+          continue;
+        }
+
+        seenIds.add(message.id);
+        if (message.internetMessageId) {
+          seenIds.add(message.internetMessageId);
+        }
+        history.push({
+          direction: message.sender.email.toLowerCase() === client.email.toLowerCase() ? 'outbound' : 'inbound',
+          from: message.sender,
+          sentAt: message.receivedDateTime,
+          body: this.cleanBody(message.body),
+        });
+      }
+    } catch (error) {
+      // History improves the reply but isn't required for one
+      console.error('Error fetching conversation from Graph, falling back to stored emails:', error);
+    }
+
+    // Our own rows cover messages Graph no longer returns and replies we sent on the client's behalf
+    const threadEmails = await databaseService.getThreadEmails(client.id, emailData.conversationId);
+    for (const email of threadEmails) {
+      if (!seenIds.has(email.microsoftId)) {
+        seenIds.add(email.microsoftId);
+        history.push({
+          direction: 'inbound',
+          from: { name: email.sender, email: email.senderEmail },
+          sentAt: email.receivedAt.toISOString(),
+          body: this.cleanBody(email.body),
+        });
+      }
+
+      for (const response of email.aiResponses) {
+        const seen = [response.internetMessageId, response.draftId].some(id => id && seenIds.has(id));
+        if (response.status !== 'SENT' || seen) {
+          continue;
+        }
+
+        history.push({
+          direction: 'outbound',
+          from: { name: client.name, email: client.email },
+          sentAt: (response.sentAt || response.createdAt).toISOString(),
+          body: this.cleanBody(finalContent(response)),
+        });
+      }
+    }
+
+    history.sort((a, b) => a.sentAt.localeCompare(b.sentAt));
+    return this.trimToBudget(history);
+  }
+
+  // Keep the most recent messages that fit in the budget
+  private trimToBudget(history: ConversationMessage[]): ConversationMessage[] {
+    const budgetChars = HISTORY_TOKEN_BUDGET * CHARS_PER_TOKEN;
+    const trimmed: ConversationMessage[] = [];
+    let usedChars = 0;
+
+    for (let i = history.length - 1; i >= 0; i--) {
+      const message = history[i]!;
+      if (usedChars + message.body.length > budgetChars) {
+        break;
+      }
+
+      usedChars += message.body.length;
+      trimmed.unshift(message);
+    }
+
+    return trimmed;
+  }
+
+  private cleanBody(body: string): string {
+    const text = extractReplyText(body);
+    return text.length > MAX_MESSAGE_CHARS ? `${text.slice(0, MAX_MESSAGE_CHARS)}…` : text;
+  }
+}
+
+export const conversationHistoryService = new ConversationHistoryService();
@@ -1,4 +1,4 @@
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient, ResponseStatus } from '@prisma/client';
 import crypto from 'crypto';
 
 class DatabaseService {
@@ -100,7 +100,13 @@ class DatabaseService {
     }
   }
 
-  async updateClientTokens(clientId: string, accessToken: string, refreshToken: string, expiresAt: Date) {
+  async updateClientTokens(
+    clientId: string,
+    accessToken: string,
+    refreshToken: string,
+    expiresAt: Date,
+    homeAccountId?: string
+  ) {
     try {
       return await this.prisma.client.update({
         where: { id: clientId },
@@ -108,6 +114,7 @@ class DatabaseService {
           accessToken: this.encrypt(accessToken),
           refreshToken: this.encrypt(refreshToken),
           tokenExpiry: expiresAt,
+          ...(homeAccountId !== undefined && { homeAccountId }),
         },
       });
     } catch (error) {
@@ -116,6 +123,81 @@ class DatabaseService {
     }
   }
 
+  async getConnectedClients() {
+    try {
+      return await this.prisma.client.findMany({
+        where: {
+          isActive: true,
+          aiEnabled: true,
+          homeAccountId: { not: null },
+        },
+        select: { id: true, email: true },
+      });
+    } catch (error) {
+      console.error('Error getting connected clients:', error);
+      throw error;
+    }
+  }
+
+  async updateClientDeltaLink(clientId: string, deltaLink: string) {
+    try {
+      return await this.prisma.client.update({
+        where: { id: clientId },
+        data: {
+          deltaLink,
+          lastSyncedAt: new Date(),
+        },
+      });
+    } catch (error) {
+      console.error('Error updating client delta link:', error);
+      throw error;
+    }
+  }
+
+  async updateClientStyleProfile(clientId: string, styleProfile: any) {
+    try {
+      return await this.prisma.client.update({
+        where: { id: clientId },
+        data: {
+          styleProfile,
+          styleProfiledAt: new Date(),
+        },
+      });
+    } catch (error) {
+      console.error('Error updating client style profile:', error);
+      throw error;
+    }
+  }
+
+  // MSAL token cache operations
+  async getTokenCache(clientId: string): Promise<string | null> {
+    try {
+      const client = await this.prisma.client.findUnique({
+        where: { id: clientId },
+        select: { tokenCache: true },
+      });
+
+      return client?.tokenCache ? this.decrypt(client.tokenCache) : null;
+    } catch (error) {
+      console.error('Error getting token cache:', error);
+      throw error;
+    }
+  }
+
+  async saveTokenCache(clientId: string, serializedCache: string | null) {
+    try {
+      return await this.prisma.client.update({
+        where: { id: clientId },
+        data: {
+          tokenCache: serializedCache ? this.encrypt(serializedCache) : null,
+        },
+      });
+    } catch (error) {
+      console.error('Error saving token cache:', error);
+      throw error;
+    }
+  }
+
   // Email operations
   async saveEmail(data: {
     microsoftId: string;
@@ -127,6 +209,8 @@ class DatabaseService {
     recipients: any[];
     threadId?: string;
     receivedAt: Date;
+    isVip?: boolean;
+    hasAttachments?: boolean;
   }) {
     try {
       return await this.prisma.email.create({
@@ -156,6 +240,34 @@ class DatabaseService {
     }
   }
 
+  async getEmailByMicrosoftId(microsoftId: string) {
+    try {
+      return await this.prisma.email.findUnique({
+        where: { microsoftId },
+      });
+    } catch (error) {
+      console.error('Error getting email by Microsoft ID:', error);
+      throw error;
+    }
+  }
+
+  async getThreadEmails(clientId: string, threadId: string) {
+    try {
+      return await this.prisma.email.findMany({
+        where: { clientId, threadId },
+        include: {
+          aiResponses: {
+            orderBy: { createdAt: 'asc' },
+          },
+        },
+        orderBy: { receivedAt: 'asc' },
+      });
+    } catch (error) {
+      console.error('Error getting thread emails:', error);
+      throw error;
+    }
+  }
+
   async updateEmailStatus(emailId: string, status: any) {
     try {
       return await this.prisma.email.update({
@@ -171,6 +283,54 @@ class DatabaseService {
     }
   }
 
+  async skipEmail(emailId: string, skipReason: string) {
+    try {
+      return await this.prisma.email.update({
+        where: { id: emailId },
+        data: {
+          status: 'SKIPPED',
+          skipReason,
+          processedAt: new Date(),
+        },
+      });
+    } catch (error) {
+      console.error('Error skipping email:', error);
+      throw error;
+    }
+  }
+
+  // Hold an email until the business opens; the deferred job drafts it then
+  async deferEmail(emailId: string, deferredUntil: Date) {
+    try {
+      return await this.prisma.email.update({
+        where: { id: emailId },
+        data: {
+          status: 'DEFERRED',
+          deferredUntil,
+        },
+      });
+    } catch (error) {
+      console.error('Error deferring email:', error);
+      throw error;
+    }
+  }
+
+  async updateEmailClassification(emailId: string, classification: {
+    category: string;
+    urgency: string;
+    sentiment: string;
+  }) {
+    try {
+      return await this.prisma.email.update({
+        where: { id: emailId },
+        data: classification,
+      });
+    } catch (error) {
+      console.error('Error updating email classification:', error);
+      throw error;
+    }
+  }
+
   // AI Response operations
   async saveAIResponse(data: {
     emailId: string;
@@ -178,6 +338,7 @@ class DatabaseService {
     confidence?: number;
     templateUsed?: string;
     draftId?: string;
+    internetMessageId?: string;
   }) {
     try {
       return await this.prisma.aIResponse.create({
@@ -209,6 +370,237 @@ class DatabaseService {
     }
   }
 
+  async getAIResponseById(responseId: string) {
+    try {
+      return await this.prisma.aIResponse.findUnique({
+        where: { id: responseId },
+        include: {
+          email: true,
+        },
+      });
+    } catch (error) {
+      console.error('Error getting AI response by ID:', error);
+      throw error;
+    }
+  }
+
+  async updateAIResponse(responseId: string, data: {
+    editedContent?: string;
+    status?: any;
+    userModified?: boolean;
+    sentAt?: Date;
+    scheduledSendAt?: Date | null;
+  }) {
+    try {
+      return await this.prisma.aIResponse.update({
+        where: { id: responseId },
+        data,
+      });
+    } catch (error) {
+      console.error('Error updating AI response:', error);
+      throw error;
+    }
+  }
+
+  // Change a response's status only if it is still in one of `from`; returns whether this call made the change
+  async transitionAIResponse(responseId: string, from: ResponseStatus[], data: {
+    status: ResponseStatus;
+    scheduledSendAt?: Date | null;
+    editedContent?: string;
+    userModified?: boolean;
+    sentAt?: Date;
+  }): Promise<boolean> {
+    try {
+      const { count } = await this.prisma.aIResponse.updateMany({
+        where: { id: responseId, status: { in: from } },
+        data,
+      });
+      return count === 1;
+    } catch (error) {
+      console.error('Error transitioning AI response:', error);
+      throw error;
+    }
+  }
+
+  // Hold a response for automatic sending once the undo window closes
+  async scheduleAIResponse(responseId: string, scheduledSendAt: Date) {
+    try {
+      const [response] = await this.prisma.$transaction([
+        this.prisma.aIResponse.update({
+          where: { id: responseId },
+          data: { status: 'SCHEDULED', scheduledSendAt },
+        }),
+        this.prisma.email.updateMany({
+          where: { aiResponses: { some: { id: responseId } } },
+          data: { status: 'SEND_SCHEDULED' },
+        }),
+      ]);
+      return response;
+    } catch (error) {
+      console.error('Error scheduling AI response:', error);
+      throw error;
+    }
+  }
+
+  async recordAutoSendEvent(data: {
+    clientId: string;
+    emailId: string;
+    aiResponseId?: string;
+    event: 'held' | 'scheduled' | 'sent' | 'cancelled';
+    reason: string;
+    confidence?: number | null;
+    scheduledFor?: Date;
+    content?: string;
+  }) {
+    try {
+      return await this.prisma.autoSendEvent.create({ data });
+    } catch (error) {
+      console.error('Error recording auto-send event:', error);
+      throw error;
+    }
+  }
+
+  // Newest first, with the email each reply answered
+  async getAutoSendEvents(clientId: string, limit: number = 50) {
+    try {
+      return await this.prisma.autoSendEvent.findMany({
+        where: { clientId },
+        include: {
+          email: { select: { subject: true, sender: true, senderEmail: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+      });
+    } catch (error) {
+      console.error('Error getting auto-send events:', error);
+      throw error;
+    }
+  }
+
+  // Responses whose Outlook draft hasn't been sent or rejected yet
+  async getOpenDraftResponses() {
+    try {
+      return await this.prisma.aIResponse.findMany({
+        where: {
+          status: { in: ['DRAFT_CREATED', 'USER_MODIFIED', 'SCHEDULED'] },
+          draftId: { not: null },
+        },
+        include: {
+          email: true,
+        },
+      });
+    } catch (error) {
+      console.error('Error getting open draft responses:', error);
+      throw error;
+    }
+  }
+
+  // Past inbound emails whose AI reply was sent, newest first
+  async getSentReplyExamples(clientId: string, limit: number) {
+    try {
+      return await this.prisma.email.findMany({
+        where: {
+          clientId,
+          aiResponses: { some: { status: 'SENT' } },
+        },
+        select: {
+          id: true,
+          subject: true,
+          body: true,
+          threadId: true,
+          aiResponses: {
+            where: { status: 'SENT' },
+            select: { responseContent: true, editedContent: true },
+            orderBy: { sentAt: 'desc' },
+            take: 1,
+          },
+        },
+        orderBy: { receivedAt: 'desc' },
+        take: limit,
+      });
+    } catch (error) {
+      console.error('Error getting sent reply examples:', error);
+      throw error;
+    }
+  }
+
+  // Edit tracking
+  async saveResponseEdit(data: {
+    aiResponseId: string;
+    clientId: string;
+    originalContent: string;
+    finalContent: string;
+    editDistance: number;
+    similarity: number;
+    source: string;
+  }) {
+    try {
+      return await this.prisma.responseEdit.create({
+        data,
+      });
+    } catch (error) {
+      console.error('Error saving response edit:', error);
+      throw error;
+    }
+  }
+
+  async getEditMetrics(clientId: string) {
+    try {
+      const [aggregate, bySource] = await Promise.all([
+        this.prisma.responseEdit.aggregate({
+          where: { clientId },
+          _count: { _all: true },
+          _avg: { editDistance: true, similarity: true },
+        }),
+        this.prisma.responseEdit.groupBy({
+          by: ['source'],
+          where: { clientId },
+          _count: { _all: true },
+        }),
+      ]);
+
+      return {
+        totalEdits: aggregate._count._all,
+        averageEditDistance: aggregate._avg.editDistance || 0,
+        averageSimilarity: aggregate._avg.similarity ?? 1,
+        bySource: Object.fromEntries(bySource.map(group => [group.source, group._count._all])),
+      };
+    } catch (error) {
+      console.error('Error getting edit metrics:', error);
+      throw error;
+    }
+  }
+
+  // Usage statistics
+  async incrementUsageStats(clientId: string, counts: {
+    emailsProcessed?: number;
+    responsesGenerated?: number;
+    responsesSent?: number;
+    responsesEdited?: number;
+  }) {
+    try {
+      const today = new Date(new Date().toISOString().split('T')[0]!);
+
+      return await this.prisma.usageStats.upsert({
+        where: { clientId_date: { clientId, date: today } },
+        create: {
+          clientId,
+          date: today,
+          ...counts,
+        },
+        update: {
+          emailsProcessed: { increment: counts.emailsProcessed || 0 },
+          responsesGenerated: { increment: counts.responsesGenerated || 0 },
+          responsesSent: { increment: counts.responsesSent || 0 },
+          responsesEdited: { increment: counts.responsesEdited || 0 },
+        },
+      });
+    } catch (error) {
+      console.error('Error incrementing usage stats:', error);
+      throw error;
+    }
+  }
+
   // Template operations
   async getResponseTemplates(clientId: string) {
     try {
@@ -244,16 +636,212 @@ class DatabaseService {
     }
   }
 
+  // Knowledge base operations
+  async createKnowledgeDocument(data: {
+    clientId: string;
+    title: string;
+    filename?: string;
+    contentType: string;
+    content: string;
+    chunks: Array<{ heading: string | null; content: string }>;
+  }) {
+    try {
+      const { chunks, ...document } = data;
+
+      return await this.prisma.knowledgeDocument.create({
+        data: {
+          ...document,
+          chunks: {
+            create: chunks.map((chunk, position) => ({
+              clientId: data.clientId,
+              position,
+              ...chunk,
+            })),
+          },
+        },
+        include: {
+          _count: { select: { chunks: true } },
+        },
+      });
+    } catch (error) {
+      console.error('Error creating knowledge document:', error);
+      throw error;
+    }
+  }
+
+  async getKnowledgeDocuments(clientId: string) {
+    try {
+      return await this.prisma.knowledgeDocument.findMany({
+        where: { clientId },
+        select: {
+          id: true,
+          title: true,
+          filename: true,
+          contentType: true,
+          createdAt: true,
+          _count: { select: { chunks: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+    } catch (error) {
+      console.error('Error getting knowledge documents:', error);
+      throw error;
+    }
+  }
+
+  async getKnowledgeChunks(clientId: string) {
+    try {
+      return await this.prisma.knowledgeChunk.findMany({
+        where: { clientId },
+        include: {
+          document: { select: { title: true } },
+        },
+      });
+    } catch (error) {
+      console.error('Error getting knowledge chunks:', error);
+      throw error;
+    }
+  }
+
+  async deleteKnowledgeDocument(clientId: string, documentId: string) {
+    try {
+      const result = await this.prisma.knowledgeDocument.deleteMany({
+        where: { id: documentId, clientId },
+      });
+      return result.count > 0;
+    } catch (error) {
+      console.error('Error deleting knowledge document:', error);
+      throw error;
+    }
+  }
+
+  // Sender rules
+  async createSenderRule(data: {
+    clientId: string;
+    pattern: string;
+    action: string;
+    templateCategory?: string;
+  }) {
+    try {
+      return await this.prisma.senderRule.create({ data });
+    } catch (error) {
+      console.error('Error creating sender rule:', error);
+      throw error;
+    }
+  }
+
+  async getSenderRules(clientId: string) {
+    try {
+      return await this.prisma.senderRule.findMany({
+        where: { clientId },
+        orderBy: { createdAt: 'desc' },
+      });
+    } catch (error) {
+      console.error('Error getting sender rules:', error);
+      throw error;
+    }
+  }
+
+  async deleteSenderRule(clientId: string, ruleId: string) {
+    try {
+      const result = await this.prisma.senderRule.deleteMany({
+        where: { id: ruleId, clientId },
+      });
+      return result.count > 0;
+    } catch (error) {
+      console.error('Error deleting sender rule:', error);
+      throw error;
+    }
+  }
+
+  async getProcessingRules(clientId: string) {
+    try {
+      return await this.prisma.processingRule.findMany({
+        where: { clientId },
+        orderBy: { position: 'asc' },
+      });
+    } catch (error) {
+      console.error('Error getting processing rules:', error);
+      throw error;
+    }
+  }
+
+  // Replace the client's rule set, keeping the given order
+  async replaceProcessingRules(clientId: string, rules: Array<{
+    name: string;
+    enabled: boolean;
+    conditions: Prisma.InputJsonValue;
+    action: string;
+    templateCategory?: string;
+    folder?: string;
+  }>) {
+    try {
+      await this.prisma.$transaction([
+        this.prisma.processingRule.deleteMany({ where: { clientId } }),
+        this.prisma.processingRule.createMany({
+          data: rules.map((rule, position) => ({ ...rule, clientId, position })),
+        }),
+      ]);
+
+      return await this.getProcessingRules(clientId);
+    } catch (error) {
+      console.error('Error replacing processing rules:', error);
+      throw error;
+    }
+  }
+
+  // Reserve the one out-of-office reply a sender gets per period. Also true when a retry of the
+  // same email finds its own reservation not yet sent.
+  async claimOutOfOfficeReply(data: { clientId: string; emailId: string; senderEmail: string; periodStart: Date }) {
+    try {
+      const senderEmail = data.senderEmail.toLowerCase();
+      const result = await this.prisma.outOfOfficeReply.createMany({
+        data: [{ ...data, senderEmail }],
+        skipDuplicates: true,
+      });
+      if (result.count > 0) {
+        return true;
+      }
+
+      const existing = await this.prisma.outOfOfficeReply.findUnique({
+        where: {
+          clientId_senderEmail_periodStart: { clientId: data.clientId, senderEmail, periodStart: data.periodStart },
+        },
+      });
+      return existing?.emailId === data.emailId && !existing.sentAt;
+    } catch (error) {
+      console.error('Error claiming out-of-office reply:', error);
+      throw error;
+    }
+  }
+
+  async markOutOfOfficeReplySent(emailId: string) {
+    try {
+      return await this.prisma.outOfOfficeReply.update({
+        where: { emailId },
+        data: { sentAt: new Date() },
+      });
+    } catch (error) {
+      console.error('Error marking out-of-office reply sent:', error);
+      throw error;
+    }
+  }
+
   // Webhook subscriptions
   async saveWebhookSubscription(data: {
     clientId: string;
     subscriptionId: string;
     resource: string;
+    notificationUrl?: string;
+    clientState?: string;
     expirationTime: Date;
   }) {
     try {
       return await this.prisma.webhookSubscription.create({
-        data,
+        data: {
+          ...data,
+          clientState: data.clientState ? this.encrypt(data.clientState) : null,
+        },
       });
     } catch (error) {
       console.error('Error saving webhook subscription:', error);
@@ -272,6 +860,67 @@ class DatabaseService {
     }
   }
 
+  async getWebhookSubscription(subscriptionId: string) {
+    try {
+      const subscription = await this.prisma.webhookSubscription.findUnique({
+        where: { subscriptionId },
+      });
+
+      if (subscription && subscription.clientState) {
+        subscription.clientState = this.decrypt(subscription.clientState);
+      }
+
+      return subscription;
+    } catch (error) {
+      console.error('Error getting webhook subscription:', error);
+      throw error;
+    }
+  }
+
+  async getWebhookSubscriptionsForClient(clientId: string) {
+    try {
+      return await this.prisma.webhookSubscription.findMany({
+        where: { clientId, isActive: true },
+        orderBy: { createdAt: 'desc' },
+      });
+    } catch (error) {
+      console.error('Error getting webhook subscriptions for client:', error);
+      throw error;
+    }
+  }
+
+  async recordWebhookSubscriptionRenewal(subscriptionId: string, expirationTime: Date) {
+    try {
+      return await this.prisma.webhookSubscription.update({
+        where: { subscriptionId },
+        data: {
+          expirationTime,
+          lastRenewedAt: new Date(),
+          renewalFailures: 0,
+          lastError: null,
+        },
+      });
+    } catch (error) {
+      console.error('Error recording webhook subscription renewal:', error);
+      throw error;
+    }
+  }
+
+  async recordWebhookSubscriptionFailure(subscriptionId: string, message: string) {
+    try {
+      return await this.prisma.webhookSubscription.update({
+        where: { subscriptionId },
+        data: {
+          renewalFailures: { increment: 1 },
+          lastError: message,
+        },
+      });
+    } catch (error) {
+      console.error('Error recording webhook subscription failure:', error);
+      throw error;
+    }
+  }
+
   async deactivateWebhookSubscription(subscriptionId: string) {
     try {
       return await this.prisma.webhookSubscription.update({
@@ -0,0 +1,115 @@
+// Structured output contract for reply generation
+
+export const DRAFT_REPLY_TOOL_NAME = 'draft_email_reply';
+
+export const EMAIL_INTENTS = [
+  'question',
+  'request',
+  'scheduling',
+  'complaint',
+  'sales',
+  'support',
+  'information',
+  'other',
+] as const;
+
+export type EmailIntent = typeof EMAIL_INTENTS[number];
+
+export interface DraftOutput {
+  replyHtml: string;
+  confidence: number;
+  templateId: string | null;
+  reasoning: string;
+  intent: EmailIntent;
+  followUpQuestions: string[];
+}
+
+// JSON schema for the tool input; kept provider-neutral so any tool-calling model can use it
+export const DRAFT_REPLY_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    replyHtml: {
+      type: 'string',
+      description: 'The complete reply as simple HTML (<p>, <br>, <ul>, <li>, <strong>), including greeting and closing',
+    },
+    confidence: {
+      type: 'number',
+      minimum: 0,
+      maximum: 1,
+      description: 'How confident you are that this reply can be sent as is (0-1)',
+    },
+    templateId: {
+      type: ['string', 'null'],
+      description: 'ID of the template the reply is based on, or null',
+    },
+    reasoning: {
+      type: 'string',
+      description: 'Brief explanation of why this reply was chosen, citing any knowledge base entries used as [KB1], [KB2], ...',
+    },
+    intent: {
+      type: 'string',
+      enum: [...EMAIL_INTENTS],
+      description: 'What the sender wants',
+    },
+    followUpQuestions: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Questions the reply asks the sender because the answer depends on details not available to you',
+    },
+  },
+  required: ['replyHtml', 'confidence', 'templateId', 'reasoning', 'intent', 'followUpQuestions'],
+};
+
+// The model's output still didn't match the schema after a repair attempt
+export class AIOutputError extends Error {
+  constructor(message: string, public readonly validationErrors: string[]) {
+    super(message);
+    this.name = 'AIOutputError';
+  }
+}
+
+export type ValidationResult<T> =
+  | { valid: true; value: T }
+  | { valid: false; errors: string[] };
+
+// Check tool input against the schema; template IDs must be ones we offered
+export function validateDraftOutput(input: unknown, templateIds: string[]): ValidationResult<DraftOutput> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { valid: false, errors: ['Output must be an object'] };
+  }
+
+  const output = input as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (typeof output.replyHtml !== 'string' || !output.replyHtml.trim()) {
+    errors.push('replyHtml must be a non-empty string');
+  }
+
+  if (typeof output.confidence !== 'number' || !(output.confidence >= 0 && output.confidence <= 1)) {
+    errors.push('confidence must be a number between 0 and 1');
+  }
+
+  if (output.templateId !== null && typeof output.templateId !== 'string') {
+    errors.push('templateId must be a string or null');
+  } else if (typeof output.templateId === 'string' && !templateIds.includes(output.templateId)) {
+    errors.push(`templateId must be null or one of: ${templateIds.join(', ') || '(no templates offered)'}`);
+  }
+
+  if (typeof output.reasoning !== 'string') {
+    errors.push('reasoning must be a string');
+  }
+
+  if (typeof output.intent !== 'string' || !(EMAIL_INTENTS as readonly string[]).includes(output.intent)) {
+    errors.push(`intent must be one of: ${EMAIL_INTENTS.join(', ')}`);
+  }
+
+  if (!Array.isArray(output.followUpQuestions) || !output.followUpQuestions.every(q => typeof q === 'string')) {
+    errors.push('followUpQuestions must be an array of strings');
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return { valid: true, value: output as unknown as DraftOutput };
+}
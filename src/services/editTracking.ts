@@ -0,0 +1,136 @@
+import { AIResponse } from '@prisma/client';
+import { databaseService } from './database';
+import { microsoftGraphService } from './microsoftGraph';
+import { GraphSession } from './graphSession';
+import { claudeAIService } from './claudeAI';
+import { responseWorkflowService } from './responseWorkflow';
+import { extractReplyHtml, extractReplyText, finalContent } from './emailText';
+
+interface DraftCheckResult {
+  checked: number;
+  edited: number;
+  sent: number;
+  deleted: number;
+  failed: number;
+}
+
+class EditTrackingService {
+  private schedulerTimer: NodeJS.Timeout | null = null;
+
+  // Compare open Outlook drafts with what we generated to catch edits, sends and deletes made in Outlook
+  async checkDrafts(): Promise<DraftCheckResult> {
+    const responses = await databaseService.getOpenDraftResponses();
+    const result: DraftCheckResult = { checked: 0, edited: 0, sent: 0, deleted: 0, failed: 0 };
+    const sessions = new Map<string, GraphSession>();
+
+    for (const response of responses) {
+      const clientId = response.email.clientId;
+
+      try {
+        let session = sessions.get(clientId);
+        if (!session) {
+          session = await GraphSession.forClient(clientId);
+          sessions.set(clientId, session);
+        }
+
+        const draftId = response.draftId!;
+        const draft = await session.run(accessToken => microsoftGraphService.getDraftState(accessToken, draftId));
+        result.checked++;
+
+        // Deleting the draft in Outlook is the client's way of rejecting it
+        if (!draft) {
+          if (await responseWorkflowService.rejectDeletedDraft(clientId, response)) {
+            result.deleted++;
+          }
+          continue;
+        }
+
+        // Compared with the latest known version, so each edit is recorded once
+        const changed = this.normalize(extractReplyText(draft.body)) !== this.normalize(extractReplyText(finalContent(response)));
+
+        // Each step moves on from the status it read, so an approve, reject or send in between wins
+        let status = response.status;
+        if (changed) {
+          const edited = await this.recordOutlookEdit(clientId, response, extractReplyHtml(draft.body));
+          if (!edited) {
+            continue;
+          }
+          status = 'USER_MODIFIED';
+          result.edited++;
+        }
+
+        // Immutable IDs survive the move to Sent Items, so a sent draft is still found by its ID
+        if (!draft.isDraft) {
+          const sent = await databaseService.transitionAIResponse(response.id, [status], {
+            status: 'SENT',
+            scheduledSendAt: null,
+            sentAt: draft.sentDateTime ? new Date(draft.sentDateTime) : new Date(),
+          });
+          if (sent) {
+            await databaseService.updateEmailStatus(response.emailId, 'SENT');
+            await databaseService.incrementUsageStats(clientId, { responsesSent: 1 });
+            result.sent++;
+          }
+        }
+      } catch (error) {
+        result.failed++;
+        console.error(`❌ Failed to check draft for response: ${response.id}`, error);
+      }
+    }
+
+    return result;
+  }
+
+  // Returns false if the response moved on since it was read
+  private async recordOutlookEdit(clientId: string, response: AIResponse, finalHtml: string): Promise<boolean> {
+    // Editing takes the reply back from automatic sending, the same as cancelling it on the dashboard
+    let from = response.status;
+    if (from === 'SCHEDULED') {
+      if (!(await responseWorkflowService.cancelScheduledSend(clientId, response, 'Changed in Outlook before sending'))) {
+        return false;
+      }
+      from = 'DRAFT_CREATED';
+    }
+
+    // The generated reply stays the baseline; the edited version is what the next check compares with
+    const edited = await databaseService.transitionAIResponse(response.id, [from], {
+      status: 'USER_MODIFIED',
+      editedContent: finalHtml,
+      userModified: true,
+    });
+    if (!edited) {
+      return false;
+    }
+
+    await claudeAIService.recordUserEdit(response.id, clientId, response.responseContent, finalHtml, 'outlook');
+    if (!response.userModified) {
+      await databaseService.incrementUsageStats(clientId, { responsesEdited: 1 });
+    }
+    return true;
+  }
+
+  private normalize(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+  }
+
+  // Periodically check drafts in long-running (non-serverless) processes
+  startScheduler(intervalMs: number = 10 * 60 * 1000): void {
+    if (this.schedulerTimer) {
+      return;
+    }
+
+    this.schedulerTimer = setInterval(() => {
+      this.checkDrafts().catch(error => console.error('Error checking drafts:', error));
+    }, intervalMs);
+    this.schedulerTimer.unref();
+  }
+
+  stopScheduler(): void {
+    if (this.schedulerTimer) {
+      clearInterval(this.schedulerTimer);
+      this.schedulerTimer = null;
+    }
+  }
+}
+
+export const editTrackingService = new EditTrackingService();
@@ -0,0 +1,117 @@
+import { ValidationResult } from './draftOutput';
+
+// Structured output contract for classifying inbound email, and the triage rules applied to it
+
+export const CLASSIFY_EMAIL_TOOL_NAME = 'classify_email';
+
+export const EMAIL_CATEGORIES = [
+  'inquiry',
+  'complaint',
+  'scheduling',
+  'invoice',
+  'newsletter',
+  'spam',
+  'auto-reply',
+] as const;
+
+export const URGENCY_LEVELS = ['low', 'normal', 'high'] as const;
+export const SENTIMENTS = ['positive', 'neutral', 'negative'] as const;
+
+export type EmailCategory = typeof EMAIL_CATEGORIES[number];
+export type Urgency = typeof URGENCY_LEVELS[number];
+export type Sentiment = typeof SENTIMENTS[number];
+
+export interface EmailClassification {
+  category: EmailCategory;
+  urgency: Urgency;
+  sentiment: Sentiment;
+}
+
+export const CLASSIFICATION_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    category: {
+      type: 'string',
+      enum: [...EMAIL_CATEGORIES],
+      description: 'What kind of email this is. Receipts and billing notices are "invoice"; out-of-office and delivery notifications are "auto-reply"',
+    },
+    urgency: {
+      type: 'string',
+      enum: [...URGENCY_LEVELS],
+      description: 'How soon the sender needs an answer',
+    },
+    sentiment: {
+      type: 'string',
+      enum: [...SENTIMENTS],
+      description: "The sender's tone",
+    },
+  },
+  required: ['category', 'urgency', 'sentiment'],
+};
+
+export function validateClassification(input: unknown): ValidationResult<EmailClassification> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { valid: false, errors: ['Output must be an object'] };
+  }
+
+  const output = input as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (!(EMAIL_CATEGORIES as readonly unknown[]).includes(output.category)) {
+    errors.push(`category must be one of: ${EMAIL_CATEGORIES.join(', ')}`);
+  }
+  if (!(URGENCY_LEVELS as readonly unknown[]).includes(output.urgency)) {
+    errors.push(`urgency must be one of: ${URGENCY_LEVELS.join(', ')}`);
+  }
+  if (!(SENTIMENTS as readonly unknown[]).includes(output.sentiment)) {
+    errors.push(`sentiment must be one of: ${SENTIMENTS.join(', ')}`);
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    value: {
+      category: output.category as EmailCategory,
+      urgency: output.urgency as Urgency,
+      sentiment: output.sentiment as Sentiment,
+    },
+  };
+}
+
+// draft: generate a reply; categorize: only tag the message in Outlook; skip: leave it alone
+export const TRIAGE_ACTIONS = ['draft', 'categorize', 'skip'] as const;
+export type TriageAction = typeof TRIAGE_ACTIONS[number];
+
+export interface TriageSettings {
+  enabled: boolean;
+  actions?: Partial<Record<EmailCategory, TriageAction>>;
+}
+
+export const DEFAULT_TRIAGE_ACTIONS: Record<EmailCategory, TriageAction> = {
+  inquiry: 'draft',
+  complaint: 'draft',
+  scheduling: 'draft',
+  invoice: 'categorize',
+  newsletter: 'categorize',
+  spam: 'skip',
+  'auto-reply': 'skip',
+};
+
+// Outlook category names applied by the categorize action
+export const CATEGORY_LABELS: Record<EmailCategory, string> = {
+  inquiry: 'Inquiry',
+  complaint: 'Complaint',
+  scheduling: 'Scheduling',
+  invoice: 'Invoice',
+  newsletter: 'Newsletter',
+  spam: 'Spam',
+  'auto-reply': 'Auto-reply',
+};
+
+// The client's rule for the category, falling back to the defaults
+export function decideTriageAction(classification: EmailClassification, settings?: TriageSettings): TriageAction {
+  return settings?.actions?.[classification.category] || DEFAULT_TRIAGE_ACTIONS[classification.category];
+}
@@ -0,0 +1,84 @@
+// Plain-text helpers for email bodies
+
+// Convert an HTML email body to readable plain text
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style)[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>|<\/(p|div|li|tr)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'");
+}
+
+// Reduce a message body to its own text: no HTML and no quoted earlier messages
+export function extractReplyText(body: string): string {
+  let text = htmlToText(body);
+
+  // Outlook and most clients start the quoted original with one of these markers
+  const quoteStart = text.search(/^(-{2,}\s*Original Message\s*-{2,}|From: .+|On .+ wrote:)\s*$/m);
+  if (quoteStart > 0) {
+    text = text.slice(0, quoteStart);
+  }
+
+  return text
+    .split('\n')
+    .filter(line => !line.trimStart().startsWith('>'))
+    .join('\n')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// Where the quoted original starts in an HTML reply body (Outlook, Gmail or a plain rule), or -1
+export function findQuotedHtmlStart(html: string): number {
+  return html.search(/<div[^>]+id="?(divRplyFwdMsg|appendonsend)|<div[^>]+class="?gmail_quote|<hr[\s>\/]|<blockquote/i);
+}
+
+// The reply's own HTML from a draft body: inside <body>, above the quoted original
+export function extractReplyHtml(body: string): string {
+  const bodyTag = body.match(/<body[^>]*>/i);
+  const inner = (bodyTag?.index !== undefined ? body.slice(bodyTag.index + bodyTag[0].length) : body)
+    .replace(/<\/body>[\s\S]*$/i, '');
+
+  const quoteStart = findQuotedHtmlStart(inner);
+  return (quoteStart >= 0 ? inner.slice(0, quoteStart) : inner).trim();
+}
+
+// Put new reply HTML in place of whatever is above the quoted original, keeping the quote itself
+export function replaceReplyHtml(body: string, replyContent: string): string {
+  const bodyTag = body.match(/<body[^>]*>/i);
+  const start = bodyTag?.index !== undefined ? bodyTag.index + bodyTag[0].length : 0;
+
+  const quoteStart = findQuotedHtmlStart(body.slice(start));
+  const bodyEnd = body.search(/<\/body>/i);
+  const end = quoteStart >= 0 ? start + quoteStart : bodyEnd >= start ? bodyEnd : body.length;
+
+  return `${body.slice(0, start)}${replyContent}${body.slice(end)}`;
+}
+
+// The reply as it stands: the latest edit, or what the AI generated
+export function finalContent(response: { responseContent: string; editedContent: string | null }): string {
+  return response.editedContent ?? response.responseContent;
+}
+
+// Word-level Levenshtein distance between two texts
+export function wordEditDistance(a: string, b: string): number {
+  const wordsA = a.split(/\s+/).filter(Boolean);
+  const wordsB = b.split(/\s+/).filter(Boolean);
+
+  let previous = Array.from({ length: wordsB.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= wordsA.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= wordsB.length; j++) {
+      const substitution = previous[j - 1]! + (wordsA[i - 1] === wordsB[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j]! + 1, current[j - 1]! + 1, substitution));
+    }
+    previous = current;
+  }
+
+  return previous[wordsB.length]!;
+}
@@ -0,0 +1,84 @@
+import { LLMProvider, LLMToolRequest, LLMToolResult } from './llmProvider';
+import { DRAFT_REPLY_TOOL_NAME } from './draftOutput';
+import { CLASSIFY_EMAIL_TOOL_NAME } from './emailClassification';
+
+// What the fake returns for one call: tool input, a plain-text answer without a tool call, or an error
+export type FakeLLMResponse =
+  | { input: unknown }
+  | { text: string }
+  | { error: Error };
+
+// Valid output for each tool, returned when nothing is scripted so tests only script what they care about
+const DEFAULT_OUTPUTS: Record<string, unknown> = {
+  [DRAFT_REPLY_TOOL_NAME]: {
+    replyHtml: '<p>Thank you for your email. We will get back to you shortly.</p>',
+    confidence: 0.9,
+    templateId: null,
+    reasoning: 'Default fake reply',
+    intent: 'other',
+    followUpQuestions: [],
+  },
+  [CLASSIFY_EMAIL_TOOL_NAME]: {
+    category: 'inquiry',
+    urgency: 'normal',
+    sentiment: 'neutral',
+  },
+};
+
+// In-process stand-in for a real model, selected with LLM_PROVIDER=fake. Responses are
+// scripted per tool ahead of time and every request is recorded, so tests never reach the network.
+export class FakeLLMProvider implements LLMProvider {
+  readonly name = 'fake' as const;
+  readonly defaultModel = 'fake-model';
+  readonly premiumModel = 'fake-premium-model';
+  readonly calls: LLMToolRequest[] = [];
+  private responses = new Map<string, FakeLLMResponse[]>();
+  private callCount = 0;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  // Queue responses for the next calls to a tool, in order
+  script(toolName: string, ...responses: FakeLLMResponse[]): void {
+    this.responses.set(toolName, [...(this.responses.get(toolName) || []), ...responses]);
+  }
+
+  // Recorded requests for one tool
+  callsFor(toolName: string): LLMToolRequest[] {
+    return this.calls.filter(call => call.tool.name === toolName);
+  }
+
+  reset(): void {
+    this.calls.length = 0;
+    this.responses.clear();
+    this.callCount = 0;
+  }
+
+  async callTool(request: LLMToolRequest): Promise<LLMToolResult> {
+    // Copy the turns, since the caller keeps appending to the same array between attempts
+    this.calls.push({ ...request, turns: [...request.turns] });
+    const id = `fake-call-${++this.callCount}`;
+
+    const response = this.responses.get(request.tool.name)?.shift() || this.defaultResponse(request.tool.name);
+
+    if ('error' in response) {
+      throw response.error;
+    }
+    if ('text' in response) {
+      return { toolCall: null, text: response.text, truncated: false };
+    }
+
+    return { toolCall: { id, input: response.input }, text: '', truncated: false };
+  }
+
+  private defaultResponse(toolName: string): FakeLLMResponse {
+    if (!(toolName in DEFAULT_OUTPUTS)) {
+      return { error: new Error(`No scripted response for tool: ${toolName}`) };
+    }
+
+    return { input: DEFAULT_OUTPUTS[toolName] };
+  }
+}
+
+export const fakeLLMProvider = new FakeLLMProvider();
@@ -0,0 +1,339 @@
+import crypto from 'crypto';
+import { AxiosError, AxiosHeaders } from 'axios';
+import type {
+  GraphService,
+  TokenResponse,
+  EmailData,
+  SubscriptionResponse,
+  DeltaResponse,
+  DraftState,
+  DraftResponse,
+} from './microsoftGraph';
+import { replaceReplyHtml } from './emailText';
+
+export interface FakeDraft {
+  id: string;
+  replyToId: string;
+  replyAll: boolean;
+  subject: string;
+  body: string;
+  internetMessageId: string;
+  isDraft: boolean;
+  sentDateTime: string | null;
+}
+
+type GraphMethod = keyof GraphService;
+
+// An error shaped like the ones axios throws for Graph, so callers' status checks behave as in production
+export function graphError(status: number, message: string = `Graph request failed with status ${status}`): AxiosError {
+  const config = { headers: new AxiosHeaders() };
+  return new AxiosError(message, AxiosError.ERR_BAD_REQUEST, config, null, {
+    data: { error: { message } },
+    status,
+    statusText: message,
+    headers: {},
+    config,
+  });
+}
+
+// In-memory mailbox standing in for Microsoft Graph, selected with GRAPH_PROVIDER=fake.
+// Tests seed messages, can make the next call to a method fail, and inspect recorded calls.
+export class FakeMicrosoftGraphService implements GraphService {
+  readonly calls: Array<{ method: GraphMethod; args: unknown[] }> = [];
+  readonly messages = new Map<string, EmailData>(); // Inbox, in arrival order
+  readonly sentItems: EmailData[] = [];
+  readonly drafts = new Map<string, FakeDraft>();
+  readonly categories = new Map<string, string[]>(); // Outlook categories by message ID
+  readonly flagged = new Set<string>();
+  readonly movedTo = new Map<string, string>(); // Destination folder by message ID
+  readonly subscriptions = new Map<string, SubscriptionResponse>();
+  profile = { id: 'fake-user', displayName: 'Fake User', mail: 'owner@example.com' };
+
+  private failures = new Map<GraphMethod, Error[]>();
+  private nextId = 1;
+
+  // Put a message in the inbox; unspecified fields get deterministic defaults
+  addMessage(message: Partial<EmailData> = {}): EmailData {
+    const id = message.id || `fake-message-${this.nextId++}`;
+    const email: EmailData = {
+      id,
+      subject: 'Test email',
+      body: '<p>Hello, I have a question.</p>',
+      sender: { name: 'Test Sender', email: 'sender@example.com' },
+      recipients: [{ name: this.profile.displayName, email: this.profile.mail }],
+      ccRecipients: [],
+      receivedDateTime: new Date().toISOString(),
+      conversationId: `fake-conversation-${id}`,
+      ...message,
+    };
+
+    this.messages.set(id, email);
+    return email;
+  }
+
+  // Make the next call to a method throw (e.g. graphError(401))
+  failNext(method: GraphMethod, error: Error): void {
+    this.failures.set(method, [...(this.failures.get(method) || []), error]);
+  }
+
+  reset(): void {
+    this.calls.length = 0;
+    this.messages.clear();
+    this.sentItems.length = 0;
+    this.drafts.clear();
+    this.categories.clear();
+    this.flagged.clear();
+    this.movedTo.clear();
+    this.subscriptions.clear();
+    this.failures.clear();
+    this.nextId = 1;
+  }
+
+  getAuthUrl(clientId: string): string {
+    this.record('getAuthUrl', [clientId]);
+    return `http://localhost/fake-auth?state=${encodeURIComponent(clientId)}`;
+  }
+
+  async exchangeCodeForTokens(code: string, clientId: string): Promise<TokenResponse> {
+    this.record('exchangeCodeForTokens', [code, clientId]);
+    return this.tokens(clientId);
+  }
+
+  async refreshToken(clientId: string, homeAccountId: string, forceRefresh: boolean = false): Promise<TokenResponse> {
+    this.record('refreshToken', [clientId, homeAccountId, forceRefresh]);
+    return this.tokens(clientId);
+  }
+
+  isReauthenticationRequired(error: unknown): boolean {
+    return false;
+  }
+
+  async getUserProfile(accessToken: string): Promise<any> {
+    this.record('getUserProfile', [accessToken]);
+    return { ...this.profile, userPrincipalName: this.profile.mail };
+  }
+
+  async createWebhookSubscription(accessToken: string, notificationUrl: string): Promise<SubscriptionResponse> {
+    this.record('createWebhookSubscription', [accessToken, notificationUrl]);
+
+    const subscription = {
+      id: `fake-subscription-${this.nextId++}`,
+      expirationTime: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      clientState: crypto.randomBytes(32).toString('hex'),
+    };
+    this.subscriptions.set(subscription.id, subscription);
+    return subscription;
+  }
+
+  async renewWebhookSubscription(accessToken: string, subscriptionId: string): Promise<Date> {
+    this.record('renewWebhookSubscription', [accessToken, subscriptionId]);
+
+    const subscription = this.subscriptions.get(subscriptionId);
+    if (!subscription) {
+      throw graphError(404, `Subscription not found: ${subscriptionId}`);
+    }
+
+    subscription.expirationTime = new Date(Date.now() + 24 * 60 * 60 * 1000);
+    return subscription.expirationTime;
+  }
+
+  async reauthorizeWebhookSubscription(accessToken: string, subscriptionId: string): Promise<void> {
+    this.record('reauthorizeWebhookSubscription', [accessToken, subscriptionId]);
+  }
+
+  async deleteWebhookSubscription(accessToken: string, subscriptionId: string): Promise<void> {
+    this.record('deleteWebhookSubscription', [accessToken, subscriptionId]);
+    this.subscriptions.delete(subscriptionId);
+  }
+
+  async getEmailById(accessToken: string, emailId: string): Promise<EmailData> {
+    this.record('getEmailById', [accessToken, emailId]);
+    return this.findMessage(emailId);
+  }
+
+  async getConversationMessages(accessToken: string, conversationId: string, count: number = 25): Promise<EmailData[]> {
+    this.record('getConversationMessages', [accessToken, conversationId, count]);
+
+    return [...this.messages.values(), ...this.sentItems]
+      .filter(message => message.conversationId === conversationId)
+      .sort((a, b) => b.receivedDateTime.localeCompare(a.receivedDateTime))
+      .slice(0, count)
+      .reverse();
+  }
+
+  async getSentMessages(accessToken: string, count: number = 50): Promise<EmailData[]> {
+    this.record('getSentMessages', [accessToken, count]);
+
+    return [...this.sentItems]
+      .sort((a, b) => b.receivedDateTime.localeCompare(a.receivedDateTime))
+      .slice(0, count);
+  }
+
+  async createDraftReply(
+    accessToken: string,
+    originalEmailId: string,
+    replyContent: string,
+    options: { replyAll?: boolean } = {}
+  ): Promise<DraftResponse> {
+    this.record('createDraftReply', [accessToken, originalEmailId, replyContent, options]);
+
+    const original = this.findMessage(originalEmailId);
+    const id = `fake-draft-${this.nextId++}`;
+    const draft: FakeDraft = {
+      id,
+      replyToId: original.id,
+      replyAll: !!options.replyAll,
+      subject: `RE: ${original.subject}`,
+      // Reply above the quoted original, as Outlook lays it out
+      body: `${replyContent}<hr>${original.body}`,
+      internetMessageId: `<${id}@fake.example>`,
+      isDraft: true,
+      sentDateTime: null,
+    };
+    this.drafts.set(draft.id, draft);
+
+    return { id: draft.id, subject: draft.subject, body: draft.body, internetMessageId: draft.internetMessageId };
+  }
+
+  async addMessageCategory(accessToken: string, messageId: string, category: string): Promise<void> {
+    this.record('addMessageCategory', [accessToken, messageId, category]);
+
+    this.findMessage(messageId);
+    const categories = this.categories.get(messageId) || [];
+    if (!categories.includes(category)) {
+      this.categories.set(messageId, [...categories, category]);
+    }
+  }
+
+  async flagMessage(accessToken: string, messageId: string): Promise<void> {
+    this.record('flagMessage', [accessToken, messageId]);
+
+    this.findMessage(messageId);
+    this.flagged.add(messageId);
+  }
+
+  // The message stays readable by ID, as it would in Graph after a move
+  async moveMessage(accessToken: string, messageId: string, folder: string): Promise<void> {
+    this.record('moveMessage', [accessToken, messageId, folder]);
+
+    this.findMessage(messageId);
+    this.movedTo.set(messageId, folder);
+  }
+
+  async sendDraft(accessToken: string, draftId: string): Promise<void> {
+    this.record('sendDraft', [accessToken, draftId]);
+
+    const draft = this.findDraft(draftId);
+    const original = this.messages.get(draft.replyToId);
+    draft.isDraft = false;
+    draft.sentDateTime = new Date().toISOString();
+
+    // A new ID in Sent Items, as Graph gives without immutable IDs; the Message-ID header carries over
+    this.sentItems.push({
+      id: `fake-sent-${this.nextId++}`,
+      subject: draft.subject,
+      body: draft.body,
+      sender: { name: this.profile.displayName, email: this.profile.mail },
+      recipients: original ? [original.sender] : [],
+      receivedDateTime: draft.sentDateTime,
+      conversationId: original?.conversationId || '',
+      internetMessageId: draft.internetMessageId,
+    });
+  }
+
+  async updateDraft(accessToken: string, draftId: string, updatedContent: string): Promise<void> {
+    this.record('updateDraft', [accessToken, draftId, updatedContent]);
+    this.findDraft(draftId).body = updatedContent;
+  }
+
+  async replaceDraftReplyContent(
+    accessToken: string,
+    draftId: string,
+    previousContent: string,
+    newContent: string
+  ): Promise<void> {
+    this.record('replaceDraftReplyContent', [accessToken, draftId, previousContent, newContent]);
+
+    const draft = this.findDraft(draftId);
+    draft.body = draft.body.includes(previousContent)
+      ? draft.body.replace(previousContent, () => newContent)
+      : replaceReplyHtml(draft.body, newContent);
+  }
+
+  async getDraftState(accessToken: string, draftId: string): Promise<DraftState | null> {
+    this.record('getDraftState', [accessToken, draftId]);
+
+    const draft = this.drafts.get(draftId);
+    return draft ? { body: draft.body, isDraft: draft.isDraft, sentDateTime: draft.sentDateTime } : null;
+  }
+
+  async deleteDraft(accessToken: string, draftId: string): Promise<void> {
+    this.record('deleteDraft', [accessToken, draftId]);
+
+    this.findDraft(draftId);
+    this.drafts.delete(draftId);
+  }
+
+  async getRecentEmails(accessToken: string, count: number = 10): Promise<EmailData[]> {
+    this.record('getRecentEmails', [accessToken, count]);
+
+    return [...this.messages.values()]
+      .sort((a, b) => b.receivedDateTime.localeCompare(a.receivedDateTime))
+      .slice(0, count);
+  }
+
+  // Delta links are positions in the inbox's arrival order
+  async getInboxDelta(accessToken: string, deltaLink: string | null, since: Date): Promise<DeltaResponse> {
+    this.record('getInboxDelta', [accessToken, deltaLink, since]);
+
+    const inbox = [...this.messages.values()];
+    const changed = deltaLink
+      ? inbox.slice(Number(deltaLink.replace('fake-delta:', '')) || 0)
+      : inbox.filter(message => new Date(message.receivedDateTime) >= since);
+
+    return {
+      messages: changed.map(message => ({ id: message.id, receivedDateTime: message.receivedDateTime })),
+      deltaLink: `fake-delta:${inbox.length}`,
+    };
+  }
+
+  validateWebhookNotification(expectedClientState: string, clientState: unknown): boolean {
+    return typeof clientState === 'string' && clientState === expectedClientState;
+  }
+
+  private record(method: GraphMethod, args: unknown[]): void {
+    this.calls.push({ method, args });
+
+    const failure = this.failures.get(method)?.shift();
+    if (failure) {
+      throw failure;
+    }
+  }
+
+  private tokens(clientId: string): TokenResponse {
+    return {
+      accessToken: `fake-access-token-${clientId}`,
+      refreshToken: `fake-refresh-token-${clientId}`,
+      expiresIn: 3600,
+      homeAccountId: `fake-account-${clientId}`,
+    };
+  }
+
+  private findMessage(id: string): EmailData {
+    const message = this.messages.get(id) || this.sentItems.find(sent => sent.id === id);
+    if (!message) {
+      throw graphError(404, `Message not found: ${id}`);
+    }
+    return message;
+  }
+
+  private findDraft(id: string): FakeDraft {
+    const draft = this.drafts.get(id);
+    if (!draft) {
+      throw graphError(404, `Draft not found: ${id}`);
+    }
+    return draft;
+  }
+}
+
+export const fakeMicrosoftGraphService = new FakeMicrosoftGraphService();
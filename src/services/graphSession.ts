@@ -0,0 +1,86 @@
+import axios from 'axios';
+import { databaseService } from './database';
+import { microsoftGraphService } from './microsoftGraph';
+
+// Refresh a little before the real expiry so in-flight calls don't race it
+const EXPIRY_MARGIN_MS = 5 * 60 * 1000;
+
+// A client's Microsoft Graph connection that keeps its access token fresh
+export class GraphSession {
+  private pendingRefresh: Promise<void> | null = null;
+
+  private constructor(
+    readonly clientId: string,
+    private accessToken: string,
+    private tokenExpiry: Date | null,
+    private homeAccountId: string | null
+  ) {}
+
+  static async forClient(clientId: string): Promise<GraphSession> {
+    const client = await databaseService.getClientById(clientId);
+    if (!client || !client.accessToken) {
+      throw new Error(`Client not found or not connected to Microsoft 365: ${clientId}`);
+    }
+
+    return new GraphSession(clientId, client.accessToken, client.tokenExpiry, client.homeAccountId);
+  }
+
+  // Get a valid access token, refreshing it first if it has expired
+  async getAccessToken(): Promise<string> {
+    const expiresSoon = !this.tokenExpiry || this.tokenExpiry.getTime() - EXPIRY_MARGIN_MS < Date.now();
+    if (expiresSoon) {
+      await this.refresh(false);
+    }
+
+    return this.accessToken;
+  }
+
+  // Run a Graph call with a fresh token, retrying once if Graph still rejects it
+  async run<T>(operation: (accessToken: string) => Promise<T>): Promise<T> {
+    const accessToken = await this.getAccessToken();
+
+    try {
+      return await operation(accessToken);
+    } catch (error) {
+      if (!axios.isAxiosError(error) || error.response?.status !== 401) {
+        throw error;
+      }
+
+      console.log('🔑 Graph returned 401, refreshing token for client:', this.clientId);
+      await this.refresh(true);
+      return await operation(this.accessToken);
+    }
+  }
+
+  private async refresh(forceRefresh: boolean): Promise<void> {
+    // Share one refresh between concurrent callers
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.doRefresh(forceRefresh).finally(() => {
+        this.pendingRefresh = null;
+      });
+    }
+
+    return this.pendingRefresh;
+  }
+
+  private async doRefresh(forceRefresh: boolean): Promise<void> {
+    if (!this.homeAccountId) {
+      throw new Error(`No Microsoft account to refresh for client: ${this.clientId}`);
+    }
+
+    const tokens = await microsoftGraphService.refreshToken(this.clientId, this.homeAccountId, forceRefresh);
+    const expiresAt = new Date(Date.now() + (tokens.expiresIn * 1000));
+
+    await databaseService.updateClientTokens(
+      this.clientId,
+      tokens.accessToken,
+      tokens.refreshToken,
+      expiresAt,
+      tokens.homeAccountId
+    );
+
+    this.accessToken = tokens.accessToken;
+    this.tokenExpiry = expiresAt;
+    this.homeAccountId = tokens.homeAccountId;
+  }
+}
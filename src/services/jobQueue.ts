@@ -0,0 +1,287 @@
+import { Job, JobStatus } from '@prisma/client';
+import { databaseService } from './database';
+
+type JobHandler = (job: Job) => Promise<void>;
+
+// Job types
+export const EMAIL_CREATED_JOB = 'email.created';
+export const LIFECYCLE_JOB = 'subscription.lifecycle';
+export const CATCH_UP_JOB = 'mailbox.catch-up';
+export const STYLE_PROFILE_JOB = 'client.style-profile';
+export const DEFERRED_DRAFT_JOB = 'email.deferred-draft';
+export const AUTO_SEND_JOB = 'response.auto-send';
+export const OUT_OF_OFFICE_JOB = 'email.out-of-office';
+
+// The job isn't in a state the action applies to
+export class JobStateError extends Error {}
+
+interface EnqueueOptions {
+  dedupeKey?: string;
+  runAt?: Date;
+  maxAttempts?: number;
+}
+
+interface DrainResult {
+  processed: number;
+  succeeded: number;
+  retried: number;
+  deadLettered: number;
+}
+
+const VISIBILITY_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
+const BASE_BACKOFF_MS = 30 * 1000; // 30 seconds
+const MAX_BACKOFF_MS = 60 * 60 * 1000; // 1 hour
+
+class JobQueueService {
+  private handlers = new Map<string, JobHandler>();
+  private draining = false;
+  private workerTimer: NodeJS.Timeout | null = null;
+
+  // Register the handler that processes jobs of a given type
+  registerHandler(type: string, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  // Persist a job so it survives the request that created it
+  async enqueue(type: string, clientId: string, payload: any, options: EnqueueOptions = {}): Promise<boolean> {
+    try {
+      const result = await databaseService.getPrisma().job.createMany({
+        data: [{
+          type,
+          clientId,
+          payload,
+          dedupeKey: options.dedupeKey ?? null,
+          runAt: options.runAt ?? new Date(),
+          maxAttempts: options.maxAttempts ?? 5,
+        }],
+        skipDuplicates: true,
+      });
+
+      return result.count > 0;
+    } catch (error) {
+      console.error('Error enqueuing job:', error);
+      throw error;
+    }
+  }
+
+  // Atomically claim due jobs, including ones whose visibility timeout has lapsed
+  async claimJobs(limit: number): Promise<Job[]> {
+    try {
+      const lockedUntil = new Date(Date.now() + VISIBILITY_TIMEOUT_MS);
+
+      return await databaseService.getPrisma().$queryRaw<Job[]>`
+        UPDATE "public"."jobs"
+        SET "status" = 'PROCESSING',
+            "attempts" = "attempts" + 1,
+            "lockedUntil" = ${lockedUntil},
+            "updatedAt" = NOW()
+        WHERE "id" IN (
+          SELECT "id" FROM "public"."jobs"
+          WHERE "attempts" < "maxAttempts"
+            AND (
+              ("status" = 'PENDING' AND "runAt" <= NOW())
+              OR ("status" = 'PROCESSING' AND "lockedUntil" < NOW())
+            )
+          ORDER BY "runAt" ASC
+          LIMIT ${limit}
+          FOR UPDATE SKIP LOCKED
+        )
+        RETURNING *
+      `;
+    } catch (error) {
+      console.error('Error claiming jobs:', error);
+      throw error;
+    }
+  }
+
+  // Dead-letter jobs that timed out on their final attempt
+  async sweepExpiredJobs(): Promise<number> {
+    try {
+      const result = await databaseService.getPrisma().job.updateMany({
+        where: {
+          status: 'PROCESSING',
+          lockedUntil: { lt: new Date() },
+          attempts: { gte: databaseService.getPrisma().job.fields.maxAttempts },
+        },
+        data: {
+          status: 'DEAD_LETTER',
+          lockedUntil: null,
+          lastError: 'Visibility timeout expired on final attempt',
+        },
+      });
+
+      return result.count;
+    } catch (error) {
+      console.error('Error sweeping expired jobs:', error);
+      throw error;
+    }
+  }
+
+  async markCompleted(jobId: string) {
+    try {
+      return await databaseService.getPrisma().job.update({
+        where: { id: jobId },
+        data: {
+          status: 'COMPLETED',
+          lockedUntil: null,
+          lastError: null,
+          completedAt: new Date(),
+        },
+      });
+    } catch (error) {
+      console.error('Error marking job completed:', error);
+      throw error;
+    }
+  }
+
+  // Schedule a retry with exponential backoff, or dead-letter once attempts are exhausted
+  async markFailed(job: Job, error: unknown): Promise<'retried' | 'dead_letter'> {
+    const message = error instanceof Error ? error.message : String(error);
+    const exhausted = job.attempts >= job.maxAttempts;
+
+    try {
+      await databaseService.getPrisma().job.update({
+        where: { id: job.id },
+        data: exhausted
+          ? {
+              status: 'DEAD_LETTER',
+              lockedUntil: null,
+              lastError: message,
+            }
+          : {
+              status: 'PENDING',
+              lockedUntil: null,
+              lastError: message,
+              runAt: new Date(Date.now() + this.getBackoffDelay(job.attempts)),
+            },
+      });
+
+      return exhausted ? 'dead_letter' : 'retried';
+    } catch (updateError) {
+      console.error('Error marking job failed:', updateError);
+      throw updateError;
+    }
+  }
+
+  // Process due jobs until none are left or the time budget runs out
+  async drain(options: { batchSize?: number; timeBudgetMs?: number } = {}): Promise<DrainResult> {
+    const result: DrainResult = { processed: 0, succeeded: 0, retried: 0, deadLettered: 0 };
+
+    // Avoid overlapping drains within the same process
+    if (this.draining) {
+      return result;
+    }
+
+    this.draining = true;
+    const deadline = Date.now() + (options.timeBudgetMs ?? 50 * 1000);
+
+    try {
+      result.deadLettered += await this.sweepExpiredJobs();
+
+      while (Date.now() < deadline) {
+        const jobs = await this.claimJobs(options.batchSize ?? 5);
+        if (jobs.length === 0) {
+          break;
+        }
+
+        for (const job of jobs) {
+          result.processed++;
+
+          try {
+            const handler = this.handlers.get(job.type);
+            if (!handler) {
+              throw new Error(`No handler registered for job type: ${job.type}`);
+            }
+
+            await handler(job);
+            await this.markCompleted(job.id);
+            result.succeeded++;
+          } catch (error) {
+            console.error(`Job ${job.id} (${job.type}) failed on attempt ${job.attempts}:`, error);
+
+            const outcome = await this.markFailed(job, error);
+            if (outcome === 'dead_letter') {
+              console.error(`☠️ Job ${job.id} moved to dead letter`);
+              result.deadLettered++;
+            } else {
+              result.retried++;
+            }
+          }
+        }
+      }
+    } finally {
+      this.draining = false;
+    }
+
+    return result;
+  }
+
+  // Poll for due jobs in long-running (non-serverless) processes
+  startWorker(intervalMs: number = 10 * 1000): void {
+    if (this.workerTimer) {
+      return;
+    }
+
+    this.workerTimer = setInterval(() => {
+      this.drain().catch(error => console.error('Error draining job queue:', error));
+    }, intervalMs);
+    this.workerTimer.unref();
+  }
+
+  stopWorker(): void {
+    if (this.workerTimer) {
+      clearInterval(this.workerTimer);
+      this.workerTimer = null;
+    }
+  }
+
+  async getJobs(filter: { status?: JobStatus; clientId?: string; limit?: number }) {
+    try {
+      return await databaseService.getPrisma().job.findMany({
+        where: {
+          ...(filter.status && { status: filter.status }),
+          ...(filter.clientId && { clientId: filter.clientId }),
+        },
+        orderBy: { updatedAt: 'desc' },
+        take: filter.limit ?? 50,
+      });
+    } catch (error) {
+      console.error('Error getting jobs:', error);
+      throw error;
+    }
+  }
+
+  // Give a dead-lettered job a fresh set of attempts. Null if there is no such job; throws JobStateError
+  // for any other status, so a job a worker holds can't be run twice at once.
+  async retryJob(jobId: string): Promise<Job | null> {
+    try {
+      const prisma = databaseService.getPrisma();
+      const { count } = await prisma.job.updateMany({
+        where: { id: jobId, status: 'DEAD_LETTER' },
+        data: {
+          status: 'PENDING',
+          attempts: 0,
+          runAt: new Date(),
+          lockedUntil: null,
+        },
+      });
+
+      const job = await prisma.job.findUnique({ where: { id: jobId } });
+      if (job && count === 0) {
+        throw new JobStateError(`Only dead-lettered jobs can be retried; this job is ${job.status}`);
+      }
+      return job;
+    } catch (error) {
+      console.error('Error retrying job:', error);
+      throw error;
+    }
+  }
+
+  private getBackoffDelay(attempts: number): number {
+    const delay = BASE_BACKOFF_MS * Math.pow(2, Math.max(0, attempts - 1));
+    const jitter = Math.floor(Math.random() * BASE_BACKOFF_MS);
+    return Math.min(delay + jitter, MAX_BACKOFF_MS);
+  }
+}
+
+export const jobQueueService = new JobQueueService();
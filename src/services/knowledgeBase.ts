@@ -0,0 +1,152 @@
+import { databaseService } from './database';
+import { extractPdfText } from './pdfText';
+import { rankBySimilarity } from './textSimilarity';
+
+export const KNOWLEDGE_CONTENT_TYPES = ['text/markdown', 'text/plain', 'application/pdf'];
+
+// The uploaded content couldn't be turned into text
+export class DocumentExtractionError extends Error {}
+
+export interface KnowledgeSnippet {
+  chunkId: string;
+  documentId: string;
+  documentTitle: string;
+  heading: string | null;
+  content: string;
+  score: number;
+}
+
+const TARGET_CHUNK_CHARS = 1000;
+const MAX_CHUNK_CHARS = 1600;
+const MIN_SNIPPET_SIMILARITY = 0.08;
+
+class KnowledgeBaseService {
+  // Extract, chunk and store a document in the client's knowledge base
+  async addDocument(clientId: string, data: {
+    title: string;
+    filename?: string;
+    contentType: string;
+    content: string; // Text, or base64 for PDFs
+  }) {
+    if (!KNOWLEDGE_CONTENT_TYPES.includes(data.contentType)) {
+      throw new DocumentExtractionError(`Unsupported content type: ${data.contentType}`);
+    }
+
+    const text = data.contentType === 'application/pdf'
+      ? this.readPdf(data.content)
+      : data.content.replace(/\r\n/g, '\n').trim();
+
+    if (!text) {
+      throw new DocumentExtractionError('No text could be extracted from the document');
+    }
+
+    const chunks = this.chunkText(text, data.contentType === 'text/markdown');
+
+    const document = await databaseService.createKnowledgeDocument({
+      clientId,
+      title: data.title,
+      ...(data.filename && { filename: data.filename }),
+      contentType: data.contentType,
+      content: text,
+      chunks,
+    });
+
+    console.log(`📚 Knowledge document added for client: ${clientId} (${chunks.length} chunks)`, document.id);
+    return document;
+  }
+
+  // Find the chunks most relevant to an email
+  async search(clientId: string, query: string, limit: number): Promise<KnowledgeSnippet[]> {
+    const chunks = await databaseService.getKnowledgeChunks(clientId);
+
+    const documents = chunks.map(chunk => ({
+      item: chunk,
+      // Headings and titles name the topic, so index them with the chunk
+      text: `${chunk.document.title} ${chunk.heading || ''} ${chunk.content}`,
+    }));
+
+    return rankBySimilarity(query, documents, { limit, minScore: MIN_SNIPPET_SIMILARITY }).map(ranked => ({
+      chunkId: ranked.item.id,
+      documentId: ranked.item.documentId,
+      documentTitle: ranked.item.document.title,
+      heading: ranked.item.heading,
+      content: ranked.item.content,
+      score: ranked.score,
+    }));
+  }
+
+  private readPdf(base64: string): string {
+    try {
+      return extractPdfText(Buffer.from(base64, 'base64'));
+    } catch (error) {
+      throw new DocumentExtractionError(error instanceof Error ? error.message : 'Could not read PDF');
+    }
+  }
+
+  // Split on paragraphs (and Markdown headings), packing them into chunks of roughly equal size
+  private chunkText(text: string, isMarkdown: boolean): Array<{ heading: string | null; content: string }> {
+    const chunks: Array<{ heading: string | null; content: string }> = [];
+    let heading: string | null = null;
+    let current = '';
+
+    const flush = () => {
+      if (current.trim()) {
+        chunks.push({ heading, content: current.trim() });
+      }
+      current = '';
+    };
+
+    for (const paragraph of text.split(/\n\s*\n/)) {
+      const headingMatch = isMarkdown ? paragraph.match(/^#{1,6}\s+(.+)$/m) : null;
+      if (headingMatch && paragraph.trimStart().startsWith('#')) {
+        flush();
+        heading = headingMatch[1]!.trim();
+      }
+
+      if (current && current.length + paragraph.length > TARGET_CHUNK_CHARS) {
+        flush();
+      }
+
+      // A single oversized paragraph is split on sentence boundaries
+      for (const piece of this.splitLongParagraph(paragraph)) {
+        if (current && current.length + piece.length > MAX_CHUNK_CHARS) {
+          flush();
+        }
+        current += `${current ? '\n\n' : ''}${piece}`;
+      }
+    }
+
+    flush();
+    return chunks;
+  }
+
+  private splitLongParagraph(paragraph: string): string[] {
+    if (paragraph.length <= MAX_CHUNK_CHARS) {
+      return [paragraph];
+    }
+
+    const pieces: string[] = [];
+    let piece = '';
+    for (const sentence of paragraph.match(/[^.!?]+[.!?]*\s*/g) || [paragraph]) {
+      if (piece && piece.length + sentence.length > TARGET_CHUNK_CHARS) {
+        pieces.push(piece.trim());
+        piece = '';
+      }
+      piece += sentence;
+    }
+    if (piece.trim()) {
+      pieces.push(piece.trim());
+    }
+
+    // Sentences longer than the limit are cut as a last resort
+    return pieces.flatMap(text =>
+      text.length <= MAX_CHUNK_CHARS
+        ? [text]
+        : Array.from({ length: Math.ceil(text.length / MAX_CHUNK_CHARS) }, (_, i) =>
+            text.slice(i * MAX_CHUNK_CHARS, (i + 1) * MAX_CHUNK_CHARS)
+          )
+    );
+  }
+}
+
+export const knowledgeBaseService = new KnowledgeBaseService();
@@ -0,0 +1,42 @@
+// Provider-neutral interface for the tool-calling requests used to draft replies
+
+export type LLMProviderName = 'anthropic' | 'openai' | 'fake';
+
+// One turn of a tool-calling conversation, independent of any provider's message format
+export type LLMTurn =
+  | { type: 'user'; content: string }
+  | { type: 'assistant'; content: string }
+  | { type: 'toolCall'; id: string; input: unknown }
+  | { type: 'toolError'; id: string; content: string };
+
+export interface LLMToolRequest {
+  model: string;
+  system: string;
+  turns: LLMTurn[];
+  tool: {
+    name: string;
+    description: string;
+    inputSchema: Record<string, unknown>;
+  };
+  maxTokens: number;
+  temperature: number;
+  timeoutMs: number;
+}
+
+export interface LLMToolResult {
+  toolCall: { id: string; input: unknown } | null;
+  text: string; // Any plain text the model returned alongside (or instead of) the tool call
+  truncated: boolean; // Stopped at maxTokens
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly defaultModel: string;
+  readonly premiumModel: string; // Higher-quality model for VIP senders
+
+  // Whether credentials are configured, so failover can skip providers that can't be called
+  isConfigured(): boolean;
+
+  // Ask the model to call the given tool
+  callTool(request: LLMToolRequest): Promise<LLMToolResult>;
+}
@@ -0,0 +1,122 @@
+import axios from 'axios';
+import { databaseService } from './database';
+import { microsoftGraphService } from './microsoftGraph';
+import { GraphSession } from './graphSession';
+import { jobQueueService, EMAIL_CREATED_JOB } from './jobQueue';
+
+interface SyncResult {
+  checked: number;
+  enqueued: number;
+}
+
+class MailboxSyncService {
+  private schedulerTimer: NodeJS.Timeout | null = null;
+
+  // Catch up on Inbox messages that never arrived through the webhook
+  async syncClient(clientId: string): Promise<SyncResult> {
+    const client = await databaseService.getClientById(clientId);
+    if (!client) {
+      throw new Error(`Client not found: ${clientId}`);
+    }
+
+    const session = await GraphSession.forClient(clientId);
+
+    // The first sync only records where the Inbox stands, so connecting a mailbox doesn't draft replies to old mail
+    if (!client.deltaLink || !client.lastSyncedAt) {
+      const seed = await session.run(accessToken =>
+        microsoftGraphService.getInboxDelta(accessToken, null, new Date())
+      );
+      await databaseService.updateClientDeltaLink(clientId, seed.deltaLink);
+
+      console.log('📍 Delta sync started for client:', clientId);
+      return { checked: 0, enqueued: 0 };
+    }
+
+    const since = client.lastSyncedAt;
+
+    let delta;
+    try {
+      delta = await session.run(accessToken =>
+        microsoftGraphService.getInboxDelta(accessToken, client.deltaLink, since)
+      );
+    } catch (error) {
+      // Graph expires old delta tokens; start a fresh round from the last sync time
+      if (!axios.isAxiosError(error) || error.response?.status !== 410) {
+        throw error;
+      }
+
+      console.log('🔁 Delta link expired, restarting sync for client:', clientId);
+      delta = await session.run(accessToken =>
+        microsoftGraphService.getInboxDelta(accessToken, null, since)
+      );
+    }
+
+    let enqueued = 0;
+    for (const message of delta.messages) {
+      const existingEmail = await databaseService.getEmailByMicrosoftId(message.id);
+      if (existingEmail) {
+        continue;
+      }
+
+      // Same dedupe key as webhook notifications, so a late notification can't double-process
+      const created = await jobQueueService.enqueue(
+        EMAIL_CREATED_JOB,
+        clientId,
+        { resourceData: { id: message.id }, source: 'delta' },
+        { dedupeKey: `${EMAIL_CREATED_JOB}:${clientId}:${message.id}` }
+      );
+
+      if (created) {
+        enqueued++;
+      }
+    }
+
+    await databaseService.updateClientDeltaLink(clientId, delta.deltaLink);
+
+    if (enqueued > 0) {
+      console.log(`📥 Delta sync found ${enqueued} missed emails for client:`, clientId);
+    }
+
+    return { checked: delta.messages.length, enqueued };
+  }
+
+  // Sync every connected mailbox
+  async syncAllClients(): Promise<{ clients: number; enqueued: number; failed: number }> {
+    const clients = await databaseService.getConnectedClients();
+    let enqueued = 0;
+    let failed = 0;
+
+    for (const client of clients) {
+      try {
+        const result = await this.syncClient(client.id);
+        enqueued += result.enqueued;
+      } catch (error) {
+        failed++;
+        console.error(`❌ Delta sync failed for client: ${client.email}`, error);
+      }
+    }
+
+    return { clients: clients.length, enqueued, failed };
+  }
+
+  // Periodically sync mailboxes in long-running (non-serverless) processes
+  startScheduler(intervalMs: number = 15 * 60 * 1000): void {
+    if (this.schedulerTimer) {
+      return;
+    }
+
+    this.schedulerTimer = setInterval(() => {
+      this.syncAllClients().catch(error => console.error('Error syncing mailboxes:', error));
+    }, intervalMs);
+    this.schedulerTimer.unref();
+  }
+
+  stopScheduler(): void {
+    if (this.schedulerTimer) {
+      clearInterval(this.schedulerTimer);
+      this.schedulerTimer = null;
+    }
+  }
+}
+
+export const mailboxSyncService = new MailboxSyncService();
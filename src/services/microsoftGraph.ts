@@ -1,15 +1,19 @@
 import { Client } from '@microsoft/microsoft-graph-client';
 import { AuthenticationProvider } from '@microsoft/microsoft-graph-client';
-import { ConfidentialClientApplication } from '@azure/msal-node';
+import { ConfidentialClientApplication, AuthenticationResult, InteractionRequiredAuthError } from '@azure/msal-node';
 import axios from 'axios';
+import crypto from 'crypto';
+import { DatabaseTokenCachePlugin } from './tokenCachePlugin';
+import { replaceReplyHtml } from './emailText';
 
-interface TokenResponse {
+export interface TokenResponse {
   accessToken: string;
   refreshToken: string;
   expiresIn: number;
+  homeAccountId: string;
 }
 
-interface EmailData {
+export interface EmailData {
   id: string;
   subject: string;
   body: string;
@@ -21,14 +25,48 @@ interface EmailData {
     name: string;
     email: string;
   }>;
+  ccRecipients?: Array<{
+    name: string;
+    email: string;
+  }>;
   receivedDateTime: string;
   conversationId: string;
+  internetMessageId?: string; // Message-ID header: the same in Drafts and Sent Items, unlike the Graph ID
+  headers?: Array<{
+    name: string;
+    value: string;
+  }>;
+  hasAttachments?: boolean;
+}
+
+// Folders Graph can address by name instead of ID
+const WELL_KNOWN_FOLDERS = ['inbox', 'archive', 'deleteditems', 'junkemail', 'drafts', 'sentitems'];
+
+export interface SubscriptionResponse {
+  id: string;
+  expirationTime: Date;
+  clientState: string;
+}
+
+export interface DeltaResponse {
+  messages: Array<{
+    id: string;
+    receivedDateTime: string;
+  }>;
+  deltaLink: string;
 }
 
-interface DraftResponse {
+export interface DraftState {
+  body: string;
+  isDraft: boolean;
+  sentDateTime: string | null;
+}
+
+export interface DraftResponse {
   id: string;
   subject: string;
   body: string;
+  internetMessageId: string;
 }
 
 class CustomAuthProvider implements AuthenticationProvider {
@@ -39,30 +77,42 @@ class CustomAuthProvider implements AuthenticationProvider {
   }
 }
 
+const GRAPH_SCOPES = [
+  'https://graph.microsoft.com/Mail.ReadWrite',
+  'https://graph.microsoft.com/Mail.Send',
+  'https://graph.microsoft.com/User.Read',
+];
+
+const SUBSCRIPTION_LIFETIME_MS = 24 * 60 * 60 * 1000; // 24 hours
+
 class MicrosoftGraphService {
   private clientApp: ConfidentialClientApplication;
   private baseUrl = 'https://graph.microsoft.com/v1.0';
 
   constructor() {
-    this.clientApp = new ConfidentialClientApplication({
+    this.clientApp = this.createClientApp();
+  }
+
+  // Each client gets its own MSAL app so its token cache is loaded from and saved to its own row
+  private createClientApp(clientId?: string): ConfidentialClientApplication {
+    return new ConfidentialClientApplication({
       auth: {
         clientId: process.env.AZURE_CLIENT_ID!,
         clientSecret: process.env.AZURE_CLIENT_SECRET!,
         authority: `https://login.microsoftonline.com/${process.env.AZURE_TENANT_ID || 'common'}`,
       },
+      ...(clientId && {
+        cache: {
+          cachePlugin: new DatabaseTokenCachePlugin(clientId),
+        },
+      }),
     });
   }
 
   // OAuth Flow - Get authorization URL
   getAuthUrl(clientId: string): string {
-    const scopes = [
-      'https://graph.microsoft.com/Mail.ReadWrite',
-      'https://graph.microsoft.com/Mail.Send',
-      'https://graph.microsoft.com/User.Read',
-    ];
-
     const authCodeUrlParameters = {
-      scopes: scopes,
+      scopes: GRAPH_SCOPES,
       redirectUri: process.env.AZURE_REDIRECT_URI!,
       state: clientId, // Pass client ID as state for tracking
     };
@@ -72,57 +122,89 @@ class MicrosoftGraphService {
   }
 
   // Exchange authorization code for tokens
-  async exchangeCodeForTokens(code: string): Promise<TokenResponse> {
+  async exchangeCodeForTokens(code: string, clientId: string): Promise<TokenResponse> {
     try {
       const tokenRequest = {
         code: code,
-        scopes: [
-          'https://graph.microsoft.com/Mail.ReadWrite',
-          'https://graph.microsoft.com/Mail.Send',
-          'https://graph.microsoft.com/User.Read',
-        ],
+        scopes: GRAPH_SCOPES,
         redirectUri: process.env.AZURE_REDIRECT_URI!,
       };
 
-      const response = await this.clientApp.acquireTokenByCode(tokenRequest);
+      const clientApp = this.createClientApp(clientId);
+      const response = await clientApp.acquireTokenByCode(tokenRequest);
       
-      if (!response) {
+      if (!response || !response.account) {
         throw new Error('Failed to acquire token');
       }
 
-      // MSAL doesn't provide refresh tokens in the same way - we'll handle this differently
-      return {
-        accessToken: response.accessToken,
-        refreshToken: response.account?.homeAccountId || '', // Use account ID for refresh
-        expiresIn: response.expiresOn ? 
-          Math.floor((response.expiresOn.getTime() - Date.now()) / 1000) : 3600,
-      };
+      return this.buildTokenResponse(clientApp, response);
     } catch (error) {
       console.error('Error exchanging code for tokens:', error);
       throw error;
     }
   }
 
-  // Refresh access token - simplified approach using silent token acquisition
-  async refreshToken(accountId: string): Promise<TokenResponse> {
+  // Refresh access token using the client's persisted MSAL token cache
+  async refreshToken(clientId: string, homeAccountId: string, forceRefresh: boolean = false): Promise<TokenResponse> {
     try {
-      const silentRequest = {
-        scopes: [
-          'https://graph.microsoft.com/Mail.ReadWrite',
-          'https://graph.microsoft.com/Mail.Send',
-          'https://graph.microsoft.com/User.Read',
-        ],
-        account: null, // Will need to get account from cache
-      };
+      const clientApp = this.createClientApp(clientId);
+      const account = await clientApp.getTokenCache().getAccountByHomeId(homeAccountId);
+
+      if (!account) {
+        throw new InteractionRequiredAuthError('no_account_in_cache', 'Token refresh requires re-authentication');
+      }
+
+      const response = await clientApp.acquireTokenSilent({
+        scopes: GRAPH_SCOPES,
+        account,
+        forceRefresh,
+      });
+
+      if (!response) {
+        throw new Error('Failed to acquire token silently');
+      }
 
-      // For now, throw error to indicate re-auth needed
-      throw new Error('Token refresh requires re-authentication');
+      return this.buildTokenResponse(clientApp, response);
     } catch (error) {
       console.error('Error refreshing token:', error);
       throw error;
     }
   }
 
+  // Whether a token error can only be fixed by the client signing in again
+  isReauthenticationRequired(error: unknown): boolean {
+    return error instanceof InteractionRequiredAuthError;
+  }
+
+  private async buildTokenResponse(
+    clientApp: ConfidentialClientApplication,
+    response: AuthenticationResult
+  ): Promise<TokenResponse> {
+    const homeAccountId = response.account?.homeAccountId || '';
+
+    return {
+      accessToken: response.accessToken,
+      refreshToken: this.getCachedRefreshToken(clientApp, homeAccountId),
+      expiresIn: response.expiresOn ? 
+        Math.floor((response.expiresOn.getTime() - Date.now()) / 1000) : 3600,
+      homeAccountId,
+    };
+  }
+
+  // MSAL keeps refresh tokens inside its cache rather than returning them
+  private getCachedRefreshToken(clientApp: ConfidentialClientApplication, homeAccountId: string): string {
+    try {
+      const cache = JSON.parse(clientApp.getTokenCache().serialize());
+      const entry = Object.values<any>(cache.RefreshToken || {})
+        .find(token => token.home_account_id === homeAccountId);
+
+      return entry?.secret || '';
+    } catch (error) {
+      console.error('Error reading refresh token from cache:', error);
+      return '';
+    }
+  }
+
   // Get user profile information
   async getUserProfile(accessToken: string): Promise<any> {
     try {
@@ -140,14 +222,18 @@ class MicrosoftGraphService {
   }
 
   // Set up webhook subscription for email monitoring
-  async createWebhookSubscription(accessToken: string, notificationUrl: string): Promise<string> {
+  async createWebhookSubscription(accessToken: string, notificationUrl: string): Promise<SubscriptionResponse> {
     try {
+      // Unique per subscription so notifications can't be forged by guessing a shared value
+      const clientState = crypto.randomBytes(32).toString('hex');
+
       const subscription = {
         changeType: 'created',
         notificationUrl: notificationUrl,
+        lifecycleNotificationUrl: `${notificationUrl}/lifecycle`, // reauthorizationRequired, subscriptionRemoved, missed
         resource: 'me/messages',
-        expirationDateTime: new Date(Date.now() + (24 * 60 * 60 * 1000)).toISOString(), // 24 hours
-        clientState: 'email-drafts-agent', // For security validation
+        expirationDateTime: new Date(Date.now() + SUBSCRIPTION_LIFETIME_MS).toISOString(),
+        clientState, // For security validation
       };
 
       const response = await axios.post(`${this.baseUrl}/subscriptions`, subscription, {
@@ -157,7 +243,11 @@ class MicrosoftGraphService {
         },
       });
 
-      return response.data.id;
+      return {
+        id: response.data.id,
+        expirationTime: new Date(response.data.expirationDateTime),
+        clientState,
+      };
     } catch (error) {
       console.error('Error creating webhook subscription:', error);
       throw error;
@@ -165,24 +255,41 @@ class MicrosoftGraphService {
   }
 
   // Renew webhook subscription
-  async renewWebhookSubscription(accessToken: string, subscriptionId: string): Promise<void> {
+  async renewWebhookSubscription(accessToken: string, subscriptionId: string): Promise<Date> {
     try {
       const subscription = {
-        expirationDateTime: new Date(Date.now() + (24 * 60 * 60 * 1000)).toISOString(),
+        expirationDateTime: new Date(Date.now() + SUBSCRIPTION_LIFETIME_MS).toISOString(),
       };
 
-      await axios.patch(`${this.baseUrl}/subscriptions/${subscriptionId}`, subscription, {
+      const response = await axios.patch(`${this.baseUrl}/subscriptions/${subscriptionId}`, subscription, {
         headers: {
           'Authorization': `Bearer ${accessToken}`,
           'Content-Type': 'application/json',
         },
       });
+
+      return new Date(response.data.expirationDateTime);
     } catch (error) {
       console.error('Error renewing webhook subscription:', error);
       throw error;
     }
   }
 
+  // Reauthorize a subscription after Graph sends a reauthorizationRequired lifecycle event
+  async reauthorizeWebhookSubscription(accessToken: string, subscriptionId: string): Promise<void> {
+    try {
+      await axios.post(`${this.baseUrl}/subscriptions/${subscriptionId}/reauthorize`, {}, {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+      });
+    } catch (error) {
+      console.error('Error reauthorizing webhook subscription:', error);
+      throw error;
+    }
+  }
+
   // Delete webhook subscription
   async deleteWebhookSubscription(accessToken: string, subscriptionId: string): Promise<void> {
     try {
@@ -197,10 +304,11 @@ class MicrosoftGraphService {
     }
   }
 
-  // Get email details by ID
+  // Get email details by ID, including the Internet headers used to spot automated mail
   async getEmailById(accessToken: string, emailId: string): Promise<EmailData> {
     try {
-      const response = await axios.get(`${this.baseUrl}/me/messages/${emailId}`, {
+      const select = 'id,subject,body,sender,toRecipients,ccRecipients,receivedDateTime,conversationId,internetMessageHeaders,hasAttachments';
+      const response = await axios.get(`${this.baseUrl}/me/messages/${emailId}?$select=${select}`, {
         headers: {
           'Authorization': `Bearer ${accessToken}`,
           'Content-Type': 'application/json',
@@ -221,8 +329,17 @@ class MicrosoftGraphService {
           name: recipient.emailAddress?.name || '',
           email: recipient.emailAddress?.address || '',
         })) || [],
+        ccRecipients: message.ccRecipients?.map((recipient: any) => ({
+          name: recipient.emailAddress?.name || '',
+          email: recipient.emailAddress?.address || '',
+        })) || [],
         receivedDateTime: message.receivedDateTime || '',
         conversationId: message.conversationId || '',
+        headers: message.internetMessageHeaders?.map((header: any) => ({
+          name: header.name || '',
+          value: header.value || '',
+        })) || [],
+        hasAttachments: !!message.hasAttachments,
       };
     } catch (error) {
       console.error('Error getting email by ID:', error);
@@ -230,55 +347,190 @@ class MicrosoftGraphService {
     }
   }
 
-  // Create draft reply
+  // Get the other messages in a conversation (inbound and sent), oldest first, as plain text
+  async getConversationMessages(accessToken: string, conversationId: string, count: number = 25): Promise<EmailData[]> {
+    try {
+      // Graph only sorts a filtered query when the sort property is filtered on first, hence the always-true date
+      const filter = encodeURIComponent(
+        `receivedDateTime ge 1900-01-01T00:00:00Z and conversationId eq '${conversationId.replace(/'/g, "''")}' and isDraft eq false`
+      );
+      const response = await axios.get(`${this.baseUrl}/me/messages?$filter=${filter}&$orderby=receivedDateTime desc&$top=${count}`, {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+          'Prefer': 'outlook.body-content-type="text"',
+        },
+      });
+
+      const messages = response.data.value || [];
+
+      // The most recent messages, oldest first
+      return messages
+        .map((message: any) => ({
+          id: message.id,
+          subject: message.subject || '',
+          body: message.body?.content || '',
+          sender: {
+            name: message.sender?.emailAddress?.name || '',
+            email: message.sender?.emailAddress?.address || '',
+          },
+          recipients: message.toRecipients?.map((recipient: any) => ({
+            name: recipient.emailAddress?.name || '',
+            email: recipient.emailAddress?.address || '',
+          })) || [],
+          receivedDateTime: message.receivedDateTime || '',
+          conversationId: message.conversationId || '',
+          internetMessageId: message.internetMessageId || '',
+        }))
+        .sort((a: EmailData, b: EmailData) => a.receivedDateTime.localeCompare(b.receivedDateTime));
+    } catch (error) {
+      console.error('Error getting conversation messages:', error);
+      throw error;
+    }
+  }
+
+  // Get the most recent messages from Sent Items as plain text
+  async getSentMessages(accessToken: string, count: number = 50): Promise<EmailData[]> {
+    try {
+      const select = 'id,subject,body,sender,toRecipients,sentDateTime,conversationId';
+      const response = await axios.get(
+        `${this.baseUrl}/me/mailFolders/sentitems/messages?$select=${select}&$orderby=sentDateTime desc&$top=${count}`,
+        {
+          headers: {
+            'Authorization': `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+            'Prefer': 'outlook.body-content-type="text"',
+          },
+        }
+      );
+
+      return (response.data.value || []).map((message: any) => ({
+        id: message.id,
+        subject: message.subject || '',
+        body: message.body?.content || '',
+        sender: {
+          name: message.sender?.emailAddress?.name || '',
+          email: message.sender?.emailAddress?.address || '',
+        },
+        recipients: message.toRecipients?.map((recipient: any) => ({
+          name: recipient.emailAddress?.name || '',
+          email: recipient.emailAddress?.address || '',
+        })) || [],
+        receivedDateTime: message.sentDateTime || '',
+        conversationId: message.conversationId || '',
+      }));
+    } catch (error) {
+      console.error('Error getting sent messages:', error);
+      throw error;
+    }
+  }
+
+  // Create draft reply in the original thread (keeps In-Reply-To headers, CCs and the quoted original)
   async createDraftReply(
     accessToken: string, 
     originalEmailId: string, 
     replyContent: string,
-    subject?: string
+    options: { replyAll?: boolean } = {}
   ): Promise<DraftResponse> {
     try {
-      // Get the original message first
-      const originalResponse = await axios.get(`${this.baseUrl}/me/messages/${originalEmailId}`, {
+      const action = options.replyAll ? 'createReplyAll' : 'createReply';
+
+      // Graph builds the reply draft with recipients, subject and the quoted original.
+      // An immutable ID lets us follow the draft into Sent Items once the client sends it.
+      const response = await axios.post(`${this.baseUrl}/me/messages/${originalEmailId}/${action}`, {}, {
         headers: {
           'Authorization': `Bearer ${accessToken}`,
           'Content-Type': 'application/json',
+          'Prefer': 'IdType="ImmutableId"',
         },
       });
 
-      const originalMessage = originalResponse.data;
+      const draft = response.data;
+      const content = this.insertAboveQuotedText(draft.body?.content || '', replyContent);
 
-      const draftReply = {
-        subject: subject || `Re: ${originalMessage.subject}`,
-        body: {
-          contentType: 'HTML',
-          content: replyContent,
-        },
-        toRecipients: [
-          {
-            emailAddress: {
-              address: originalMessage.sender?.emailAddress?.address,
-              name: originalMessage.sender?.emailAddress?.name,
-            },
-          },
-        ],
+      await this.updateDraft(accessToken, draft.id, content);
+
+      return {
+        id: draft.id || '',
+        subject: draft.subject || '',
+        body: content,
+        internetMessageId: draft.internetMessageId || '',
+      };
+    } catch (error) {
+      console.error('Error creating draft reply:', error);
+      throw error;
+    }
+  }
+
+  // Put the reply at the top of the draft body, above Outlook's quoted original
+  private insertAboveQuotedText(draftHtml: string, replyContent: string): string {
+    const bodyTag = draftHtml.match(/<body[^>]*>/i);
+    if (!bodyTag || bodyTag.index === undefined) {
+      return `${replyContent}${draftHtml}`;
+    }
+
+    const insertAt = bodyTag.index + bodyTag[0].length;
+    return `${draftHtml.slice(0, insertAt)}${replyContent}${draftHtml.slice(insertAt)}`;
+  }
+
+  // Add an Outlook category to a message, keeping any it already has
+  async addMessageCategory(accessToken: string, messageId: string, category: string): Promise<void> {
+    try {
+      const headers = {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
       };
 
-      // Create draft in drafts folder
-      const response = await axios.post(`${this.baseUrl}/me/messages`, draftReply, {
+      const response = await axios.get(`${this.baseUrl}/me/messages/${messageId}?$select=categories`, { headers });
+      const categories: string[] = response.data.categories || [];
+      if (categories.includes(category)) {
+        return;
+      }
+
+      await axios.patch(`${this.baseUrl}/me/messages/${messageId}`, { categories: [...categories, category] }, { headers });
+    } catch (error) {
+      console.error('Error adding message category:', error);
+      throw error;
+    }
+  }
+
+  // Flag a message for follow-up
+  async flagMessage(accessToken: string, messageId: string): Promise<void> {
+    try {
+      await axios.patch(`${this.baseUrl}/me/messages/${messageId}`, { flag: { flagStatus: 'flagged' } }, {
         headers: {
           'Authorization': `Bearer ${accessToken}`,
           'Content-Type': 'application/json',
         },
       });
+    } catch (error) {
+      console.error('Error flagging message:', error);
+      throw error;
+    }
+  }
 
-      return {
-        id: response.data.id || '',
-        subject: response.data.subject || '',
-        body: response.data.body?.content || '',
+  // Move a message to a well-known folder ("archive") or a top-level folder by display name
+  async moveMessage(accessToken: string, messageId: string, folder: string): Promise<void> {
+    try {
+      const headers = {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
       };
+
+      let destinationId = folder.toLowerCase().replace(/\s+/g, '');
+      if (!WELL_KNOWN_FOLDERS.includes(destinationId)) {
+        const filter = encodeURIComponent(`displayName eq '${folder.replace(/'/g, "''")}'`);
+        const response = await axios.get(`${this.baseUrl}/me/mailFolders?$filter=${filter}&$select=id`, { headers });
+        const match = response.data.value?.[0];
+        if (!match) {
+          throw new Error(`Mail folder not found: ${folder}`);
+        }
+        destinationId = match.id;
+      }
+
+      await axios.post(`${this.baseUrl}/me/messages/${messageId}/move`, { destinationId }, { headers });
     } catch (error) {
-      console.error('Error creating draft reply:', error);
+      console.error('Error moving message:', error);
       throw error;
     }
   }
@@ -324,6 +576,74 @@ class MicrosoftGraphService {
     }
   }
 
+  // Swap the generated reply in a draft for edited content, keeping the quoted original below it
+  async replaceDraftReplyContent(
+    accessToken: string,
+    draftId: string,
+    previousContent: string,
+    newContent: string
+  ): Promise<void> {
+    try {
+      const response = await axios.get(`${this.baseUrl}/me/messages/${draftId}?$select=body`, {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const draftHtml: string = response.data.body?.content || '';
+      // If Outlook rewrote the body the previous reply can't be found; replace everything above the quote instead
+      const content = draftHtml.includes(previousContent)
+        ? draftHtml.replace(previousContent, () => newContent)
+        : replaceReplyHtml(draftHtml, newContent);
+
+      await this.updateDraft(accessToken, draftId, content);
+    } catch (error) {
+      console.error('Error replacing draft reply content:', error);
+      throw error;
+    }
+  }
+
+  // Get the current state of a draft, or null if it has been deleted
+  async getDraftState(accessToken: string, draftId: string): Promise<DraftState | null> {
+    try {
+      const response = await axios.get(`${this.baseUrl}/me/messages/${draftId}?$select=body,isDraft,sentDateTime`, {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+          'Prefer': 'IdType="ImmutableId"',
+        },
+      });
+
+      return {
+        body: response.data.body?.content || '',
+        isDraft: response.data.isDraft !== false,
+        sentDateTime: response.data.sentDateTime || null,
+      };
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return null;
+      }
+
+      console.error('Error getting draft state:', error);
+      throw error;
+    }
+  }
+
+  // Delete a draft (e.g. when a reply is rejected)
+  async deleteDraft(accessToken: string, draftId: string): Promise<void> {
+    try {
+      await axios.delete(`${this.baseUrl}/me/messages/${draftId}`, {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+        },
+      });
+    } catch (error) {
+      console.error('Error deleting draft:', error);
+      throw error;
+    }
+  }
+
   // Get recent emails (for testing)
   async getRecentEmails(accessToken: string, count: number = 10): Promise<EmailData[]> {
     try {
@@ -357,10 +677,67 @@ class MicrosoftGraphService {
     }
   }
 
+  // Get Inbox changes since the last delta link (or since `since` on the first sync)
+  async getInboxDelta(accessToken: string, deltaLink: string | null, since: Date): Promise<DeltaResponse> {
+    try {
+      let url: string | undefined = deltaLink || 
+        `${this.baseUrl}/me/mailFolders/inbox/messages/delta?$select=id,receivedDateTime` +
+        `&$filter=receivedDateTime ge ${since.toISOString()}`;
+      const messages: DeltaResponse['messages'] = [];
+
+      // Follow nextLinks until Graph hands back the deltaLink for the next round
+      while (url) {
+        const response: any = await axios.get(url, {
+          headers: {
+            'Authorization': `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+            'Prefer': 'odata.maxpagesize=50',
+          },
+        });
+
+        for (const message of response.data.value || []) {
+          // Skip deletions and moves out of the Inbox
+          if (!message['@removed']) {
+            messages.push({
+              id: message.id,
+              receivedDateTime: message.receivedDateTime || '',
+            });
+          }
+        }
+
+        if (response.data['@odata.deltaLink']) {
+          return { messages, deltaLink: response.data['@odata.deltaLink'] };
+        }
+
+        url = response.data['@odata.nextLink'];
+      }
+
+      throw new Error('Delta query ended without a delta link');
+    } catch (error) {
+      console.error('Error getting inbox delta:', error);
+      throw error;
+    }
+  }
+
   // Validate webhook notification (security)
-  validateWebhookNotification(clientState: string): boolean {
-    return clientState === 'email-drafts-agent';
+  validateWebhookNotification(expectedClientState: string, clientState: unknown): boolean {
+    if (typeof clientState !== 'string') {
+      return false;
+    }
+
+    const expected = Buffer.from(expectedClientState);
+    const received = Buffer.from(clientState);
+
+    // Constant-time comparison so the secret can't be recovered from response timing
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
   }
 }
 
-export const microsoftGraphService = new MicrosoftGraphService();
\ No newline at end of file
+// The public surface shared by the real service and the in-memory fake
+export type GraphService = Pick<MicrosoftGraphService, keyof MicrosoftGraphService>;
+
+// GRAPH_PROVIDER=fake swaps in an in-memory mailbox for offline runs and tests.
+// Required only then, so production never loads the fake.
+export const microsoftGraphService: GraphService = process.env.GRAPH_PROVIDER === 'fake'
+  ? (require('./fakeMicrosoftGraph') as typeof import('./fakeMicrosoftGraph')).fakeMicrosoftGraphService
+  : new MicrosoftGraphService();
\ No newline at end of file
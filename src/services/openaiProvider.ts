@@ -0,0 +1,87 @@
+import OpenAI from 'openai';
+import { LLMProvider, LLMToolRequest, LLMToolResult, LLMTurn } from './llmProvider';
+
+class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+  readonly defaultModel = process.env.OPENAI_MODEL || 'gpt-4o';
+  readonly premiumModel = process.env.OPENAI_PREMIUM_MODEL || 'gpt-4.1';
+  private client: OpenAI | null = null;
+
+  isConfigured(): boolean {
+    return !!process.env.OPENAI_API_KEY;
+  }
+
+  async callTool(request: LLMToolRequest): Promise<LLMToolResult> {
+    const response = await this.getClient().chat.completions.create({
+      model: request.model,
+      max_completion_tokens: request.maxTokens,
+      temperature: request.temperature,
+      tools: [{
+        type: 'function',
+        function: {
+          name: request.tool.name,
+          description: request.tool.description,
+          parameters: request.tool.inputSchema,
+        },
+      }],
+      tool_choice: { type: 'function', function: { name: request.tool.name } },
+      messages: [
+        { role: 'system', content: request.system },
+        ...request.turns.map(turn => this.toMessage(turn, request.tool.name)),
+      ],
+    }, {
+      timeout: request.timeoutMs,
+      maxRetries: 1,
+    });
+
+    const choice = response.choices[0];
+    const toolCall = choice?.message.tool_calls?.find(call => call.type === 'function');
+
+    return {
+      toolCall: toolCall && toolCall.type === 'function'
+        ? { id: toolCall.id, input: this.parseArguments(toolCall.function.arguments) }
+        : null,
+      text: choice?.message.content || '',
+      truncated: choice?.finish_reason === 'length',
+    };
+  }
+
+  // Arguments arrive as a JSON string; leave malformed JSON as-is so validation reports it
+  private parseArguments(args: string): unknown {
+    try {
+      return JSON.parse(args);
+    } catch (error) {
+      return args;
+    }
+  }
+
+  private toMessage(turn: LLMTurn, toolName: string): OpenAI.ChatCompletionMessageParam {
+    switch (turn.type) {
+      case 'user':
+        return { role: 'user', content: turn.content };
+      case 'assistant':
+        return { role: 'assistant', content: turn.content };
+      case 'toolCall':
+        return {
+          role: 'assistant',
+          tool_calls: [{
+            id: turn.id,
+            type: 'function',
+            function: { name: toolName, arguments: typeof turn.input === 'string' ? turn.input : JSON.stringify(turn.input) },
+          }],
+        };
+      case 'toolError':
+        return { role: 'tool', tool_call_id: turn.id, content: turn.content };
+    }
+  }
+
+  // The SDK throws at construction without a key, so create the client on first use
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    }
+    return this.client;
+  }
+}
+
+export const openaiProvider = new OpenAIProvider();
@@ -0,0 +1,129 @@
+import { databaseService } from './database';
+import { microsoftGraphService } from './microsoftGraph';
+import { GraphSession } from './graphSession';
+import { zonedTimeToUtc } from './businessHours';
+
+// Vacation mode: while the client is away, senders get one short acknowledgement per period,
+// and the real reply is still drafted for when the client is back
+export interface OutOfOfficeSettings {
+  enabled: boolean;
+  start: string; // First day away, "YYYY-MM-DD" in the timezone below
+  end: string; // Last day away
+  timezone: string; // IANA name
+  returnDate?: string; // "YYYY-MM-DD"; defaults to the day after end
+  alternateContact?: { name: string; email: string };
+  message?: string; // Plain text added to the acknowledgement
+}
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// The instants the client leaves and comes back, or null if the dates can't be used
+export function awayPeriod(settings: OutOfOfficeSettings | undefined): { start: Date; end: Date } | null {
+  if (!settings?.enabled || !DATE.test(settings.start || '') || !DATE.test(settings.end || '')) {
+    return null;
+  }
+
+  try {
+    const start = zonedTimeToUtc(settings.start, 0, settings.timezone);
+    // Midnight at the end of the last day away
+    const end = zonedTimeToUtc(settings.end, 24 * 60, settings.timezone);
+    return start < end ? { start, end } : null;
+  } catch (error) {
+    // An unknown timezone; sending without being sure the client is away would be worse than not sending
+    console.error('Error checking out-of-office dates:', error);
+    return null;
+  }
+}
+
+export function isAway(settings: OutOfOfficeSettings | undefined, at: Date = new Date()): boolean {
+  const period = awayPeriod(settings);
+  return !!period && period.start <= at && at < period.end;
+}
+
+// e.g. "Monday, October 6"
+export function formatReturnDate(settings: OutOfOfficeSettings): string {
+  const returnDate = settings.returnDate && DATE.test(settings.returnDate)
+    ? new Date(`${settings.returnDate}T00:00:00Z`)
+    : new Date(new Date(`${settings.end}T00:00:00Z`).getTime() + 24 * 60 * 60 * 1000);
+
+  return new Intl.DateTimeFormat('en-US', { timeZone: 'UTC', weekday: 'long', month: 'long', day: 'numeric' }).format(returnDate);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// A fixed template rather than a model call: it is sent without review, so it must only say what the client set
+export function buildAcknowledgement(
+  settings: OutOfOfficeSettings,
+  email: { senderName: string; subject: string },
+  signature: string
+): string {
+  const firstName = email.senderName.trim().split(/\s+/)[0];
+  const paragraphs = [
+    `Hi ${escapeHtml(firstName || 'there')},`,
+    `Thank you for your email about "${escapeHtml(email.subject)}". I'm out of the office and will be back on ${formatReturnDate(settings)}, when I'll reply to your message.`,
+  ];
+
+  const contact = settings.alternateContact;
+  if (contact?.email) {
+    paragraphs.push(`If it can't wait until then, please contact ${escapeHtml(contact.name || contact.email)} at <a href="mailto:${escapeHtml(contact.email)}">${escapeHtml(contact.email)}</a>.`);
+  }
+  if (settings.message?.trim()) {
+    paragraphs.push(escapeHtml(settings.message.trim()));
+  }
+  paragraphs.push(`Best regards,<br>${escapeHtml(signature)}`);
+
+  return paragraphs.map(paragraph => `<p>${paragraph}</p>`).join('\n');
+}
+
+class OutOfOfficeService {
+  // Send the sender an acknowledgement, unless they already had one this period. Returns whether one was sent.
+  async acknowledge(
+    session: GraphSession,
+    client: { id: string; name: string },
+    settings: OutOfOfficeSettings | undefined,
+    email: { id: string; microsoftId: string; sender: string; senderEmail: string; subject: string }
+  ): Promise<boolean> {
+    const period = awayPeriod(settings);
+    if (!settings || !period) {
+      return false;
+    }
+
+    const claimed = await databaseService.claimOutOfOfficeReply({
+      clientId: client.id,
+      emailId: email.id,
+      senderEmail: email.senderEmail,
+      periodStart: period.start,
+    });
+    if (!claimed) {
+      console.log('⏭️ Sender already has an out-of-office reply this period:', email.senderEmail);
+      return false;
+    }
+
+    const content = buildAcknowledgement(settings, { senderName: email.sender, subject: email.subject }, client.name);
+
+    // Only ever to the sender, never reply-all
+    const draft = await session.run(accessToken =>
+      microsoftGraphService.createDraftReply(accessToken, email.microsoftId, content, { replyAll: false })
+    );
+    try {
+      await session.run(accessToken => microsoftGraphService.sendDraft(accessToken, draft.id));
+    } catch (error) {
+      // Don't leave the unsent acknowledgement in the client's Drafts; the retry creates a fresh one
+      await session.run(accessToken => microsoftGraphService.deleteDraft(accessToken, draft.id))
+        .catch(deleteError => console.error('Error deleting unsent out-of-office draft:', deleteError));
+      throw error;
+    }
+    await databaseService.markOutOfOfficeReplySent(email.id);
+
+    console.log('🏖️ Out-of-office reply sent to:', email.senderEmail);
+    return true;
+  }
+}
+
+export const outOfOfficeService = new OutOfOfficeService();
@@ -0,0 +1,103 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import zlib from 'zlib';
+import { extractPdfText } from './pdfText';
+
+// Fixtures are assembled here, object by object, so each one shows exactly what it exercises
+
+const stream = (dictionary: string, data: string) => {
+  const compressed = zlib.deflateSync(Buffer.from(data, 'latin1'));
+  return Buffer.concat([
+    Buffer.from(`<< ${dictionary} /Filter /FlateDecode /Length ${compressed.length} >>\nstream\n`, 'latin1'),
+    compressed,
+    Buffer.from('\nendstream', 'latin1'),
+  ]);
+};
+
+// Numbered from 1 in order; null leaves a number free for an object inside an object stream
+const pdf = (...objects: Array<string | Buffer | null>) => Buffer.concat([
+  Buffer.from('%PDF-1.7\n', 'latin1'),
+  ...objects.flatMap((object, index) => object === null ? [] : [
+    Buffer.from(`${index + 1} 0 obj\n`, 'latin1'),
+    typeof object === 'string' ? Buffer.from(object, 'latin1') : object,
+    Buffer.from('\nendobj\n', 'latin1'),
+  ]),
+  Buffer.from('trailer\n<< /Root 1 0 R >>\n%%EOF\n', 'latin1'),
+]);
+
+const catalog = '<< /Type /Catalog /Pages 2 0 R >>';
+const pages = '<< /Type /Pages /Kids [3 0 R] /Count 1 >>';
+
+const toUnicode = stream('', [
+  '/CIDInit /ProcSet findresource begin 12 dict begin begincmap',
+  '1 begincodespacerange <0000> <FFFF> endcodespacerange',
+  '2 beginbfchar <0001> <0048> <0004> <00E9> endbfchar',
+  '1 beginbfrange <0002> <0003> <0069> endbfrange',
+  'endcmap CMapName currentdict /CMap defineresource pop end end',
+].join('\n'));
+
+test('reads text from compressed content streams, skipping embedded fonts', () => {
+  const text = extractPdfText(pdf(
+    catalog,
+    pages,
+    '<< /Type /Page /Parent 2 0 R /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>',
+    stream('', 'BT /F1 12 Tf 72 720 Td (Hello world) Tj 0 -14 Td [(Second) -250 (line)] TJ ET'),
+    '<< /Type /Font /Subtype /TrueType /BaseFont /Arial /FontDescriptor 6 0 R >>',
+    '<< /Type /FontDescriptor /FontName /Arial /FontFile2 7 0 R >>',
+    stream('/Length1 4096', 'BT (glyf loca hmtx) Tj ET'),
+    stream('/Subtype /Type1C', 'BT (charstrings) Tj ET'),
+    stream('/Subtype /CIDFontType0C', 'BT (more glyphs) Tj ET')
+  ));
+
+  assert.equal(text, 'Hello world\nSecond line');
+});
+
+test('decodes CID fonts through their ToUnicode map', () => {
+  const text = extractPdfText(pdf(
+    catalog,
+    pages,
+    '<< /Type /Page /Parent 2 0 R /Contents 4 0 R /Resources << /Font << /F2 5 0 R >> >> >>',
+    stream('', 'BT /F2 11 Tf <00010002> Tj 0 -14 Td [<0003> -300 <0004>] TJ ET'),
+    '<< /Type /Font /Subtype /Type0 /BaseFont /NotoSans /Encoding /Identity-H /DescendantFonts [6 0 R] /ToUnicode 7 0 R >>',
+    '<< /Type /Font /Subtype /CIDFontType2 /BaseFont /NotoSans >>',
+    toUnicode
+  ));
+
+  assert.equal(text, 'Hi\nj é');
+});
+
+test('drops CID text it cannot map instead of returning glyph numbers', () => {
+  const text = extractPdfText(pdf(
+    catalog,
+    pages,
+    '<< /Type /Page /Parent 2 0 R /Contents 4 0 R /Resources << /Font << /F1 5 0 R /F2 6 0 R >> >> >>',
+    stream('', 'BT /F1 12 Tf (Total:) Tj /F2 12 Tf <002A0051> Tj ET'),
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+    '<< /Type /Font /Subtype /Type0 /BaseFont /Embedded /Encoding /Identity-H >>'
+  ));
+
+  assert.equal(text, 'Total:');
+});
+
+test('finds fonts packed into object streams', () => {
+  const resources = '<< /F2 7 0 R >> ';
+  const font = '<< /Type /Font /Subtype /Type0 /Encoding /Identity-H /ToUnicode 8 0 R >>';
+  const header = `6 0 7 ${resources.length} `;
+
+  const text = extractPdfText(pdf(
+    catalog,
+    pages,
+    '<< /Type /Page /Parent 2 0 R /Contents 4 0 R /Resources << /Font 6 0 R >> >>',
+    stream('', 'BT /F2 11 Tf <000100020003> Tj ET'),
+    stream(`/Type /ObjStm /N 2 /First ${header.length}`, header + resources + font),
+    null,
+    null,
+    toUnicode
+  ));
+
+  assert.equal(text, 'Hij');
+});
+
+test('rejects files that are not PDFs', () => {
+  assert.throws(() => extractPdfText(Buffer.from('<html></html>')), /not a PDF/);
+});
@@ -0,0 +1,373 @@
+import zlib from 'zlib';
+
+// Best-effort text extraction for text-based PDFs (uncompressed or FlateDecode content streams).
+// Text in fonts with a ToUnicode map is decoded through it; CID fonts without one are dropped rather than
+// returned as glyph numbers. Scanned PDFs yield little or no text; callers should check the result.
+export function extractPdfText(pdf: Buffer): string {
+  const raw = pdf.toString('latin1');
+  if (!raw.startsWith('%PDF-')) {
+    throw new Error('File is not a PDF');
+  }
+
+  const objects = readObjects(pdf, raw);
+  const fonts = readFonts(objects);
+
+  // Embedded fonts and character maps are streams too, but hold glyph data rather than page text
+  const skipped = new Set<number>();
+  for (const object of objects.values()) {
+    for (const ref of object.dictionary.matchAll(/\/(?:FontFile[23]?|ToUnicode|Encoding)\s+(\d+)\s+\d+\s+R/g)) {
+      skipped.add(Number(ref[1]));
+    }
+  }
+
+  const pages: string[] = [];
+  for (const [number, object] of objects) {
+    if (!object.stream || skipped.has(number)) {
+      continue;
+    }
+
+    // Only content streams carry page text
+    if (
+      /\/Subtype\s*\/(Image|Form|XML|Type1C|CIDFontType0C|OpenType)\b|\/Type\s*\/(XObject|XRef|ObjStm|Metadata|CMap|EmbeddedFile)\b|\/Length[123]\b/
+        .test(object.dictionary)
+    ) {
+      continue;
+    }
+
+    const data = decodeStream(object);
+    if (data) {
+      const text = readTextOperators(data.toString('latin1'), fonts);
+      if (text.trim()) {
+        pages.push(text);
+      }
+    }
+  }
+
+  return pages
+    .join('\n\n')
+    .replace(/[\x00-\x08\x0b-\x1f\x7f-\x9f\ufffd]/g, '')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+interface PdfObject {
+  dictionary: string;
+  stream: Buffer | null; // Still encoded
+}
+
+// Turns the bytes shown by a text operator into text, for the font in use
+type Decode = (bytes: string) => string;
+
+const identity: Decode = bytes => bytes;
+
+// Every numbered object in file order, including those packed into object streams
+function readObjects(pdf: Buffer, raw: string): Map<number, PdfObject> {
+  const objects = new Map<number, PdfObject>();
+  const objectStart = /\b(\d+)\s+\d+\s+obj\b((?:(?!\bendobj\b)[\s\S])*?)(\bstream\r?\n|\bendobj\b)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = objectStart.exec(raw)) !== null) {
+    const number = Number(match[1]);
+    const dictionary = match[2] || '';
+
+    if (match[3] === 'endobj') {
+      objects.set(number, { dictionary, stream: null });
+      continue;
+    }
+
+    const start = match.index + match[0].length;
+    const end = raw.indexOf('endstream', start);
+    if (end < 0) {
+      break;
+    }
+    objectStart.lastIndex = end;
+    objects.set(number, { dictionary, stream: pdf.subarray(start, end) });
+  }
+
+  for (const object of [...objects.values()]) {
+    if (/\/Type\s*\/ObjStm\b/.test(object.dictionary)) {
+      readObjectStream(object, objects);
+    }
+  }
+
+  return objects;
+}
+
+// An object stream starts with pairs of object number and offset, counted from /First
+function readObjectStream(object: PdfObject, objects: Map<number, PdfObject>): void {
+  const count = Number(object.dictionary.match(/\/N\s+(\d+)/)?.[1]);
+  const first = Number(object.dictionary.match(/\/First\s+(\d+)/)?.[1]);
+  const data = decodeStream(object)?.toString('latin1');
+  if (!data || !Number.isInteger(count) || !Number.isInteger(first)) {
+    return;
+  }
+
+  const header = data.slice(0, first).trim().split(/\s+/).map(Number);
+  for (let index = 0; index < count; index++) {
+    const number = header[index * 2];
+    const offset = header[index * 2 + 1];
+    if (number === undefined || offset === undefined || objects.has(number)) {
+      continue;
+    }
+
+    const next = header[index * 2 + 3];
+    objects.set(number, {
+      dictionary: data.slice(first + offset, next === undefined ? data.length : first + next),
+      stream: null,
+    });
+  }
+}
+
+function decodeStream(object: PdfObject): Buffer | null {
+  if (!object.stream) {
+    return null;
+  }
+  if (/\/FlateDecode/.test(object.dictionary)) {
+    return inflate(object.stream);
+  }
+  // Other filters are used for images and fonts, not text
+  return /\/Filter/.test(object.dictionary) ? null : object.stream;
+}
+
+// Decoders keyed by the resource names content streams select fonts by. Names are per page, but writers
+// reuse them for the same font, so one map across the document is usually right.
+function readFonts(objects: Map<number, PdfObject>): Map<string, Decode> {
+  const fonts = new Map<string, Decode>();
+  const decoders = new Map<number, Decode>();
+
+  const addFonts = (entries: string) => {
+    for (const [, name, ref] of entries.matchAll(/\/([^\s/<>[\]()]+)\s+(\d+)\s+\d+\s+R/g)) {
+      const number = Number(ref);
+      const font = objects.get(number);
+      if (!name || !font || fonts.has(name)) {
+        continue;
+      }
+      if (!decoders.has(number)) {
+        decoders.set(number, fontDecoder(font.dictionary, objects));
+      }
+      fonts.set(name, decoders.get(number)!);
+    }
+  };
+
+  for (const object of objects.values()) {
+    for (const [, inline, ref] of object.dictionary.matchAll(/\/Font\s*(?:<<([^>]*)>>|(\d+)\s+\d+\s+R)/g)) {
+      addFonts(inline ?? objects.get(Number(ref))?.dictionary ?? '');
+    }
+  }
+
+  return fonts;
+}
+
+function fontDecoder(dictionary: string, objects: Map<number, PdfObject>): Decode {
+  // Type0 (composite) fonts show CIDs, two bytes each with the usual Identity-H encoding
+  const composite = /\/Subtype\s*\/Type0\b/.test(dictionary);
+  const ref = dictionary.match(/\/ToUnicode\s+(\d+)\s+\d+\s+R/)?.[1];
+  const cmapData = ref ? objects.get(Number(ref)) : undefined;
+  const cmap = cmapData ? decodeStream(cmapData)?.toString('latin1') : undefined;
+
+  if (!cmap) {
+    // Without a map, CIDs are glyph numbers that read as garbage
+    return composite ? () => '' : identity;
+  }
+
+  const codeLength = cmap.match(/begincodespacerange\s*<([0-9a-fA-F]+)>/)?.[1]?.length;
+  const width = codeLength ? Math.max(1, codeLength / 2) : composite ? 2 : 1;
+  const map = readToUnicode(cmap);
+
+  return bytes => {
+    let text = '';
+    for (let i = 0; i < bytes.length; i += width) {
+      const code = bytes.slice(i, i + width);
+      text += map.get(code) ?? (composite ? '' : code);
+    }
+    return text;
+  };
+}
+
+// Character codes (as byte strings) to Unicode, from a ToUnicode CMap's bfchar and bfrange entries
+function readToUnicode(cmap: string): Map<string, string> {
+  const map = new Map<string, string>();
+  const hex = (value: string) => value.replace(/\s/g, '');
+
+  for (const [, entries] of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const [, code, unicode] of entries!.matchAll(/<([0-9a-fA-F\s]+)>\s*<([0-9a-fA-F\s]*)>/g)) {
+      map.set(decodeHex(hex(code!)), decodeUtf16(hex(unicode!)));
+    }
+  }
+
+  for (const [, entries] of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const [, low, high, target, list] of entries!.matchAll(
+      /<([0-9a-fA-F\s]+)>\s*<([0-9a-fA-F\s]+)>\s*(?:<([0-9a-fA-F\s]*)>|\[([^\]]*)\])/g
+    )) {
+      const digits = hex(low!).length;
+      const from = parseInt(hex(low!), 16);
+      const to = Math.min(parseInt(hex(high!), 16), from + 0xffff);
+      const targets = list?.match(/<[0-9a-fA-F\s]*>/g)?.map(entry => decodeUtf16(hex(entry.slice(1, -1))));
+      const first = target === undefined ? '' : decodeUtf16(hex(target));
+
+      for (let code = from; code <= to; code++) {
+        const key = decodeHex(code.toString(16).padStart(digits, '0'));
+        // Ranges increment the last character of the target
+        const unicode = targets
+          ? targets[code - from]
+          : first && first.slice(0, -1) + String.fromCharCode(first.charCodeAt(first.length - 1) + code - from);
+        if (unicode) {
+          map.set(key, unicode);
+        }
+      }
+    }
+  }
+
+  return map;
+}
+
+function decodeUtf16(hex: string): string {
+  let text = '';
+  for (let i = 0; i + 4 <= hex.length; i += 4) {
+    text += String.fromCharCode(parseInt(hex.slice(i, i + 4), 16));
+  }
+  return text;
+}
+
+function inflate(data: Buffer): Buffer | null {
+  try {
+    return zlib.inflateSync(data);
+  } catch (error) {
+    // Some writers leave an end-of-line before "endstream" that isn't part of the data
+    try {
+      return zlib.inflateSync(data.subarray(0, data.length - 1));
+    } catch (retryError) {
+      return null;
+    }
+  }
+}
+
+// Walk a content stream and collect the strings shown by text operators
+function readTextOperators(content: string, fonts: Map<string, Decode>): string {
+  let output = '';
+  let operands: string[] = [];
+  let name = '';
+  let decode = identity;
+  let inArray = false;
+  let i = 0;
+
+  while (i < content.length) {
+    const char = content[i]!;
+
+    if (char === '(') {
+      const [text, next] = readLiteralString(content, i);
+      operands.push(decode(text));
+      i = next;
+    } else if (char === '<' && content[i + 1] !== '<') {
+      const close = content.indexOf('>', i);
+      const hex = content.slice(i + 1, close < 0 ? content.length : close).replace(/\s/g, '');
+      operands.push(decode(decodeHex(hex)));
+      i = close < 0 ? content.length : close + 1;
+    } else if (char === '[') {
+      inArray = true;
+      i++;
+    } else if (char === ']') {
+      inArray = false;
+      i++;
+    } else if (char === '/') {
+      name = content.slice(i + 1).match(/^[^\s/<>[\]()%]*/)![0];
+      i += 1 + name.length;
+    } else if (char === '%') {
+      const eol = content.slice(i).search(/[\r\n]/);
+      i = eol < 0 ? content.length : i + eol;
+    } else if (/[-\d.]/.test(char)) {
+      const number = content.slice(i).match(/^-?\d*\.?\d+/);
+      const length = number ? number[0].length : 1;
+
+      // Large negative kerning inside a TJ array is how PDFs encode word spaces
+      if (inArray && number && parseFloat(number[0]) <= -200) {
+        operands.push(' ');
+      }
+      i += length;
+    } else if (/[A-Za-z'"*]/.test(char)) {
+      const operator = content.slice(i).match(/^[A-Za-z'"*]+/)![0];
+
+      switch (operator) {
+        case 'Tf':
+          decode = fonts.get(name) ?? identity;
+          break;
+        case 'Tj':
+        case 'TJ':
+          output += operands.join('');
+          break;
+        case "'":
+        case '"':
+          output += `\n${operands.join('')}`;
+          break;
+        case 'Td':
+        case 'TD':
+        case 'T*':
+        case 'Tm':
+        case 'ET':
+          if (!output.endsWith('\n')) {
+            output += '\n';
+          }
+          break;
+      }
+
+      operands = [];
+      name = '';
+      i += operator.length;
+    } else {
+      i++;
+    }
+  }
+
+  return output;
+}
+
+function readLiteralString(content: string, start: number): [string, number] {
+  let text = '';
+  let depth = 1;
+  let i = start + 1;
+
+  while (i < content.length && depth > 0) {
+    const char = content[i]!;
+
+    if (char === '\\') {
+      const next = content[i + 1] || '';
+      const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f', '(': '(', ')': ')', '\\': '\\' };
+
+      if (escapes[next] !== undefined) {
+        text += escapes[next];
+        i += 2;
+      } else if (/[0-7]/.test(next)) {
+        const octal = content.slice(i + 1, i + 4).match(/^[0-7]{1,3}/)![0];
+        text += String.fromCharCode(parseInt(octal, 8));
+        i += 1 + octal.length;
+      } else {
+        i += next === '\r' && content[i + 2] === '\n' ? 3 : 2; // Line continuation
+      }
+      continue;
+    }
+
+    if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+      if (depth === 0) {
+        break;
+      }
+    }
+
+    text += char;
+    i++;
+  }
+
+  return [text, i + 1];
+}
+
+function decodeHex(hex: string): string {
+  const padded = hex.length % 2 === 0 ? hex : `${hex}0`;
+  let text = '';
+  for (let i = 0; i < padded.length; i += 2) {
+    text += String.fromCharCode(parseInt(padded.slice(i, i + 2), 16));
+  }
+  return text;
+}
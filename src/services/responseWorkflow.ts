@@ -0,0 +1,190 @@
+import { AIResponse, ResponseStatus } from '@prisma/client';
+import axios from 'axios';
+import { databaseService } from './database';
+import { microsoftGraphService } from './microsoftGraph';
+import { GraphSession } from './graphSession';
+import { claudeAIService } from './claudeAI';
+import { finalContent } from './emailText';
+
+// The response moved on (sent, cancelled or rejected) between being read and being acted on
+export class ResponseStateError extends Error {}
+
+// Responses still waiting on the client, which approving or rejecting can act on
+const OPEN_STATUSES: ResponseStatus[] = ['DRAFT_CREATED', 'USER_MODIFIED', 'SCHEDULED'];
+
+class ResponseWorkflowService {
+  // Replace the reply text in the Outlook draft with an operator's edit
+  async editResponse(session: GraphSession, response: AIResponse, content: string): Promise<AIResponse> {
+    if (!response.draftId) {
+      throw new Error('AI response has no Outlook draft');
+    }
+
+    // Editing takes the reply back from automatic sending; the client sends it when ready
+    if (response.status === 'SCHEDULED' && !(await this.cancelScheduledSend(session.clientId, response, 'Edited before sending'))) {
+      throw new ResponseStateError('AI response is already being sent');
+    }
+
+    const draftId = response.draftId;
+    await session.run(accessToken =>
+      microsoftGraphService.replaceDraftReplyContent(accessToken, draftId, finalContent(response), content)
+    );
+
+    const updated = await databaseService.updateAIResponse(response.id, {
+      editedContent: content,
+      status: 'USER_MODIFIED',
+      userModified: true,
+    });
+    await claudeAIService.recordUserEdit(response.id, session.clientId, response.responseContent, content, 'dashboard');
+
+    // Count each response once, however many times it is edited
+    if (!response.userModified) {
+      await databaseService.incrementUsageStats(session.clientId, { responsesEdited: 1 });
+    }
+
+    return updated;
+  }
+
+  // Send the Outlook draft, optionally applying an edit first
+  async approveResponse(session: GraphSession, response: AIResponse, content?: string): Promise<AIResponse> {
+    if (!response.draftId) {
+      throw new Error('AI response has no Outlook draft');
+    }
+
+    if (content !== undefined && content !== finalContent(response)) {
+      response = await this.editResponse(session, response, content);
+    }
+
+    const sent = await this.send(session, response, OPEN_STATUSES);
+    if (!sent) {
+      throw new ResponseStateError('AI response was already sent or rejected');
+    }
+    return sent;
+  }
+
+  // Send a response whose undo window has closed. Returns null if it was cancelled or sent first.
+  async sendScheduledResponse(session: GraphSession, response: AIResponse): Promise<AIResponse | null> {
+    return this.send(session, response, ['SCHEDULED']);
+  }
+
+  // Claim the response for sending, so no one else can send, cancel or reject it meanwhile, then send
+  // its draft. Returns null if the response was no longer in one of `from`.
+  private async send(session: GraphSession, response: AIResponse, from: ResponseStatus[]): Promise<AIResponse | null> {
+    const claimed = await databaseService.transitionAIResponse(response.id, from, {
+      status: 'SENDING',
+      scheduledSendAt: null,
+    });
+    if (!claimed) {
+      return null;
+    }
+
+    const draftId = response.draftId!;
+    try {
+      await session.run(accessToken => microsoftGraphService.sendDraft(accessToken, draftId));
+    } catch (error) {
+      // Back as it was, so it can be sent again (by the job's retry, for a scheduled send)
+      await databaseService.transitionAIResponse(response.id, ['SENDING'], {
+        status: response.status,
+        scheduledSendAt: response.scheduledSendAt,
+      });
+      throw error;
+    }
+
+    const sent = await databaseService.updateAIResponse(response.id, {
+      status: 'SENT',
+      sentAt: new Date(),
+    });
+    await databaseService.updateEmailStatus(response.emailId, 'SENT');
+    await databaseService.incrementUsageStats(session.clientId, { responsesSent: 1 });
+
+    console.log('📤 AI response sent:', response.id);
+    return sent;
+  }
+
+  // Reject a response and remove its Outlook draft
+  async rejectResponse(session: GraphSession, response: AIResponse): Promise<AIResponse> {
+    // Claimed before the draft is deleted, so a concurrent approve can't be sending it
+    const claimed = await databaseService.transitionAIResponse(response.id, OPEN_STATUSES, {
+      status: 'REJECTED',
+      scheduledSendAt: null,
+    });
+    if (!claimed) {
+      throw new ResponseStateError('AI response was already sent or rejected');
+    }
+
+    if (response.draftId) {
+      const draftId = response.draftId;
+
+      try {
+        await session.run(accessToken => microsoftGraphService.deleteDraft(accessToken, draftId));
+      } catch (error) {
+        // The client may already have deleted it in Outlook; anything else leaves the response as it was
+        if (!axios.isAxiosError(error) || error.response?.status !== 404) {
+          await databaseService.transitionAIResponse(response.id, ['REJECTED'], {
+            status: response.status,
+            scheduledSendAt: response.scheduledSendAt,
+          });
+          throw error;
+        }
+        console.log('Draft already gone:', draftId);
+      }
+    }
+
+    await databaseService.updateEmailStatus(response.emailId, 'REJECTED');
+    if (response.status === 'SCHEDULED') {
+      await this.recordCancelledSend(session.clientId, response, 'Rejected before sending');
+    }
+
+    console.log('🗑️ AI response rejected:', response.id);
+    return { ...response, status: 'REJECTED', scheduledSendAt: null };
+  }
+
+  // Stop an automatic send during its undo window, leaving the reply as a draft to review.
+  // Returns null if the send had already started or been cancelled.
+  async cancelScheduledSend(clientId: string, response: AIResponse, reason: string = 'Cancelled by the client'): Promise<AIResponse | null> {
+    // The same condition the send claims with, so only one of them wins
+    const cancelled = await databaseService.transitionAIResponse(response.id, ['SCHEDULED'], {
+      status: 'DRAFT_CREATED',
+      scheduledSendAt: null,
+    });
+    if (!cancelled) {
+      return null;
+    }
+
+    await databaseService.updateEmailStatus(response.emailId, 'DRAFT_CREATED');
+    await this.recordCancelledSend(clientId, response, reason);
+
+    console.log('↩️ Automatic send cancelled:', response.id);
+    return { ...response, status: 'DRAFT_CREATED', scheduledSendAt: null };
+  }
+
+  // The client deleted the draft in Outlook, their way of rejecting it. Returns false if the response
+  // moved on since it was read.
+  async rejectDeletedDraft(clientId: string, response: AIResponse): Promise<boolean> {
+    const rejected = await databaseService.transitionAIResponse(response.id, [response.status], {
+      status: 'REJECTED',
+      scheduledSendAt: null,
+    });
+    if (!rejected) {
+      return false;
+    }
+
+    await databaseService.updateEmailStatus(response.emailId, 'REJECTED');
+    if (response.status === 'SCHEDULED') {
+      await this.recordCancelledSend(clientId, response, 'Deleted in Outlook before sending');
+    }
+    return true;
+  }
+
+  private async recordCancelledSend(clientId: string, response: AIResponse, reason: string): Promise<void> {
+    await databaseService.recordAutoSendEvent({
+      clientId,
+      emailId: response.emailId,
+      aiResponseId: response.id,
+      event: 'cancelled',
+      reason,
+      confidence: response.confidence,
+    });
+  }
+}
+
+export const responseWorkflowService = new ResponseWorkflowService();
@@ -0,0 +1,121 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EmailFacts, InvalidRuleError, ProcessingContext, RuleInput, evaluateRules, validateRules } from './rulesEngine';
+
+const context: ProcessingContext = {
+  aiEnabled: true,
+  clientEmail: 'owner@client.com',
+  senderRule: null,
+  rules: [],
+  triage: { enabled: false },
+  now: new Date('2025-10-01T12:00:00Z'),
+};
+
+const facts: EmailFacts = {
+  senderEmail: 'jane@acme.com',
+  subject: 'Invoice 42',
+  body: '<p>Please find the invoice attached.</p>',
+  hasAttachments: true,
+  automatedReason: null,
+  classify: async () => null,
+};
+
+const rule = (name: string, conditions: RuleInput['conditions'], action: RuleInput['action'] = 'skip'): RuleInput =>
+  ({ name, enabled: true, conditions, action });
+
+test('matches time windows that wrap past midnight', async () => {
+  const rules = [rule('Overnight', { time: { timezone: 'Europe/Berlin', start: '22:00', end: '06:00' } })];
+
+  // 23:30 and 05:59 in Berlin (CEST, UTC+2) are inside; 06:00 and noon are not
+  for (const [now, inside] of [
+    ['2025-10-01T21:30:00Z', true],
+    ['2025-10-02T03:59:00Z', true],
+    ['2025-10-02T04:00:00Z', false],
+    ['2025-10-01T10:00:00Z', false],
+  ] as const) {
+    const { decision } = await evaluateRules({ ...context, rules, now: new Date(now) }, facts);
+    assert.equal(decision.action, inside ? 'skip' : 'draft', now);
+  }
+});
+
+test('limits time windows to the given days', async () => {
+  const rules = [rule('Weekends', { time: { timezone: 'UTC', days: [0, 6] } })];
+
+  // Wednesday, then Saturday
+  assert.equal((await evaluateRules({ ...context, rules }, facts)).decision.action, 'draft');
+  assert.equal((await evaluateRules({ ...context, rules, now: new Date('2025-10-04T12:00:00Z') }, facts)).decision.action, 'skip');
+});
+
+test('validates conditions and normalizes sender patterns', () => {
+  const [saved] = validateRules([{ name: ' Acme ', action: 'flag', conditions: { senders: ['ACME.com', '@Partner.org'] } }]);
+  assert.equal(saved?.name, 'Acme');
+  assert.deepEqual(saved?.conditions.senders, ['*@acme.com', '*@partner.org']);
+
+  const invalid = [
+    { name: 'Late', action: 'skip', conditions: { time: { timezone: 'UTC', start: '9pm' } } },
+    { name: 'Nowhere', action: 'skip', conditions: { time: { timezone: 'Mars/Olympus_Mons' } } },
+    { name: 'Days', action: 'skip', conditions: { time: { timezone: 'UTC', days: [7] } } },
+    { name: 'Category', action: 'skip', conditions: { categories: ['gossip'] } },
+    { name: 'Sender', action: 'skip', conditions: { senders: ['a@b@c'] } },
+    { name: 'Template', action: 'draft-with-template', conditions: {} },
+    { name: 'Folder', action: 'move-to-folder', conditions: {} },
+    { name: 'Delete', action: 'delete', conditions: {} },
+  ];
+  for (const input of invalid) {
+    assert.throws(() => validateRules([input]), InvalidRuleError, input.name);
+  }
+});
+
+test('the first matching rule in order decides, skipping disabled rules', async () => {
+  const rules = [
+    { ...rule('Disabled', {}, 'skip'), enabled: false },
+    rule('Newsletters', { subjectContains: ['newsletter'] }, 'skip'),
+    rule('Invoices', { subjectContains: ['invoice'], hasAttachments: true }, 'flag'),
+    rule('Acme', { senders: ['*@acme.com'] }, 'move-to-folder'),
+  ];
+
+  const { decision } = await evaluateRules({ ...context, rules }, facts);
+  assert.deepEqual([decision.action, decision.source, decision.ruleId], ['flag', 'client', 'rule:2']);
+});
+
+test('sender rules win over the client rules', async () => {
+  const rules = [rule('Acme', { senders: ['*@acme.com'] }, 'skip')];
+  const senderRule = { id: 'sender-1', pattern: 'jane@acme.com', action: 'allow', templateCategory: null };
+
+  const { decision, trace } = await evaluateRules({ ...context, rules, senderRule }, facts);
+  assert.deepEqual([decision.action, decision.source, decision.ruleId], ['draft', 'sender', 'sender-1']);
+  assert.equal(trace.some(entry => entry.source === 'client'), false);
+});
+
+test('traces every rule it tried, in order', async () => {
+  const rules = [
+    rule('Newsletters', { subjectContains: ['newsletter'] }),
+    { ...rule('Disabled', {}), enabled: false },
+  ];
+
+  const { trace } = await evaluateRules({ ...context, rules }, facts);
+  assert.deepEqual(trace, [
+    { source: 'system', ruleId: 'system:ai-disabled', matched: false, detail: 'AI is enabled' },
+    { source: 'system', ruleId: 'system:own-email', matched: false, detail: 'Sender is not the client' },
+    { source: 'sender', ruleId: 'sender:none', matched: false, detail: 'No sender rule matches' },
+    { source: 'client', ruleId: 'rule:0', matched: false, detail: '"Newsletters": subject contains none of newsletter' },
+    { source: 'client', ruleId: 'rule:1', matched: false, detail: '"Disabled" is disabled' },
+    { source: 'system', ruleId: 'system:automated', matched: false, detail: 'Looks like it came from a person' },
+    { source: 'system', ruleId: 'system:default', matched: true, detail: 'Draft a reply by default' },
+  ]);
+});
+
+test('auto-send rules only send when auto-respond allows it, and never for mail that needs review', async () => {
+  const rules = [rule('Invoices', { subjectContains: ['invoice'] }, 'auto-send')];
+  const classified = (category: 'inquiry' | 'complaint', sentiment: 'neutral' | 'negative') =>
+    ({ ...facts, classify: async () => ({ category, urgency: 'normal', sentiment } as const) });
+
+  const { decision, trace } = await evaluateRules({ ...context, rules }, classified('inquiry', 'neutral'));
+  assert.deepEqual([decision.action, decision.reason], ['draft', 'Rule: Invoices (approval required)']);
+  assert.equal(trace[trace.length - 1]?.ruleId, 'system:auto-respond');
+
+  const autoRespond = { ...context, rules, autoRespond: true };
+  assert.equal((await evaluateRules(autoRespond, facts)).decision.action, 'draft');
+  assert.equal((await evaluateRules(autoRespond, classified('complaint', 'negative'))).decision.action, 'draft');
+  assert.equal((await evaluateRules(autoRespond, classified('inquiry', 'neutral'))).decision.action, 'auto-send');
+});
@@ -0,0 +1,566 @@
+import { Email, Prisma, ProcessingRule, SenderRule } from '@prisma/client';
+import { databaseService } from './database';
+import { htmlToText } from './emailText';
+import { detectAutomatedMail } from './automatedMail';
+import { EmailData } from './microsoftGraph';
+import { BusinessHoursSettings, formatLocalTime, localTime, nextOpening } from './businessHours';
+import { OutOfOfficeSettings, formatReturnDate, isAway } from './outOfOffice';
+import { autoRespondEnabled } from './autoSend';
+import {
+  InvalidSenderRuleError,
+  normalizeSenderPattern,
+  senderMatchesPattern,
+  senderRulesService,
+} from './senderRules';
+import {
+  CATEGORY_LABELS,
+  EMAIL_CATEGORIES,
+  EmailCategory,
+  EmailClassification,
+  SENTIMENTS,
+  Sentiment,
+  TriageSettings,
+  URGENCY_LEVELS,
+  Urgency,
+  decideTriageAction,
+} from './emailClassification';
+
+// What a client's rule can do with a matching email
+export const RULE_ACTIONS = ['skip', 'draft', 'draft-with-template', 'auto-send', 'flag', 'move-to-folder'] as const;
+export type RuleAction = typeof RULE_ACTIONS[number];
+
+// Rule actions plus the built-in outcomes: ignore (not recorded at all), categorize (tagged in Outlook)
+// and hold (left for later, outside business hours)
+export type ProcessingAction = RuleAction | 'ignore' | 'categorize' | 'hold';
+
+// Actions that generate a reply, and so wait for business hours
+export const DRAFTING_ACTIONS: ProcessingAction[] = ['draft', 'draft-with-template', 'auto-send'];
+
+// Outcomes where a reply may wait for the client, so an away client's sender is told when to expect it.
+// Automatic sends are only acknowledged if the draft is held back for review.
+const ACKNOWLEDGED_ACTIONS: ProcessingAction[] = ['draft', 'draft-with-template', 'auto-send', 'hold'];
+
+export type RuleSource = 'system' | 'sender' | 'client' | 'triage';
+
+// Every condition present must match; list conditions match if any entry does
+export interface RuleConditions {
+  senders?: string[]; // Address, domain or wildcard patterns, as for sender rules
+  subjectContains?: string[];
+  bodyContains?: string[];
+  categories?: EmailCategory[];
+  urgencies?: Urgency[];
+  sentiments?: Sentiment[];
+  hasAttachments?: boolean;
+  time?: {
+    timezone: string;
+    days?: number[]; // 0 = Sunday
+    start?: string; // "HH:MM"; a window ending before it starts wraps past midnight
+    end?: string;
+  };
+}
+
+export interface RuleInput {
+  name: string;
+  enabled: boolean;
+  conditions: RuleConditions;
+  action: RuleAction;
+  templateCategory?: string;
+  folder?: string;
+}
+
+// The email as the engine sees it. Classification costs a model call, so it is only requested when a rule needs it.
+export interface EmailFacts {
+  senderEmail: string;
+  subject: string;
+  body: string;
+  hasAttachments: boolean;
+  automatedReason: string | null; // From the header heuristics, when headers are available
+  classify: () => Promise<EmailClassification | null>;
+}
+
+export interface ProcessingContext {
+  aiEnabled: boolean;
+  clientEmail: string;
+  senderRule: Pick<SenderRule, 'id' | 'pattern' | 'action' | 'templateCategory'> | null;
+  rules: Array<RuleInput | ProcessingRule>;
+  triage?: TriageSettings;
+  businessHours?: BusinessHoursSettings;
+  outOfOffice?: OutOfOfficeSettings;
+  autoRespond?: boolean; // Send drafts without approval, where the checks below allow
+  now: Date;
+}
+
+export interface ProcessingDecision {
+  action: ProcessingAction;
+  source: RuleSource;
+  ruleId: string;
+  reason: string; // Shown to the client, and stored as the skip reason
+  templateCategory?: string;
+  folder?: string;
+  outlookCategory?: string;
+  resumeAt?: Date; // For hold: when the business next opens
+  outOfOfficeReply?: boolean; // The client is away: acknowledge the sender as well
+}
+
+export interface RuleTraceEntry {
+  source: RuleSource;
+  ruleId: string;
+  matched: boolean;
+  detail: string;
+}
+
+export interface RuleEvaluation {
+  decision: ProcessingDecision;
+  trace: RuleTraceEntry[];
+  vip: boolean;
+  classification: EmailClassification | null; // Set if a rule asked for it
+}
+
+// The rule set can't be saved as given
+export class InvalidRuleError extends Error {}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Decide what to do with an email. Rules are tried in a fixed order and the first match decides:
+// built-in guards, the sender list, the client's rules, automated-mail heuristics, triage, then drafting by default.
+// A sender rule always wins, so a listed sender never reaches the client's ordered rules.
+export async function evaluateRules(context: ProcessingContext, facts: EmailFacts): Promise<RuleEvaluation> {
+  const trace: RuleTraceEntry[] = [];
+  let classification: EmailClassification | null = null;
+  let classified = false;
+
+  const classify = async () => {
+    if (!classified) {
+      classification = await facts.classify();
+      classified = true;
+    }
+    return classification;
+  };
+
+  let decision = await decide(context, { ...facts, classify }, trace);
+  const vip = context.senderRule?.action === 'vip';
+
+  // A rule can ask to send, but replies only go out unreviewed once the client allows it
+  if (decision.action === 'auto-send' && !context.autoRespond) {
+    trace.push({
+      source: 'system',
+      ruleId: 'system:auto-respond',
+      matched: false,
+      detail: 'Auto-respond is off or approval is required; the reply is drafted for review',
+    });
+    decision = { ...decision, action: 'draft', reason: `${decision.reason} (approval required)` };
+  }
+
+  if (context.autoRespond && DRAFTING_ACTIONS.includes(decision.action)) {
+    const current = await classify();
+    // Mail that needs a person's judgement is always reviewed, whatever the settings
+    const blocker = vip
+      ? 'VIP mail is always reviewed'
+      : !current
+        ? 'Unclassified mail is always reviewed'
+        : current.category === 'complaint' || current.sentiment === 'negative'
+          ? 'Complaints and negative mail are always reviewed'
+          : null;
+
+    trace.push({
+      source: 'system',
+      ruleId: 'system:auto-respond',
+      matched: !blocker,
+      detail: blocker || 'Auto-respond is on and approval is not required',
+    });
+
+    if (blocker && decision.action === 'auto-send') {
+      decision = { ...decision, action: 'draft', reason: `${decision.reason} (held for review)` };
+    } else if (!blocker && decision.action !== 'auto-send') {
+      decision = { ...decision, action: 'auto-send', reason: `${decision.reason} (auto-respond)` };
+    }
+  }
+
+  const businessHours = context.businessHours;
+  if (DRAFTING_ACTIONS.includes(decision.action) && businessHours?.enabled) {
+    const opens = nextOpening(businessHours, context.now);
+    const open = opens?.getTime() === context.now.getTime();
+    trace.push({
+      source: 'system',
+      ruleId: 'system:business-hours',
+      matched: !open,
+      detail: open
+        ? 'Within business hours'
+        : `Outside business hours; ${opens ? `opens ${formatLocalTime(opens, businessHours.timezone)}` : 'no opening in the next year'}`,
+    });
+
+    if (!open) {
+      decision = {
+        action: 'hold',
+        source: 'system',
+        ruleId: 'system:business-hours',
+        reason: 'Outside business hours',
+        ...(opens && { resumeAt: opens }),
+      };
+    }
+  }
+
+  const outOfOffice = context.outOfOffice;
+  if (ACKNOWLEDGED_ACTIONS.includes(decision.action) && outOfOffice?.enabled) {
+    const away = isAway(outOfOffice, context.now);
+    trace.push({
+      source: 'system',
+      ruleId: 'system:out-of-office',
+      matched: away,
+      detail: !away
+        ? 'Not within the out-of-office dates'
+        : decision.action === 'auto-send'
+          ? `Away, back on ${formatReturnDate(outOfOffice)}; acknowledge the sender if the reply is held for review`
+          : `Away, back on ${formatReturnDate(outOfOffice)}; acknowledge the sender`,
+    });
+
+    if (away) {
+      decision = { ...decision, outOfOfficeReply: true };
+    }
+  }
+
+  return { decision, trace, vip, classification };
+}
+
+async function decide(context: ProcessingContext, facts: EmailFacts, trace: RuleTraceEntry[]): Promise<ProcessingDecision> {
+  const fire = (decision: ProcessingDecision, detail: string) => {
+    trace.push({ source: decision.source, ruleId: decision.ruleId, matched: true, detail });
+    return decision;
+  };
+  const pass = (source: RuleSource, ruleId: string, detail: string) => {
+    trace.push({ source, ruleId, matched: false, detail });
+  };
+
+  if (!context.aiEnabled) {
+    return fire({ action: 'ignore', source: 'system', ruleId: 'system:ai-disabled', reason: 'AI disabled for this client' }, 'AI is disabled');
+  }
+  pass('system', 'system:ai-disabled', 'AI is enabled');
+
+  if (facts.senderEmail.toLowerCase() === context.clientEmail.toLowerCase()) {
+    return fire({ action: 'ignore', source: 'system', ruleId: 'system:own-email', reason: 'Sent by the client' }, 'Sender is the client');
+  }
+  pass('system', 'system:own-email', 'Sender is not the client');
+
+  const senderRule = context.senderRule;
+  if (senderRule) {
+    const detail = `${facts.senderEmail} matches ${senderRule.pattern}`;
+    switch (senderRule.action) {
+      case 'deny':
+        return fire({ action: 'skip', source: 'sender', ruleId: senderRule.id, reason: `Sender rule: never draft (${senderRule.pattern})` }, detail);
+      case 'template':
+        return fire({
+          action: 'draft-with-template',
+          source: 'sender',
+          ruleId: senderRule.id,
+          reason: `Sender rule: ${senderRule.templateCategory} templates (${senderRule.pattern})`,
+          ...(senderRule.templateCategory && { templateCategory: senderRule.templateCategory }),
+        }, detail);
+      default:
+        return fire({ action: 'draft', source: 'sender', ruleId: senderRule.id, reason: `Sender rule: ${senderRule.action} (${senderRule.pattern})` }, detail);
+    }
+  }
+  pass('sender', 'sender:none', 'No sender rule matches');
+
+  for (const [index, rule] of context.rules.entries()) {
+    const ruleId = 'id' in rule ? rule.id : `rule:${index}`;
+    if (!rule.enabled) {
+      pass('client', ruleId, `"${rule.name}" is disabled`);
+      continue;
+    }
+
+    const mismatch = await findMismatch(rule.conditions as RuleConditions, facts, context.now);
+    if (mismatch) {
+      pass('client', ruleId, `"${rule.name}": ${mismatch}`);
+      continue;
+    }
+
+    return fire({
+      action: rule.action as RuleAction,
+      source: 'client',
+      ruleId,
+      reason: `Rule: ${rule.name}`,
+      ...(rule.templateCategory && { templateCategory: rule.templateCategory }),
+      ...(rule.folder && { folder: rule.folder }),
+    }, `"${rule.name}": all conditions match`);
+  }
+
+  if (facts.automatedReason) {
+    return fire({ action: 'skip', source: 'system', ruleId: 'system:automated', reason: facts.automatedReason }, 'Looks like automated mail');
+  }
+  pass('system', 'system:automated', 'Looks like it came from a person');
+
+  if (context.triage?.enabled !== false) {
+    const classification = await facts.classify();
+    if (classification) {
+      const action = decideTriageAction(classification, context.triage);
+      const decision: ProcessingDecision = {
+        action,
+        source: 'triage',
+        ruleId: `triage:${classification.category}`,
+        reason: `Triage: ${classification.category}`,
+        ...(action === 'categorize' && { outlookCategory: CATEGORY_LABELS[classification.category] }),
+      };
+      return fire(decision, `Classified as ${classification.category} (${classification.urgency} urgency, ${classification.sentiment})`);
+    }
+    // An unneeded draft is cheaper than a missed reply
+    pass('triage', 'triage:unclassified', 'Could not classify the email');
+  }
+
+  return fire({ action: 'draft', source: 'system', ruleId: 'system:default', reason: 'No rule matched' }, 'Draft a reply by default');
+}
+
+// Why the conditions don't hold, or null if they all do. Classification is checked last, so a model call
+// is only made for emails every other condition already matches.
+async function findMismatch(conditions: RuleConditions, facts: EmailFacts, now: Date): Promise<string | null> {
+  const containsAny = (text: string, keywords: string[]) =>
+    keywords.some(keyword => text.toLowerCase().includes(keyword.toLowerCase()));
+
+  if (conditions.senders?.length && !conditions.senders.some(pattern => senderMatchesPattern(facts.senderEmail, pattern))) {
+    return `sender ${facts.senderEmail} matches none of ${conditions.senders.join(', ')}`;
+  }
+  if (conditions.subjectContains?.length && !containsAny(facts.subject, conditions.subjectContains)) {
+    return `subject contains none of ${conditions.subjectContains.join(', ')}`;
+  }
+  if (conditions.bodyContains?.length && !containsAny(htmlToText(facts.body), conditions.bodyContains)) {
+    return `body contains none of ${conditions.bodyContains.join(', ')}`;
+  }
+  if (conditions.hasAttachments !== undefined && conditions.hasAttachments !== facts.hasAttachments) {
+    return conditions.hasAttachments ? 'has no attachments' : 'has attachments';
+  }
+  if (conditions.time && !isWithinWindow(now, conditions.time)) {
+    return `not within ${describeWindow(conditions.time)}`;
+  }
+
+  if (conditions.categories?.length || conditions.urgencies?.length || conditions.sentiments?.length) {
+    const classification = await facts.classify();
+    if (!classification) {
+      return 'email has not been classified';
+    }
+    if (conditions.categories?.length && !conditions.categories.includes(classification.category)) {
+      return `category is ${classification.category}`;
+    }
+    if (conditions.urgencies?.length && !conditions.urgencies.includes(classification.urgency)) {
+      return `urgency is ${classification.urgency}`;
+    }
+    if (conditions.sentiments?.length && !conditions.sentiments.includes(classification.sentiment)) {
+      return `sentiment is ${classification.sentiment}`;
+    }
+  }
+
+  return null;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+function isWithinWindow(date: Date, window: NonNullable<RuleConditions['time']>): boolean {
+  const { day, minutes } = localTime(date, window.timezone);
+  if (window.days?.length && !window.days.includes(day)) {
+    return false;
+  }
+
+  const start = toMinutes(window.start || '00:00');
+  const end = window.end ? toMinutes(window.end) : 24 * 60;
+  return start <= end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+function describeWindow(window: NonNullable<RuleConditions['time']>): string {
+  const days = window.days?.length ? window.days.map(day => WEEKDAYS[day]).join('/') + ' ' : '';
+  return `${days}${window.start || '00:00'}-${window.end || '24:00'} ${window.timezone}`;
+}
+
+// Check a rule set from the API and normalize its sender patterns
+export function validateRules(input: unknown): RuleInput[] {
+  if (!Array.isArray(input)) {
+    throw new InvalidRuleError('rules must be an array');
+  }
+
+  return input.map((rule, index) => {
+    const fail = (message: string): never => {
+      throw new InvalidRuleError(`Rule ${index + 1}: ${message}`);
+    };
+
+    if (!rule || typeof rule !== 'object') fail('must be an object');
+    if (typeof rule.name !== 'string' || !rule.name.trim()) fail('name is required');
+    if (!RULE_ACTIONS.includes(rule.action)) fail(`action must be one of: ${RULE_ACTIONS.join(', ')}`);
+    if (rule.action === 'draft-with-template' && (typeof rule.templateCategory !== 'string' || !rule.templateCategory.trim())) {
+      fail('templateCategory is required for draft-with-template');
+    }
+    if (rule.action === 'move-to-folder' && (typeof rule.folder !== 'string' || !rule.folder.trim())) {
+      fail('folder is required for move-to-folder');
+    }
+
+    let conditions: RuleConditions;
+    try {
+      conditions = validateConditions(rule.conditions ?? {});
+    } catch (error) {
+      if (error instanceof InvalidRuleError || error instanceof InvalidSenderRuleError) {
+        return fail(error.message);
+      }
+      throw error;
+    }
+
+    return {
+      name: rule.name.trim(),
+      enabled: rule.enabled !== false,
+      conditions,
+      action: rule.action,
+      ...(rule.action === 'draft-with-template' && { templateCategory: rule.templateCategory.trim() }),
+      ...(rule.action === 'move-to-folder' && { folder: rule.folder.trim() }),
+    };
+  });
+}
+
+function validateConditions(input: any): RuleConditions {
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new InvalidRuleError('conditions must be an object');
+  }
+
+  const stringList = (field: string): string[] | undefined => {
+    const value = input[field];
+    if (value === undefined) return undefined;
+    if (!Array.isArray(value) || value.some(entry => typeof entry !== 'string' || !entry.trim())) {
+      throw new InvalidRuleError(`${field} must be a list of non-empty strings`);
+    }
+    return value.map((entry: string) => entry.trim());
+  };
+  const oneOf = <T extends string>(field: string, allowed: readonly T[]): T[] | undefined => {
+    const value = stringList(field);
+    if (value?.some(entry => !allowed.includes(entry as T))) {
+      throw new InvalidRuleError(`${field} may only contain: ${allowed.join(', ')}`);
+    }
+    return value as T[] | undefined;
+  };
+
+  const senders = stringList('senders');
+  const subjectContains = stringList('subjectContains');
+  const bodyContains = stringList('bodyContains');
+  const categories = oneOf('categories', EMAIL_CATEGORIES);
+  const urgencies = oneOf('urgencies', URGENCY_LEVELS);
+  const sentiments = oneOf('sentiments', SENTIMENTS);
+
+  if (input.hasAttachments !== undefined && typeof input.hasAttachments !== 'boolean') {
+    throw new InvalidRuleError('hasAttachments must be true or false');
+  }
+
+  return {
+    ...(senders && { senders: senders.map(normalizeSenderPattern) }),
+    ...(subjectContains && { subjectContains }),
+    ...(bodyContains && { bodyContains }),
+    ...(categories && { categories }),
+    ...(urgencies && { urgencies }),
+    ...(sentiments && { sentiments }),
+    ...(input.hasAttachments !== undefined && { hasAttachments: input.hasAttachments }),
+    ...(input.time !== undefined && { time: validateTimeWindow(input.time) }),
+  };
+}
+
+function validateTimeWindow(input: any): NonNullable<RuleConditions['time']> {
+  if (!input || typeof input !== 'object' || typeof input.timezone !== 'string') {
+    throw new InvalidRuleError('time.timezone is required');
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: input.timezone });
+  } catch (error) {
+    throw new InvalidRuleError(`Unknown timezone: ${input.timezone}`);
+  }
+
+  if (input.days !== undefined && (!Array.isArray(input.days) || input.days.some((day: unknown) => !Number.isInteger(day) || (day as number) < 0 || (day as number) > 6))) {
+    throw new InvalidRuleError('time.days must be a list of weekdays from 0 (Sunday) to 6');
+  }
+  for (const field of ['start', 'end']) {
+    if (input[field] !== undefined && !TIME_OF_DAY.test(input[field])) {
+      throw new InvalidRuleError(`time.${field} must be HH:MM`);
+    }
+  }
+
+  return {
+    timezone: input.timezone,
+    ...(input.days !== undefined && { days: input.days }),
+    ...(input.start !== undefined && { start: input.start }),
+    ...(input.end !== undefined && { end: input.end }),
+  };
+}
+
+class RulesEngineService {
+  // Evaluate an email against everything the client has configured
+  async evaluate(client: any, aiSettings: any, facts: EmailFacts, now: Date = new Date()): Promise<RuleEvaluation> {
+    const rules = await databaseService.getProcessingRules(client.id);
+    return this.evaluateWith(client, aiSettings, rules, facts, now);
+  }
+
+  // Explain what would happen to a stored email, without making model calls or touching the mailbox.
+  // The live message supplies headers for the automated-mail checks; candidate rules can be tried before saving.
+  async explain(
+    client: any,
+    email: Email,
+    options: { message?: EmailData | null; rules?: unknown; now?: Date } = {}
+  ): Promise<RuleEvaluation> {
+    const rules = options.rules !== undefined
+      ? validateRules(options.rules)
+      : await databaseService.getProcessingRules(client.id);
+
+    const message: EmailData = options.message || {
+      id: email.microsoftId,
+      subject: email.subject,
+      body: email.body,
+      sender: { name: email.sender, email: email.senderEmail },
+      recipients: [],
+      receivedDateTime: email.receivedAt.toISOString(),
+      conversationId: email.threadId || '',
+    };
+
+    // Only what triage already stored; unclassified emails don't match classification conditions
+    const classification = email.category
+      ? { category: email.category, urgency: email.urgency || 'normal', sentiment: email.sentiment || 'neutral' } as EmailClassification
+      : null;
+
+    return this.evaluateWith(client, client.aiSettings, rules, {
+      senderEmail: email.senderEmail,
+      subject: email.subject,
+      body: email.body,
+      hasAttachments: message.hasAttachments ?? email.hasAttachments,
+      automatedReason: detectAutomatedMail(message),
+      classify: async () => classification,
+    }, options.now || email.receivedAt);
+  }
+
+  private async evaluateWith(
+    client: any,
+    aiSettings: any,
+    rules: Array<RuleInput | ProcessingRule>,
+    facts: EmailFacts,
+    now: Date
+  ): Promise<RuleEvaluation> {
+    return evaluateRules({
+      aiEnabled: client.aiEnabled,
+      clientEmail: client.email,
+      senderRule: await senderRulesService.findRule(client.id, facts.senderEmail),
+      rules,
+      ...(aiSettings?.triage && { triage: aiSettings.triage }),
+      businessHours: aiSettings?.businessHours,
+      outOfOffice: aiSettings?.outOfOffice,
+      autoRespond: autoRespondEnabled(aiSettings),
+      now,
+    }, facts);
+  }
+
+  // Validate and save the client's ordered rule set
+  async saveRules(clientId: string, input: unknown) {
+    const rules = validateRules(input);
+    const saved = await databaseService.replaceProcessingRules(clientId, rules.map(rule => ({
+      ...rule,
+      conditions: rule.conditions as Prisma.InputJsonObject,
+    })));
+
+    console.log(`📐 Saved ${saved.length} processing rules for client:`, clientId);
+    return saved;
+  }
+}
+
+export const rulesEngineService = new RulesEngineService();
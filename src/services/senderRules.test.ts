@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { InvalidSenderRuleError, matchSenderRule, normalizeSenderPattern, senderMatchesPattern } from './senderRules';
+
+const rules = (...entries: Array<[string, string]>) => entries.map(([pattern, action]) => ({ pattern, action }));
+
+test('normalizes addresses, domains and wildcards', () => {
+  assert.equal(normalizeSenderPattern(' Jane@Acme.com '), 'jane@acme.com');
+  assert.equal(normalizeSenderPattern('acme.com'), '*@acme.com');
+  assert.equal(normalizeSenderPattern('@acme.com'), '*@acme.com');
+  assert.equal(normalizeSenderPattern('billing-*@acme.com'), 'billing-*@acme.com');
+
+  for (const pattern of ['', 'a@b@c', 'jane@', 'jane smith@acme.com']) {
+    assert.throws(() => normalizeSenderPattern(pattern), InvalidSenderRuleError, pattern);
+  }
+});
+
+test('wildcards match within the local part or domain, never across the @', () => {
+  assert.equal(senderMatchesPattern('Jane@Acme.com', '*@acme.com'), true);
+  assert.equal(senderMatchesPattern('jane@mail.acme.com', '*@*.acme.com'), true);
+  assert.equal(senderMatchesPattern('jane@acme.com', '*@*.acme.com'), false);
+  assert.equal(senderMatchesPattern('jane@evil.com', 'jane*'), false);
+  assert.equal(senderMatchesPattern('jane@acmexcom', '*@acme.com'), false);
+});
+
+test('the most specific matching rule wins', () => {
+  const list = rules(['*@acme.com', 'deny'], ['billing-*@acme.com', 'template'], ['billing-jane@acme.com', 'allow']);
+
+  assert.equal(matchSenderRule(list, 'billing-jane@acme.com')?.action, 'allow');
+  assert.equal(matchSenderRule(list, 'billing-joe@acme.com')?.action, 'template');
+  assert.equal(matchSenderRule(list, 'sales@acme.com')?.action, 'deny');
+  assert.equal(matchSenderRule(list, 'jane@other.com'), null);
+});
+
+test('among equally specific rules, the more restrictive action wins', () => {
+  const list = rules(['*@acme.com', 'allow'], ['*@acme.com', 'vip'], ['*@acme.com', 'deny']);
+  assert.equal(matchSenderRule(list, 'jane@acme.com')?.action, 'deny');
+
+  assert.equal(matchSenderRule(rules(['*@acme.com', 'allow'], ['*@acme.com', 'template']), 'jane@acme.com')?.action, 'template');
+});
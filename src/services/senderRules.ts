@@ -0,0 +1,91 @@
+import { SenderRule } from '@prisma/client';
+import { databaseService } from './database';
+
+// allow: always draft; deny: never draft; vip: always draft, flagged, with the premium model;
+// template: always draft from the given template category
+export const SENDER_RULE_ACTIONS = ['allow', 'deny', 'vip', 'template'] as const;
+export type SenderRuleAction = typeof SENDER_RULE_ACTIONS[number];
+
+// Among equally specific rules, the more restrictive action wins
+const ACTION_PRECEDENCE: SenderRuleAction[] = ['deny', 'vip', 'template', 'allow'];
+
+// The rule can't be saved as given
+export class InvalidSenderRuleError extends Error {}
+
+// Turn an address, domain ("acme.com", "@acme.com") or wildcard into "local@domain" form
+export function normalizeSenderPattern(pattern: string): string {
+  const normalized = pattern.trim().toLowerCase();
+  if (!normalized) {
+    throw new InvalidSenderRuleError('Pattern is required');
+  }
+  if (!/^[a-z0-9.!#$%&'*+/=?^_`{|}~@-]+$/.test(normalized)) {
+    throw new InvalidSenderRuleError('Pattern may only contain email address characters and * wildcards');
+  }
+
+  const parts = normalized.split('@');
+  if (parts.length > 2) {
+    throw new InvalidSenderRuleError('Pattern may contain at most one @');
+  }
+
+  // A bare domain matches every address at it
+  if (parts.length === 1) {
+    return `*@${normalized}`;
+  }
+
+  const [local, domain] = parts;
+  if (!domain) {
+    throw new InvalidSenderRuleError('Pattern is missing a domain');
+  }
+
+  return `${local || '*'}@${domain}`;
+}
+
+export function senderMatchesPattern(senderEmail: string, pattern: string): boolean {
+  // * matches within the local part or the domain, never across the @
+  const source = pattern
+    .split('*')
+    .map(literal => literal.replace(/[.+?^${}()|[\]\\/]/g, '\\$&'))
+    .join('[^@]*');
+
+  return new RegExp(`^${source}$`).test(senderEmail.trim().toLowerCase());
+}
+
+// The most specific matching rule: an address beats a wildcard, which beats a whole domain
+export function matchSenderRule<T extends Pick<SenderRule, 'pattern' | 'action'>>(rules: T[], senderEmail: string): T | null {
+  const specificity = (rule: T) => rule.pattern.replace(/\*/g, '').length;
+  const precedence = (rule: T) => ACTION_PRECEDENCE.indexOf(rule.action as SenderRuleAction);
+
+  return rules
+    .filter(rule => senderMatchesPattern(senderEmail, rule.pattern))
+    .sort((a, b) => specificity(b) - specificity(a) || precedence(a) - precedence(b))[0] || null;
+}
+
+class SenderRulesService {
+  // Validate and save a rule for a client
+  async addRule(clientId: string, data: { pattern: string; action: string; templateCategory?: string }) {
+    if (!(SENDER_RULE_ACTIONS as readonly string[]).includes(data.action)) {
+      throw new InvalidSenderRuleError(`action must be one of: ${SENDER_RULE_ACTIONS.join(', ')}`);
+    }
+    if (data.action === 'template' && !data.templateCategory?.trim()) {
+      throw new InvalidSenderRuleError('templateCategory is required for template rules');
+    }
+
+    const rule = await databaseService.createSenderRule({
+      clientId,
+      pattern: normalizeSenderPattern(data.pattern),
+      action: data.action,
+      ...(data.action === 'template' && { templateCategory: data.templateCategory!.trim() }),
+    });
+
+    console.log(`📇 Sender rule added for client: ${clientId} (${rule.pattern} → ${rule.action})`);
+    return rule;
+  }
+
+  // The client's rule for a sender, if any
+  async findRule(clientId: string, senderEmail: string): Promise<SenderRule | null> {
+    const rules = await databaseService.getSenderRules(clientId);
+    return matchSenderRule(rules, senderEmail);
+  }
+}
+
+export const senderRulesService = new SenderRulesService();
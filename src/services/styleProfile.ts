@@ -0,0 +1,175 @@
+import { databaseService } from './database';
+import { microsoftGraphService } from './microsoftGraph';
+import { GraphSession } from './graphSession';
+import { extractReplyText } from './emailText';
+import { tokenize } from './textSimilarity';
+
+export interface StyleProfile {
+  sampleSize: number;
+  greetings: string[];
+  signOffs: string[];
+  medianWordCount: number;
+  averageSentenceWords: number;
+  exclamationRate: number; // Share of messages using at least one "!"
+  vocabulary: string[];
+  exemplars: string[]; // Anonymized sent messages, used as few-shot examples
+}
+
+const SAMPLE_SIZE = 50;
+const MIN_MESSAGE_WORDS = 8;
+const MAX_EXEMPLARS = 3;
+const MAX_EXEMPLAR_CHARS = 1200;
+
+const GREETING_PATTERN = /^(hi|hello|hey|dear|good (morning|afternoon|evening)|greetings|thanks|thank you)\b/i;
+const SIGN_OFF_PATTERN = /^(best|kind regards|regards|warm regards|many thanks|thanks|thank you|cheers|sincerely|all the best|talk soon|speak soon|br)\b[^.?]{0,20},?$/i;
+
+class StyleProfileService {
+  // Learn how the client writes from their recent Sent Items and store the profile on the client
+  async buildProfile(clientId: string): Promise<StyleProfile | null> {
+    const client = await databaseService.getClientById(clientId);
+    if (!client) {
+      throw new Error('Client not found');
+    }
+
+    const session = await GraphSession.forClient(clientId);
+    const sentMessages = await session.run(accessToken =>
+      microsoftGraphService.getSentMessages(accessToken, SAMPLE_SIZE)
+    );
+
+    // Forwards and auto-replies don't reflect how the client writes
+    const samples = sentMessages
+      .filter(message => !/^(fw|fwd|automatic reply|out of office)\b/i.test(message.subject))
+      .map(message => ({
+        text: extractReplyText(message.body),
+        recipientNames: message.recipients.map(recipient => recipient.name).filter(Boolean),
+      }))
+      .filter(sample => this.countWords(sample.text) >= MIN_MESSAGE_WORDS);
+
+    if (samples.length === 0) {
+      console.log(`No usable sent mail to learn style from for client: ${clientId}`);
+      return null;
+    }
+
+    const profile = this.extractProfile(samples, client.name);
+    await databaseService.updateClientStyleProfile(clientId, profile);
+
+    console.log(`🖋️ Style profile built for client: ${clientId} from ${samples.length} sent messages`);
+    return profile;
+  }
+
+  private extractProfile(
+    samples: Array<{ text: string; recipientNames: string[] }>,
+    clientName: string
+  ): StyleProfile {
+    const greetings: string[] = [];
+    const signOffs: string[] = [];
+    const wordCounts: number[] = [];
+    const sentenceLengths: number[] = [];
+    const wordFrequency = new Map<string, number>();
+    let withExclamation = 0;
+
+    for (const sample of samples) {
+      const lines = sample.text.split('\n').map(line => line.trim()).filter(Boolean);
+      const firstLine = lines[0] || '';
+      if (GREETING_PATTERN.test(firstLine) && firstLine.length <= 40) {
+        greetings.push(this.genericizeNames(firstLine, sample.recipientNames));
+      }
+
+      // The sign-off sits just above the client's name, so check the last few lines
+      const signOff = lines.slice(-3).find(line => SIGN_OFF_PATTERN.test(line));
+      if (signOff) {
+        signOffs.push(signOff);
+      }
+
+      wordCounts.push(this.countWords(sample.text));
+      if (sample.text.includes('!')) {
+        withExclamation++;
+      }
+
+      for (const sentence of sample.text.split(/[.!?]+\s/)) {
+        const words = this.countWords(sentence);
+        if (words > 0) {
+          sentenceLengths.push(words);
+        }
+      }
+
+      // Vocabulary is shown in prompts, so it comes from the anonymized text, without the placeholders
+      const anonymized = this.anonymize(sample.text, sample.recipientNames).replace(/\[(name|email|link|phone)\]/g, ' ');
+      for (const word of tokenize(anonymized)) {
+        if (!/\d/.test(word)) {
+          wordFrequency.set(word, (wordFrequency.get(word) || 0) + 1);
+        }
+      }
+    }
+
+    const nameWords = new Set(clientName.toLowerCase().split(/\s+/));
+    const vocabulary = [...wordFrequency.entries()]
+      .filter(([word, count]) => count > 1 && !nameWords.has(word))
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 25)
+      .map(([word]) => word);
+
+    const medianWordCount = this.median(wordCounts);
+
+    return {
+      sampleSize: samples.length,
+      greetings: this.mostCommon(greetings, 3),
+      signOffs: this.mostCommon(signOffs, 3),
+      medianWordCount,
+      averageSentenceWords: Math.round(sentenceLengths.reduce((sum, n) => sum + n, 0) / Math.max(sentenceLengths.length, 1)),
+      exclamationRate: Math.round((withExclamation / samples.length) * 100) / 100,
+      vocabulary,
+      exemplars: this.pickExemplars(samples, medianWordCount),
+    };
+  }
+
+  // Prefer typical-length messages so the examples show the client's usual reply
+  private pickExemplars(samples: Array<{ text: string; recipientNames: string[] }>, medianWordCount: number): string[] {
+    return [...samples]
+      .sort((a, b) =>
+        Math.abs(this.countWords(a.text) - medianWordCount) - Math.abs(this.countWords(b.text) - medianWordCount)
+      )
+      .slice(0, MAX_EXEMPLARS)
+      .map(sample => this.anonymize(sample.text, sample.recipientNames).slice(0, MAX_EXEMPLAR_CHARS));
+  }
+
+  // Strip details about other people before the text is reused in prompts
+  private anonymize(text: string, recipientNames: string[]): string {
+    return this.genericizeNames(text, recipientNames)
+      .replace(/[\w.+-]+@[\w-]+\.[\w.-]+/g, '[email]')
+      .replace(/https?:\/\/\S+/g, '[link]')
+      .replace(/\+?\d[\d\s().-]{7,}\d/g, '[phone]');
+  }
+
+  private genericizeNames(text: string, names: string[]): string {
+    const parts = names.flatMap(name => name.split(/\s+/)).filter(part => part.length > 1);
+
+    return parts.reduce((result, part) => {
+      const escaped = part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      return result.replace(new RegExp(`\\b${escaped}\\b`, 'g'), '[name]');
+    }, text);
+  }
+
+  private mostCommon(values: string[], limit: number): string[] {
+    const counts = new Map<string, number>();
+    for (const value of values) {
+      counts.set(value, (counts.get(value) || 0) + 1);
+    }
+
+    return [...counts.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([value]) => value);
+  }
+
+  private median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)] || 0;
+  }
+
+  private countWords(text: string): number {
+    return text.split(/\s+/).filter(Boolean).length;
+  }
+}
+
+export const styleProfileService = new StyleProfileService();
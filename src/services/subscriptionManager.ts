@@ -0,0 +1,129 @@
+import axios from 'axios';
+import { WebhookSubscription } from '@prisma/client';
+import { databaseService } from './database';
+import { microsoftGraphService } from './microsoftGraph';
+import { GraphSession } from './graphSession';
+import { getAppUrls } from './appUrls';
+
+interface RenewalResult {
+  renewed: number;
+  recreated: number;
+  failed: number;
+  total: number;
+}
+
+const RENEWAL_WINDOW_MS = 6 * 60 * 60 * 1000; // Renew subscriptions expiring within 6 hours
+
+// Where Graph delivers a client's mail notifications
+export function webhookNotificationUrl(clientId: string): string {
+  return `${getAppUrls().backend}/api/webhook/microsoft/${clientId}`;
+}
+
+class SubscriptionManagerService {
+  private schedulerTimer: NodeJS.Timeout | null = null;
+
+  // Renew near-expiry subscriptions and recreate ones that have already lapsed
+  async renewSubscriptions(): Promise<RenewalResult> {
+    const subscriptions = await databaseService.getActiveWebhookSubscriptions();
+    const result: RenewalResult = { renewed: 0, recreated: 0, failed: 0, total: subscriptions.length };
+    const renewBefore = new Date(Date.now() + RENEWAL_WINDOW_MS);
+
+    for (const subscription of subscriptions) {
+      if (subscription.expirationTime > renewBefore && subscription.clientState) {
+        continue;
+      }
+
+      try {
+        const session = await GraphSession.forClient(subscription.clientId);
+
+        // Subscriptions from before per-subscription secrets are replaced rather than renewed
+        if (subscription.expirationTime <= new Date() || !subscription.clientState) {
+          await this.recreateSubscription(session, subscription);
+          result.recreated++;
+          continue;
+        }
+
+        try {
+          const expirationTime = await session.run(accessToken =>
+            microsoftGraphService.renewWebhookSubscription(accessToken, subscription.subscriptionId)
+          );
+          await databaseService.recordWebhookSubscriptionRenewal(subscription.subscriptionId, expirationTime);
+          result.renewed++;
+          console.log(`✅ Renewed subscription for client: ${subscription.clientId}`);
+        } catch (error) {
+          // Graph forgets subscriptions it has removed, so bring it back instead
+          if (!axios.isAxiosError(error) || error.response?.status !== 404) {
+            throw error;
+          }
+
+          await this.recreateSubscription(session, subscription);
+          result.recreated++;
+        }
+      } catch (error) {
+        result.failed++;
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`❌ Failed to renew subscription for client: ${subscription.clientId}`, error);
+
+        try {
+          await databaseService.recordWebhookSubscriptionFailure(subscription.subscriptionId, message);
+        } catch (recordError) {
+          console.error('Error recording subscription failure:', recordError);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  // Replace a subscription with a new one pointing at the same notification URL
+  async recreateSubscription(session: GraphSession, subscription: WebhookSubscription): Promise<WebhookSubscription> {
+    // Subscriptions saved before the URL was stored get it from the app URL, as the OAuth callback builds it
+    const notificationUrl = subscription.notificationUrl || webhookNotificationUrl(subscription.clientId);
+    const created = await session.run(accessToken =>
+      microsoftGraphService.createWebhookSubscription(accessToken, notificationUrl)
+    );
+
+    const saved = await databaseService.saveWebhookSubscription({
+      clientId: subscription.clientId,
+      subscriptionId: created.id,
+      resource: subscription.resource,
+      notificationUrl,
+      clientState: created.clientState,
+      expirationTime: created.expirationTime,
+    });
+    await databaseService.deactivateWebhookSubscription(subscription.subscriptionId);
+
+    // Stop the old subscription if Graph still has it, so it can't keep delivering
+    try {
+      await session.run(accessToken =>
+        microsoftGraphService.deleteWebhookSubscription(accessToken, subscription.subscriptionId)
+      );
+    } catch (error) {
+      console.log('Old subscription already gone:', subscription.subscriptionId);
+    }
+
+    console.log(`♻️ Recreated subscription for client: ${subscription.clientId}`, created.id);
+    return saved;
+  }
+
+  // Periodically renew subscriptions in long-running (non-serverless) processes
+  startScheduler(intervalMs: number = 60 * 60 * 1000): void {
+    if (this.schedulerTimer) {
+      return;
+    }
+
+    this.schedulerTimer = setInterval(() => {
+      this.renewSubscriptions().catch(error => console.error('Error renewing subscriptions:', error));
+    }, intervalMs);
+    this.schedulerTimer.unref();
+  }
+
+  stopScheduler(): void {
+    if (this.schedulerTimer) {
+      clearInterval(this.schedulerTimer);
+      this.schedulerTimer = null;
+    }
+  }
+}
+
+export const subscriptionManagerService = new SubscriptionManagerService();
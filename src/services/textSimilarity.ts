@@ -0,0 +1,77 @@
+// TF-IDF ranking for small, per-client document sets
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'that', 'this', 'with', 'you', 'your', 'are', 'have', 'was', 'will', 'can', 'but',
+  'not', 'all', 'any', 'our', 'from', 'they', 'their', 'there', 'what', 'when', 'which', 'would', 'could',
+  'should', 'about', 'just', 'been', 'also', 'into', 'more', 'some', 'than', 'then', 'them', 'these',
+  'were', 'has', 'had', 'its', 'let', 'know', 'please', 'thanks', 'thank', 'hi', 'hello', 'regards', 'best',
+]);
+
+export interface RankedDocument<T> {
+  item: T;
+  score: number;
+}
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9']{3,}/g) || []).filter(token => !STOP_WORDS.has(token));
+}
+
+// Rank documents by cosine similarity of TF-IDF vectors to the query
+export function rankBySimilarity<T>(
+  query: string,
+  documents: Array<{ item: T; text: string }>,
+  options: { limit: number; minScore?: number }
+): RankedDocument<T>[] {
+  if (documents.length === 0) {
+    return [];
+  }
+
+  const termCounts = documents.map(document => countTerms(tokenize(document.text)));
+
+  // Smoothed IDF so terms found in every document still count a little
+  const documentFrequency = new Map<string, number>();
+  for (const counts of termCounts) {
+    for (const term of counts.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+  const idf = (term: string) => Math.log((1 + documents.length) / (1 + (documentFrequency.get(term) || 0))) + 1;
+
+  const queryVector = weigh(countTerms(tokenize(query)), idf);
+
+  return documents
+    .map((document, index) => ({
+      item: document.item,
+      score: cosine(queryVector, weigh(termCounts[index]!, idf)),
+    }))
+    .filter(ranked => ranked.score >= (options.minScore || 0) && ranked.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit);
+}
+
+function countTerms(tokens: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const token of tokens) {
+    counts.set(token, (counts.get(token) || 0) + 1);
+  }
+  return counts;
+}
+
+function weigh(counts: Map<string, number>, idf: (term: string) => number): Map<string, number> {
+  const vector = new Map<string, number>();
+  for (const [term, count] of counts) {
+    vector.set(term, count * idf(term));
+  }
+  return vector;
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  for (const [term, weight] of a) {
+    dot += weight * (b.get(term) || 0);
+  }
+
+  const norm = (vector: Map<string, number>) => Math.sqrt([...vector.values()].reduce((sum, w) => sum + w * w, 0));
+  const denominator = norm(a) * norm(b);
+  return denominator === 0 ? 0 : dot / denominator;
+}
@@ -0,0 +1,30 @@
+import { ICachePlugin, TokenCacheContext } from '@azure/msal-node';
+import { databaseService } from './database';
+
+// Persists one client's MSAL token cache (including its refresh token) in the database
+export class DatabaseTokenCachePlugin implements ICachePlugin {
+  constructor(private clientId: string) {}
+
+  async beforeCacheAccess(cacheContext: TokenCacheContext): Promise<void> {
+    try {
+      const serializedCache = await databaseService.getTokenCache(this.clientId);
+      if (serializedCache) {
+        cacheContext.tokenCache.deserialize(serializedCache);
+      }
+    } catch (error) {
+      console.error('Error loading token cache for client:', this.clientId, error);
+      throw error;
+    }
+  }
+
+  async afterCacheAccess(cacheContext: TokenCacheContext): Promise<void> {
+    try {
+      if (cacheContext.cacheHasChanged) {
+        await databaseService.saveTokenCache(this.clientId, cacheContext.tokenCache.serialize());
+      }
+    } catch (error) {
+      console.error('Error saving token cache for client:', this.clientId, error);
+      throw error;
+    }
+  }
+}